@@ -1,9 +1,11 @@
 import type { ReactNode } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { CartProvider } from '@/contexts/CartContext';
 import { Toaster } from '@/components/ui/toaster';
+import { toast } from '@/hooks/use-toast';
 import { TooltipProvider } from '@/components/ui/tooltip';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryCache, QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import DarkMode from '@/components/DarkMode';
@@ -12,9 +14,17 @@ import Footer from '@/components/Footer';
 // Pages
 import LoginPage from '@/pages/LoginPage';
 import AdminDashboard from '@/pages/AdminDashboard';
-import Index from '@/pages/Products';
+import AdminOrders from '@/pages/AdminOrders';
+import AdminSettings from '@/pages/AdminSettings';
+import AdminPurchasing from '@/pages/AdminPurchasing';
+import PurchaseOrderPrint from '@/pages/PurchaseOrderPrint';
+import PriceListPrint from '@/pages/PriceListPrint';
+import AdminValuation from '@/pages/AdminValuation';
+import AdminPriceLists from '@/pages/AdminPriceLists';
+import Products from '@/pages/Products';
 import About from '@/pages/About';
 import Landing from '@/pages/Landing';
+import Checkout from '@/pages/Checkout';
 
 
 // Dummy NotFound and RequireAdmin for fallback (replace with your actual components)
@@ -45,6 +55,16 @@ const RequireAdmin = ({ children }: { children: ReactNode }) => {
 
 
 const queryClient = new QueryClient({
+  // One toast per failed query; hooks name the failure in meta.errorMessage
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || (query.meta?.errorMessage as string | undefined) || 'Failed to load data',
+      });
+    },
+  }),
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutes
@@ -60,31 +80,90 @@ const App = () => (
   <ThemeProvider>
     <DarkMode strict={true}>
       <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              {/* Main pages */}
-              <Route path="/" element={<Landing />} />
-              <Route path="/products" element={<Index />} />
-              <Route path="/login" element={<LoginPage />} />
-              <Route path="/about" element={<About />} />
-              {/* Admin */}
-              <Route
-                path="/admin"
-                element={
-                  <RequireAdmin>
-                    <AdminDashboard />
-                  </RequireAdmin>
-                }
-              />
-              {/* Catch-all 404 */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-            <Footer />
-          </BrowserRouter>
-        </TooltipProvider>
+        <CartProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                {/* Main pages */}
+                <Route path="/" element={<Landing />} />
+                <Route path="/products" element={<Products />} />
+                <Route path="/login" element={<LoginPage />} />
+                <Route path="/about" element={<About />} />
+                <Route path="/checkout" element={<Checkout />} />
+                {/* Admin */}
+                <Route
+                  path="/admin"
+                  element={
+                    <RequireAdmin>
+                      <AdminDashboard />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/orders"
+                  element={
+                    <RequireAdmin>
+                      <AdminOrders />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/settings"
+                  element={
+                    <RequireAdmin>
+                      <AdminSettings />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/purchasing"
+                  element={
+                    <RequireAdmin>
+                      <AdminPurchasing />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/purchasing/:id/print"
+                  element={
+                    <RequireAdmin>
+                      <PurchaseOrderPrint />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/price-list"
+                  element={
+                    <RequireAdmin>
+                      <PriceListPrint />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/valuation"
+                  element={
+                    <RequireAdmin>
+                      <AdminValuation />
+                    </RequireAdmin>
+                  }
+                />
+                <Route
+                  path="/admin/price-lists"
+                  element={
+                    <RequireAdmin>
+                      <AdminPriceLists />
+                    </RequireAdmin>
+                  }
+                />
+                {/* Catch-all 404 */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+              <Footer />
+            </BrowserRouter>
+          </TooltipProvider>
+        </CartProvider>
       </QueryClientProvider>
     </DarkMode>
   </ThemeProvider>
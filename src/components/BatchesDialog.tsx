@@ -0,0 +1,349 @@
+import { useEffect, useState } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase, ProductBatch, ProductVariant } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { getStoreDateKey } from '@/lib/store-hours';
+import { describeExpiry, formatStockQuantity, isValidStockQuantity, stockQuantityStep } from '@/lib/stock';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type BatchDraft = {
+  batch_code: string;
+  manufactured_on: string;
+  best_before: string;
+  quantity: string;
+};
+
+const newDraft = (): BatchDraft => {
+  const today = getStoreDateKey();
+  return {
+    batch_code: today.replace(/-/g, ''),
+    manufactured_on: today,
+    best_before: '',
+    quantity: '',
+  };
+};
+
+interface BatchesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productName: string;
+  variant: ProductVariant | null;
+  onSuccess?: () => void;
+}
+
+export default function BatchesDialog({ open, onOpenChange, productName, variant, onSuccess }: BatchesDialogProps) {
+  const [batches, setBatches] = useState<ProductBatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<BatchDraft>(newDraft);
+  const [batchToWriteOff, setBatchToWriteOff] = useState<ProductBatch | null>(null);
+  const { toast } = useToast();
+
+  const fetchBatches = async () => {
+    if (!variant) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('product_batches')
+        .select('*')
+        .eq('variant_id', variant.id)
+        .order('quantity', { ascending: false })
+        .order('best_before', { ascending: true, nullsFirst: false })
+        .order('manufactured_on', { ascending: true });
+
+      if (error) throw error;
+
+      setBatches((data ?? []) as ProductBatch[]);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load batches',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open || !variant) return;
+
+    setDraft(newDraft());
+    fetchBatches();
+  }, [open, variant?.id]);
+
+  const today = parseISO(getStoreDateKey());
+  const batchedQuantity = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+  const unbatchedQuantity = Math.max((variant?.quantity ?? 0) - batchedQuantity, 0);
+  const unit = variant?.stock_unit ?? 'pack';
+
+  const handleAddBatch = async () => {
+    if (!variant) return;
+
+    const quantity = Number(draft.quantity);
+    if (!draft.batch_code.trim() || draft.quantity.trim() === '' || !isValidStockQuantity(quantity, unit) || quantity <= 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing details',
+        description:
+          unit === 'kg'
+            ? 'Enter a batch code and a weight in kg greater than 0.'
+            : `Enter a batch code and a whole number of ${unit}s greater than 0.`,
+      });
+      return;
+    }
+
+    if (draft.best_before && draft.best_before < draft.manufactured_on) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid dates',
+        description: 'Best before cannot be earlier than the made on date.',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.rpc('add_product_batch', {
+        p_variant_id: variant.id,
+        p_batch_code: draft.batch_code,
+        p_manufactured_on: draft.manufactured_on || null,
+        p_best_before: draft.best_before || null,
+        p_quantity: quantity,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Batch added',
+        description: `${formatStockQuantity(quantity, unit)} added to ${productName} (${variant.variant_value}).`,
+      });
+
+      setDraft(newDraft());
+      await fetchBatches();
+      onSuccess?.();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to add batch',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWriteOff = async () => {
+    if (!batchToWriteOff) return;
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.rpc('write_off_batch', { p_batch_id: batchToWriteOff.id });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Batch written off',
+        description: `${formatStockQuantity(batchToWriteOff.quantity, unit)} from batch ${batchToWriteOff.batch_code} recorded as wastage.`,
+      });
+
+      setBatchToWriteOff(null);
+      await fetchBatches();
+      onSuccess?.();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to write off batch',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Batches</DialogTitle>
+            <DialogDescription>
+              {variant ? `${productName} • ${variant.variant_value} (${variant.sku})` : productName}. Sales and
+              stock removals are taken from the batch that expires first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3 rounded-[var(--radius)] border border-border p-3 sm:grid-cols-[1fr_1fr_1fr_6rem_auto] sm:items-end">
+            <div className="grid gap-1.5">
+              <Label htmlFor="batch-code">Batch code</Label>
+              <Input
+                id="batch-code"
+                value={draft.batch_code}
+                onChange={(e) => setDraft((prev) => ({ ...prev, batch_code: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="batch-made-on">Made on</Label>
+              <Input
+                id="batch-made-on"
+                type="date"
+                value={draft.manufactured_on}
+                onChange={(e) => setDraft((prev) => ({ ...prev, manufactured_on: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="batch-best-before">Best before</Label>
+              <Input
+                id="batch-best-before"
+                type="date"
+                min={draft.manufactured_on}
+                value={draft.best_before}
+                onChange={(e) => setDraft((prev) => ({ ...prev, best_before: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="batch-quantity">Quantity ({unit === 'kg' ? 'kg' : `${unit}s`})</Label>
+              <Input
+                id="batch-quantity"
+                type="number"
+                min="0"
+                step={stockQuantityStep(unit)}
+                value={draft.quantity}
+                onChange={(e) => setDraft((prev) => ({ ...prev, quantity: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+            <Button onClick={handleAddBatch} disabled={saving || !variant}>
+              {saving ? 'Saving...' : 'Add Batch'}
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">Loading batches...</div>
+          ) : batches.length === 0 ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">No batches recorded for this variant</div>
+          ) : (
+            <div className="rounded-md border border-border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Made on</TableHead>
+                    <TableHead>Best before</TableHead>
+                    <TableHead className="text-right">Remaining</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map((batch) => {
+                    const daysLeft = batch.best_before
+                      ? differenceInCalendarDays(parseISO(batch.best_before), today)
+                      : null;
+
+                    return (
+                      <TableRow key={batch.id} className={batch.quantity === 0 ? 'opacity-60' : undefined}>
+                        <TableCell>
+                          <code className="text-xs bg-muted px-2 py-1 rounded">{batch.batch_code}</code>
+                        </TableCell>
+                        <TableCell className="text-sm">{format(parseISO(batch.manufactured_on), 'd MMM yyyy')}</TableCell>
+                        <TableCell className="text-sm">
+                          {batch.best_before ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              {format(parseISO(batch.best_before), 'd MMM yyyy')}
+                              {batch.quantity > 0 && daysLeft !== null && daysLeft <= 3 && (
+                                <Badge variant={daysLeft < 0 ? 'destructive' : 'outline'}>{describeExpiry(daysLeft)}</Badge>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {batch.quantity}
+                          <span className="text-xs text-muted-foreground"> / {batch.received_quantity}</span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {batch.quantity > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                              onClick={() => setBatchToWriteOff(batch)}
+                              disabled={saving}
+                            >
+                              Write off
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {variant && unbatchedQuantity > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {formatStockQuantity(unbatchedQuantity, unit)} of {formatStockQuantity(variant.quantity, unit)} in stock is
+              not assigned to a batch.
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(batchToWriteOff)} onOpenChange={(value) => !value && setBatchToWriteOff(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Write off batch?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {batchToWriteOff
+                ? `The remaining ${formatStockQuantity(batchToWriteOff.quantity, unit)} from batch ${batchToWriteOff.batch_code} will be removed from stock and recorded as wastage.`
+                : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleWriteOff} disabled={saving}>
+              Write Off
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PriceChangeMode, Product } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { BulkProductAction, useBulkProductAction } from '@/hooks/use-products';
+import { useCategories } from '@/hooks/use-categories';
+import { PRICE_CHANGE_MODE_LABELS, adjustPrice, isSoldByWeight } from '@/lib/pricing';
+import { formatCurrency, sortVariants, toTitleCase } from '@/lib/catalog';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+export type BulkActionKind = 'category' | 'show' | 'hide' | 'price' | 'delete';
+
+const TITLES: Record<BulkActionKind, string> = {
+  category: 'Set Category',
+  show: 'Show Items',
+  hide: 'Hide Items',
+  price: 'Change Prices',
+  delete: 'Delete Items',
+};
+
+const SUBMIT_LABELS: Record<BulkActionKind, string> = {
+  category: 'Set Category',
+  show: 'Show Items',
+  hide: 'Hide Items',
+  price: 'Update Prices',
+  delete: 'Delete Items',
+};
+
+// Select items can't have an empty value
+const NO_CATEGORY = '__none__';
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+interface BulkActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: BulkActionKind;
+  products: Product[];
+  onSuccess?: () => void;
+}
+
+export default function BulkActionDialog({
+  open,
+  onOpenChange,
+  kind,
+  products,
+  onSuccess,
+}: BulkActionDialogProps) {
+  const [category, setCategory] = useState('');
+  const [priceMode, setPriceMode] = useState<PriceChangeMode>('percent');
+  const [amount, setAmount] = useState('');
+  const { toast } = useToast();
+  const { data: categories } = useCategories();
+  const bulkAction = useBulkProductAction();
+  const saving = bulkAction.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+
+    setCategory('');
+    setPriceMode('percent');
+    setAmount('');
+  }, [open, kind]);
+
+  const amountPattern = priceMode === 'percent' ? /^-?\d+(\.\d{1,2})?$/ : /^-?\d+$/;
+  const parsedAmount = amountPattern.test(amount.trim()) ? Number(amount.trim()) : null;
+
+  const priceRows = useMemo(
+    () =>
+      products.flatMap((product) =>
+        sortVariants(product.variants).map((variant) => ({
+          product,
+          variant,
+          next: parsedAmount === null ? null : adjustPrice(variant.price, priceMode, parsedAmount),
+        }))
+      ),
+    [products, priceMode, parsedAmount]
+  );
+
+  const nextCategory = category === NO_CATEGORY ? null : category;
+
+  // How many rows the action will actually change, mirroring the RPCs' own filters
+  const changedCount =
+    kind === 'category'
+      ? category === ''
+        ? 0
+        : products.filter((product) => (product.category ?? null) !== nextCategory).length
+      : kind === 'show' || kind === 'hide'
+        ? products.filter((product) => product.is_visible !== (kind === 'show')).length
+        : kind === 'price'
+          ? priceRows.filter((row) => row.next !== null && row.next !== row.variant.price).length
+          : products.length;
+
+  const negativeRow = priceRows.find((row) => row.next !== null && row.next < 0);
+
+  const amountError =
+    kind !== 'price' || amount.trim() === ''
+      ? null
+      : parsedAmount === null || parsedAmount === 0
+        ? priceMode === 'percent'
+          ? 'Enter a percentage other than 0, e.g. 10 or -5.5'
+          : 'Enter a whole rupee amount other than 0, e.g. 20 or -10'
+        : negativeRow
+          ? `${negativeRow.product.name} (${negativeRow.variant.variant_value}) would go below ₹0`
+          : null;
+
+  const canSubmit = products.length > 0 && changedCount > 0 && !amountError;
+
+  const buildAction = (): BulkProductAction | null => {
+    switch (kind) {
+      case 'category':
+        return category === '' ? null : { type: 'category', category: nextCategory };
+      case 'show':
+      case 'hide':
+        return { type: 'visibility', isVisible: kind === 'show' };
+      case 'price':
+        return parsedAmount === null ? null : { type: 'price', mode: priceMode, amount: parsedAmount };
+      case 'delete':
+        return { type: 'delete' };
+    }
+  };
+
+  const successMessage = (count: number) => {
+    switch (kind) {
+      case 'category':
+        return `Moved ${pluralize(count, 'item')} to ${nextCategory ? toTitleCase(nextCategory) : 'no category'}.`;
+      case 'show':
+        return `${pluralize(count, 'item')} now shown in the store.`;
+      case 'hide':
+        return `${pluralize(count, 'item')} now hidden from the store.`;
+      case 'price':
+        return `Updated ${pluralize(count, 'price')}.`;
+      case 'delete':
+        return `Deleted ${pluralize(count, 'item')}.`;
+    }
+  };
+
+  const handleSubmit = () => {
+    const action = buildAction();
+    if (!action || !canSubmit) return;
+
+    bulkAction.mutate(
+      { products, action },
+      {
+        onSuccess: (count) => {
+          toast({
+            title: 'Success',
+            description: successMessage(count),
+          });
+          onSuccess?.();
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast({
+            variant: 'destructive',
+            title: 'Error',
+            description: error.message || 'Failed to update items',
+          });
+        },
+      }
+    );
+  };
+
+  const variantCount = products.reduce((total, product) => total + product.variants.length, 0);
+  const imageCount = products.reduce((total, product) => total + product.images.length, 0);
+
+  const summary =
+    kind === 'category'
+      ? category === ''
+        ? `Choose a category for ${pluralize(products.length, 'selected item')}.`
+        : `${pluralize(changedCount, 'item')} will move to ${nextCategory ? toTitleCase(nextCategory) : 'no category'}` +
+          (changedCount < products.length ? `; ${products.length - changedCount} already there.` : '.')
+      : kind === 'show' || kind === 'hide'
+        ? `${pluralize(changedCount, 'item')} will be ${kind === 'show' ? 'shown in' : 'hidden from'} the store` +
+          (changedCount < products.length
+            ? `; ${products.length - changedCount} already ${kind === 'show' ? 'visible' : 'hidden'}.`
+            : '.')
+        : kind === 'price'
+          ? parsedAmount === null
+            ? `Prices of ${pluralize(priceRows.length, 'variant')} across ${pluralize(products.length, 'item')} will change. Per-kg rates change the same way.`
+            : `${pluralize(changedCount, 'variant price')} will change.`
+          : `${pluralize(products.length, 'item')} with ${pluralize(variantCount, 'variant')}` +
+            (imageCount > 0 ? ` and ${pluralize(imageCount, 'photo')}` : '') +
+            ' will be permanently deleted. This action cannot be undone.';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{TITLES[kind]}</DialogTitle>
+          <DialogDescription>{pluralize(products.length, 'item')} selected</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          {kind === 'category' && (
+            <div className="grid gap-2">
+              <Label htmlFor="bulk-category">Category</Label>
+              <Select value={category} onValueChange={setCategory} disabled={saving}>
+                <SelectTrigger id="bulk-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                  {(categories ?? []).map((option) => (
+                    <SelectItem key={option.id} value={option.name}>
+                      {toTitleCase(option.name)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {kind === 'price' && (
+            <>
+              <Tabs value={priceMode} onValueChange={(value) => setPriceMode(value as PriceChangeMode)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  {(Object.keys(PRICE_CHANGE_MODE_LABELS) as PriceChangeMode[]).map((value) => (
+                    <TabsTrigger key={value} value={value} disabled={saving}>
+                      {PRICE_CHANGE_MODE_LABELS[value]}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <div className="grid gap-2">
+                <Label htmlFor="bulk-price-amount">
+                  {priceMode === 'percent' ? 'Change (%)' : 'Change (₹)'}
+                </Label>
+                <Input
+                  id="bulk-price-amount"
+                  type="number"
+                  step={priceMode === 'percent' ? 0.01 : 1}
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleSubmit();
+                    }
+                  }}
+                  placeholder={priceMode === 'percent' ? 'e.g. 10 to raise, -5 to cut' : 'e.g. 20 to raise, -10 to cut'}
+                  disabled={saving}
+                  autoFocus
+                />
+                {amountError && <p className="text-sm font-medium text-destructive">{amountError}</p>}
+              </div>
+            </>
+          )}
+
+          <p className={`text-sm ${kind === 'delete' ? 'text-destructive' : 'text-muted-foreground'}`}>{summary}</p>
+
+          <div className="max-h-[40vh] overflow-auto rounded-md border border-border">
+            {kind === 'price' ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">New</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {priceRows.map(({ product, variant, next }) => {
+                    const suffix = isSoldByWeight(variant) ? '/kg' : '';
+
+                    return (
+                      <TableRow key={variant.id}>
+                        <TableCell>
+                          <div className="font-medium">{product.name}</div>
+                          <div className="text-xs text-muted-foreground">{variant.variant_value}</div>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(variant.price)}
+                          {suffix}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${
+                            next === null || next === variant.price
+                              ? 'text-muted-foreground'
+                              : next < 0
+                                ? 'font-medium text-destructive'
+                                : 'font-medium'
+                          }`}
+                        >
+                          {next === null ? '—' : `${formatCurrency(next)}${suffix}`}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <ul className="divide-y divide-border text-sm">
+                {products.map((product) => (
+                  <li key={product.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <span className="font-medium">{product.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {kind === 'category'
+                        ? product.category
+                          ? toTitleCase(product.category)
+                          : 'No category'
+                        : kind === 'delete'
+                          ? pluralize(product.variants.length, 'variant')
+                          : product.is_visible
+                            ? 'Visible'
+                            : 'Hidden'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={kind === 'delete' ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={saving || !canSubmit}
+          >
+            {saving ? 'Saving...' : SUBMIT_LABELS[kind]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
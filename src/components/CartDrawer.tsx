@@ -0,0 +1,164 @@
+import { useNavigate } from 'react-router-dom';
+import { useCart } from '@/contexts/CartContext';
+import { formatWeight } from '@/lib/pricing';
+import { formatCurrency } from '@/lib/catalog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Minus, Package, Plus, ShoppingCart, Trash2 } from 'lucide-react';
+
+export default function CartDrawer() {
+  const {
+    items,
+    itemCount,
+    subtotal,
+    isOpen,
+    setOpen,
+    updateQuantity,
+    removeItem,
+    clearCart,
+    getMaxQuantity,
+  } = useCart();
+  const navigate = useNavigate();
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative rounded-xl border-border/60 hover:border-primary/40 hover:bg-primary/5 transition-all duration-300 hover:shadow-md hover:scale-105"
+        >
+          <ShoppingCart className="h-5 w-5" />
+          {itemCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center shadow-md">
+              {itemCount}
+            </span>
+          )}
+          <span className="sr-only">Open cart</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="flex h-full w-full flex-col gap-0 p-0 sm:max-w-md">
+        <SheetHeader className="border-b border-border/60 p-6 pb-4">
+          <SheetTitle className="flex items-center gap-2 text-xl font-bold">
+            <ShoppingCart className="h-5 w-5 text-primary" />
+            Your Cart
+          </SheetTitle>
+          <SheetDescription>
+            {itemCount === 0
+              ? 'Your cart is empty.'
+              : `${itemCount} item${itemCount !== 1 ? 's' : ''} in your cart`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {items.length === 0 ? (
+            <div className="flex h-full flex-col items-center justify-center text-center text-muted-foreground">
+              <Package className="mb-4 h-12 w-12 text-primary/50" />
+              <p className="text-sm">Browse our products and add your favourites here.</p>
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {items.map((item) => {
+                const maxQuantity = getMaxQuantity(item.lineId);
+
+                return (
+                  <li
+                    key={item.lineId}
+                    className="flex gap-3 rounded-[var(--radius)] border border-border/60 bg-card/50 p-3"
+                  >
+                    <div className="h-16 w-16 shrink-0 overflow-hidden rounded-md bg-muted flex items-center justify-center">
+                      {item.imageUrl ? (
+                        <img src={item.imageUrl} alt={item.productName} className="h-full w-full object-cover" />
+                      ) : (
+                        <Package className="h-6 w-6 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex flex-1 flex-col gap-2 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">{item.productName}</p>
+                          <Badge variant="outline" className="mt-1 text-xs">
+                            {item.weightGrams ? formatWeight(item.weightGrams) : item.variantValue}
+                          </Badge>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                          onClick={() => removeItem(item.lineId)}
+                          aria-label={`Remove ${item.productName} from cart`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => updateQuantity(item.lineId, item.quantity - 1)}
+                            aria-label="Decrease quantity"
+                          >
+                            <Minus className="h-3.5 w-3.5" />
+                          </Button>
+                          <span className="w-8 text-center text-sm font-semibold">{item.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => updateQuantity(item.lineId, item.quantity + 1)}
+                            disabled={item.quantity >= maxQuantity}
+                            aria-label="Increase quantity"
+                          >
+                            <Plus className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-semibold">{formatCurrency(item.unitPrice * item.quantity)}</p>
+                          <p className="text-xs text-muted-foreground">{formatCurrency(item.unitPrice)} each</p>
+                        </div>
+                      </div>
+                      {item.quantity >= maxQuantity && (
+                        <p className="text-xs text-muted-foreground">Only {maxQuantity} available</p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="space-y-3 border-t border-border/60 bg-muted/20 p-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-muted-foreground">Subtotal</span>
+              <span className="text-xl font-bold">{formatCurrency(subtotal)}</span>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => {
+                setOpen(false);
+                navigate('/checkout');
+              }}
+            >
+              Checkout
+            </Button>
+            <Button variant="outline" className="w-full" onClick={clearCart}>
+              Clear Cart
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
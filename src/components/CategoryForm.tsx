@@ -1,8 +1,6 @@
-import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -22,6 +20,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useCreateCategory } from '@/hooks/use-categories';
 
 const categorySchema = z.object({
   name: z.string().min(1, 'Category name is required').max(100, 'Category name must be less than 100 characters'),
@@ -33,7 +32,7 @@ type CategoryFormData = z.infer<typeof categorySchema>;
 interface CategoryFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSuccess: () => void;
+  onSuccess?: () => void;
 }
 
 export default function CategoryForm({
@@ -41,8 +40,9 @@ export default function CategoryForm({
   onOpenChange,
   onSuccess,
 }: CategoryFormProps) {
-  const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const createCategory = useCreateCategory();
+  const loading = createCategory.isPending;
 
   const form = useForm<CategoryFormData>({
     resolver: zodResolver(categorySchema),
@@ -52,37 +52,26 @@ export default function CategoryForm({
     },
   });
 
-  const onSubmit = async (data: CategoryFormData) => {
-    try {
-      setLoading(true);
+  const onSubmit = (data: CategoryFormData) => {
+    createCategory.mutate(data, {
+      onSuccess: () => {
+        toast({
+          title: 'Success',
+          description: 'Category created successfully',
+        });
 
-      // Convert category name to lowercase
-      const categoryData = {
-        name: data.name.toLowerCase(),
-        description: data.description,
-      };
-
-      const { error } = await supabase.from('category').insert([categoryData]);
-
-      if (error) throw error;
-
-      toast({
-        title: 'Success',
-        description: 'Category created successfully',
-      });
-
-      form.reset();
-      onSuccess();
-      onOpenChange(false);
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to create category',
-      });
-    } finally {
-      setLoading(false);
-    }
+        form.reset();
+        onSuccess?.();
+        onOpenChange(false);
+      },
+      onError: (error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to create category',
+        });
+      },
+    });
   };
 
   return (
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase, ExpiringBatch } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { describeExpiry, formatStockQuantity } from '@/lib/stock';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const WINDOW_OPTIONS = [3, 7, 14, 30];
+
+export default function ExpiringBatches() {
+  const [batches, setBatches] = useState<ExpiringBatch[]>([]);
+  const [windowDays, setWindowDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchBatches = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('expiring_batches')
+          .select('*')
+          .lte('days_left', windowDays)
+          .order('best_before', { ascending: true });
+
+        if (error) throw error;
+
+        setBatches((data ?? []) as ExpiringBatch[]);
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to load expiring batches',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBatches();
+
+    // Batches change whenever variant stock moves (FEFO), so follow the variants table
+    const batchesChannel = supabase
+      .channel('expiring_batches_admin')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_variants' },
+        () => {
+          fetchBatches();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      batchesChannel.unsubscribe();
+    };
+  }, [windowDays, toast]);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Expiring Soon</CardTitle>
+            <CardDescription>Batches on the shelf that reach their best-before date soon</CardDescription>
+          </div>
+          <Select value={windowDays.toString()} onValueChange={(value) => setWindowDays(Number(value))}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map((days) => (
+                <SelectItem key={days} value={days.toString()}>
+                  Next {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading batches...</div>
+        ) : batches.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Nothing expires in the next {windowDays} days</div>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead className="text-center">Made on</TableHead>
+                  <TableHead className="text-center">Best before</TableHead>
+                  <TableHead className="text-center">Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell>
+                      <div className="font-medium">{batch.product_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {batch.variant_value} • {batch.sku}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-xs bg-muted px-2 py-1 rounded">{batch.batch_code}</code>
+                    </TableCell>
+                    <TableCell className="text-center text-sm">{format(parseISO(batch.manufactured_on), 'd MMM')}</TableCell>
+                    <TableCell className="text-center">
+                      <div className="text-sm">{format(parseISO(batch.best_before), 'd MMM yyyy')}</div>
+                      <Badge variant={batch.days_left < 0 ? 'destructive' : batch.days_left <= 1 ? 'default' : 'outline'}>
+                        {describeExpiry(batch.days_left)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-center font-medium">{formatStockQuantity(batch.quantity, batch.stock_unit)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,21 @@
 // import React from 'react';
+import { useStoreProfile } from '@/hooks/use-store-profile';
 
 export default function Footer() {
   const year = new Date().getFullYear();
+  const { profile, hoursSummary } = useStoreProfile();
 
   return (
-    <footer className="border-t border-border/60 bg-background">
-      <div className="container mx-auto px-4 py-2 text-center">
-        <p className="text-sm text-muted-foreground">© {year} Shreeji Foods. All rights reserved.</p>
+    <footer className="border-t border-border/60 bg-background print:hidden">
+      <div className="container mx-auto px-4 py-2 text-center space-y-0.5">
+        {profile.tagline && <p className="text-xs text-muted-foreground">{profile.tagline}</p>}
+        {hoursSummary.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {hoursSummary.map((entry) => `${entry.label}: ${entry.value}`).join(' • ')}
+            {profile.phone && ` • ${profile.phone}`}
+          </p>
+        )}
+        <p className="text-sm text-muted-foreground">© {year} {profile.name}. All rights reserved.</p>
       </div>
     </footer>
   );
@@ -3,6 +3,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import ThemeToggle from "@/components/ui/theme-toggle";
+import CartDrawer from "@/components/CartDrawer";
 import {
   Sheet,
   SheetClose,
@@ -11,7 +12,7 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
-import { Package, LogOut, Menu, Home, Info, LayoutDashboard, ShoppingBag } from "lucide-react";
+import { Package, LogOut, Menu, Home, Info, LayoutDashboard, ShoppingBag, ClipboardList, Settings, Truck, IndianRupee, Tag } from "lucide-react";
 
 interface HeaderProps {
   title?: string;
@@ -29,6 +30,12 @@ export default function Header({
   const isProductsPage = location.pathname === "/products";
   const isAdminPage = location.pathname === "/admin";
   const isAboutPage = location.pathname === "/about";
+  const isOrdersPage = location.pathname === "/admin/orders";
+  const isSettingsPage = location.pathname === "/admin/settings";
+  const isPurchasingPage = location.pathname.startsWith("/admin/purchasing");
+  const isValuationPage = location.pathname === "/admin/valuation";
+  const isPriceListsPage = location.pathname === "/admin/price-lists";
+  const isAdminArea = location.pathname.startsWith("/admin");
 
   return (
     <header className="sticky top-0 z-50 border-b border-border/60 bg-gradient-to-r from-card/95 via-card/90 to-card/95 backdrop-blur-xl supports-[backdrop-filter]:bg-card/50 dark:from-black/90 dark:via-black/85 dark:to-black/90 shadow-sm">
@@ -59,6 +66,7 @@ export default function Header({
         </div>
         <div className="flex items-center gap-3">
           <ThemeToggle />
+          {!isAdminArea && <CartDrawer />}
           <Sheet>
             <SheetTrigger asChild>
               <Button 
@@ -151,6 +159,76 @@ export default function Header({
                     </Button>
                   </SheetClose>
                 )}
+                {profile?.isAdmin && (
+                  <SheetClose asChild>
+                    <Button
+                      variant="ghost"
+                      className={`justify-start h-12 rounded-xl hover:bg-primary/10 transition-all duration-200 ${
+                        isOrdersPage ? 'bg-primary/5 text-primary shadow-sm' : ''
+                      }`}
+                      onClick={() => navigate("/admin/orders")}
+                    >
+                      <ClipboardList className="w-5 h-5 mr-3" />
+                      <span className="font-medium">Orders</span>
+                    </Button>
+                  </SheetClose>
+                )}
+                {profile?.isAdmin && (
+                  <SheetClose asChild>
+                    <Button
+                      variant="ghost"
+                      className={`justify-start h-12 rounded-xl hover:bg-primary/10 transition-all duration-200 ${
+                        isPurchasingPage ? 'bg-primary/5 text-primary shadow-sm' : ''
+                      }`}
+                      onClick={() => navigate("/admin/purchasing")}
+                    >
+                      <Truck className="w-5 h-5 mr-3" />
+                      <span className="font-medium">Purchasing</span>
+                    </Button>
+                  </SheetClose>
+                )}
+                {profile?.isAdmin && (
+                  <SheetClose asChild>
+                    <Button
+                      variant="ghost"
+                      className={`justify-start h-12 rounded-xl hover:bg-primary/10 transition-all duration-200 ${
+                        isValuationPage ? 'bg-primary/5 text-primary shadow-sm' : ''
+                      }`}
+                      onClick={() => navigate("/admin/valuation")}
+                    >
+                      <IndianRupee className="w-5 h-5 mr-3" />
+                      <span className="font-medium">Valuation</span>
+                    </Button>
+                  </SheetClose>
+                )}
+                {profile?.isAdmin && (
+                  <SheetClose asChild>
+                    <Button
+                      variant="ghost"
+                      className={`justify-start h-12 rounded-xl hover:bg-primary/10 transition-all duration-200 ${
+                        isPriceListsPage ? 'bg-primary/5 text-primary shadow-sm' : ''
+                      }`}
+                      onClick={() => navigate("/admin/price-lists")}
+                    >
+                      <Tag className="w-5 h-5 mr-3" />
+                      <span className="font-medium">Price Lists</span>
+                    </Button>
+                  </SheetClose>
+                )}
+                {profile?.isAdmin && (
+                  <SheetClose asChild>
+                    <Button
+                      variant="ghost"
+                      className={`justify-start h-12 rounded-xl hover:bg-primary/10 transition-all duration-200 ${
+                        isSettingsPage ? 'bg-primary/5 text-primary shadow-sm' : ''
+                      }`}
+                      onClick={() => navigate("/admin/settings")}
+                    >
+                      <Settings className="w-5 h-5 mr-3" />
+                      <span className="font-medium">Store Settings</span>
+                    </Button>
+                  </SheetClose>
+                )}
               </nav>
 
               <div className="mt-auto border-t border-border/60 bg-gradient-to-b from-transparent to-muted/20 p-4">
@@ -183,13 +261,13 @@ export default function Header({
             !isLandingPage &&
             !isProductsPage &&
             !isAboutPage &&
-            !isAdminPage && (
+            !isAdminArea && (
               <Button onClick={() => navigate("/admin")}>
                 Admin Dashboard
               </Button>
             )}
           {profile
-            ? !isLandingPage && !isProductsPage && !isAboutPage && !isAdminPage && (
+            ? !isLandingPage && !isProductsPage && !isAboutPage && !isAdminArea && (
                 <Button variant="destructive" onClick={signOut}>
                   <LogOut className="w-4 h-4 mr-2" />
                   Sign Out
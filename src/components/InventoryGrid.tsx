@@ -0,0 +1,404 @@
+import { KeyboardEvent, useMemo, useRef, useState } from 'react';
+import { Product, ProductVariant } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { VariantEdit, VariantEditField, useSaveVariantEdits } from '@/hooks/use-products';
+import { isWholeStockUnit } from '@/lib/stock';
+import { isSoldByWeight } from '@/lib/pricing';
+import { sortVariants } from '@/lib/catalog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Save } from 'lucide-react';
+
+type GridField = VariantEditField;
+
+const GRID_FIELDS: GridField[] = ['price', 'quantity'];
+
+type CellEdits = Partial<Record<GridField, string>> & {
+  // Stock when the quantity was first edited; live updates don't move it, so a sale
+  // in between is caught on save instead of being written over
+  originalQuantity?: number;
+};
+
+// The row without one cell's edit, or undefined when nothing is left to save
+const clearCell = (row: CellEdits, field: GridField): CellEdits | undefined => {
+  const rest = { ...row };
+  delete rest[field];
+  if (field === 'quantity') delete rest.originalQuantity;
+  return GRID_FIELDS.some((other) => rest[other] !== undefined) ? rest : undefined;
+};
+
+const cellPattern = (field: GridField, variant: ProductVariant) =>
+  field === 'price' || isWholeStockUnit(variant.stock_unit) ? /^\d+$/ : /^\d+(\.\d{1,3})?$/;
+
+// What the cell shows, and whether it differs from the value it was edited from or can't be saved at all
+const readCell = (edits: Record<string, CellEdits>, variant: ProductVariant, field: GridField) => {
+  const edit = edits[variant.id]?.[field];
+  if (edit === undefined) {
+    return { value: String(variant[field]), parsed: variant[field], dirty: false, invalid: false };
+  }
+
+  const original = field === 'quantity' ? edits[variant.id]?.originalQuantity ?? variant.quantity : variant.price;
+  const parsed = cellPattern(field, variant).test(edit.trim()) ? Number(edit.trim()) : null;
+  return { value: edit, parsed, dirty: parsed !== original, invalid: parsed === null };
+};
+
+const cellError = (field: GridField, variant: ProductVariant) =>
+  field === 'price'
+    ? 'Enter a whole rupee price of 0 or more'
+    : isWholeStockUnit(variant.stock_unit)
+      ? `Enter a whole number of ${variant.stock_unit}s`
+      : 'Enter a weight in kg (up to 3 decimals)';
+
+interface InventoryGridProps {
+  // Rows shown, usually the search results
+  products: Product[];
+  // Whole catalog, so edits to rows hidden by a later search are still saved
+  catalog: Product[];
+  onClose: () => void;
+}
+
+// Spreadsheet-style price and stock editing. Edits stay local until "Save changes".
+export default function InventoryGrid({ products, catalog, onClose }: InventoryGridProps) {
+  const [edits, setEdits] = useState<Record<string, CellEdits>>({});
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [discardOpen, setDiscardOpen] = useState(false);
+  const cellRefs = useRef(new Map<string, HTMLInputElement>());
+  const { toast } = useToast();
+  const saveVariantEdits = useSaveVariantEdits();
+  const saving = saveVariantEdits.isPending;
+
+  const rows = useMemo(
+    () =>
+      products.flatMap((product) =>
+        sortVariants(product.variants).map((variant, index) => ({ product, variant, isFirst: index === 0 }))
+      ),
+    [products]
+  );
+
+  const getCell = (variant: ProductVariant, field: GridField) => readCell(edits, variant, field);
+
+  const { changes, invalidCount } = useMemo(() => {
+    const result: { changes: VariantEdit[]; invalidCount: number } = { changes: [], invalidCount: 0 };
+
+    catalog.flatMap((product) => product.variants).forEach((variant) => {
+      if (!edits[variant.id]) return;
+
+      const change: VariantEdit = { variant, expectedQuantity: edits[variant.id].originalQuantity };
+      let dirty = false;
+
+      GRID_FIELDS.forEach((field) => {
+        const cell = readCell(edits, variant, field);
+        if (cell.invalid) {
+          result.invalidCount += 1;
+        } else if (cell.dirty && cell.parsed !== null) {
+          change[field] = cell.parsed;
+          dirty = true;
+        }
+      });
+
+      if (dirty) result.changes.push(change);
+    });
+
+    return result;
+  }, [catalog, edits]);
+
+  const hasEdits = changes.length > 0 || invalidCount > 0;
+
+  const setCell = (variant: ProductVariant, field: GridField, value: string | undefined) => {
+    setEdits((prev) => {
+      const next = { ...prev };
+      const row = prev[variant.id] ?? {};
+
+      if (value !== undefined) {
+        next[variant.id] = {
+          ...row,
+          [field]: value,
+          ...(field === 'quantity' && { originalQuantity: row.originalQuantity ?? variant.quantity }),
+        };
+      } else {
+        const rest = clearCell(row, field);
+        if (rest) next[variant.id] = rest;
+        else delete next[variant.id];
+      }
+      return next;
+    });
+  };
+
+  const focusCell = (rowIndex: number, fieldIndex: number) => {
+    const input = cellRefs.current.get(`${rowIndex}:${fieldIndex}`);
+    if (!input) return;
+
+    input.focus();
+    input.select();
+  };
+
+  // Enter and the arrow keys move like a spreadsheet; Tab keeps its native order
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLInputElement>,
+    rowIndex: number,
+    fieldIndex: number,
+    variant: ProductVariant
+  ) => {
+    const input = event.currentTarget;
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+
+    switch (event.key) {
+      case 'Enter':
+        event.preventDefault();
+        focusCell(rowIndex + (event.shiftKey ? -1 : 1), fieldIndex);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        focusCell(rowIndex + 1, fieldIndex);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        focusCell(rowIndex - 1, fieldIndex);
+        break;
+      case 'ArrowLeft':
+        if (atStart && fieldIndex > 0) {
+          event.preventDefault();
+          focusCell(rowIndex, fieldIndex - 1);
+        }
+        break;
+      case 'ArrowRight':
+        if (atEnd && fieldIndex < GRID_FIELDS.length - 1) {
+          event.preventDefault();
+          focusCell(rowIndex, fieldIndex + 1);
+        }
+        break;
+      case 'Escape':
+        // Revert the cell instead of closing anything
+        event.preventDefault();
+        setCell(variant, GRID_FIELDS[fieldIndex], undefined);
+        break;
+    }
+  };
+
+  const handleSave = () => {
+    if (changes.length === 0 || invalidCount > 0) return;
+
+    saveVariantEdits.mutate(changes, {
+      onSuccess: ({ saved, failed }) => {
+        // Saved cells are cleared, and a refused quantity shows the stock as it is now
+        // so the count is re-entered against it
+        const cleared = [...saved, ...failed.filter((failure) => failure.stockMoved)];
+        setEdits((prev) => {
+          const next = { ...prev };
+          cleared.forEach(({ variantId, field }) => {
+            const rest = next[variantId] && clearCell(next[variantId], field);
+            if (rest) next[variantId] = rest;
+            else delete next[variantId];
+          });
+          return next;
+        });
+
+        const errors: Record<string, string> = {};
+        failed.forEach((failure) => {
+          const message = `${failure.field === 'price' ? 'Price' : 'Quantity'} not saved: ${
+            failure.stockMoved ? `${failure.message}. Check the stock and enter it again.` : failure.message
+          }`;
+          errors[failure.variantId] = errors[failure.variantId] ? `${errors[failure.variantId]} ${message}` : message;
+        });
+        setRowErrors(errors);
+
+        const failedRows = Object.keys(errors).length;
+        if (failedRows > 0) {
+          toast({
+            variant: 'destructive',
+            title: 'Some rows were not saved',
+            description: `Saved ${changes.length - failedRows} of ${changes.length} rows. Check the highlighted rows and try again.`,
+          });
+        } else {
+          toast({
+            title: 'Changes saved',
+            description: `Updated ${changes.length} ${changes.length === 1 ? 'variant' : 'variants'}.`,
+          });
+        }
+      },
+      onError: (error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to save changes',
+        });
+      },
+    });
+  };
+
+  const handleDiscard = () => {
+    setEdits({});
+    setRowErrors({});
+  };
+
+  const handleClose = () => {
+    if (hasEdits) {
+      setDiscardOpen(true);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border border-border bg-muted/40 px-3 py-2">
+        <p className="mr-auto text-sm text-muted-foreground">
+          Tab, Enter and the arrow keys move between cells. Esc reverts a cell.
+        </p>
+        {hasEdits && (
+          <Badge variant="outline" className="border-amber-500 text-amber-600">
+            {changes.length} {changes.length === 1 ? 'row' : 'rows'} changed
+            {invalidCount > 0 && ` • ${invalidCount} invalid`}
+          </Badge>
+        )}
+        <Button variant="outline" size="sm" onClick={handleDiscard} disabled={!hasEdits || saving}>
+          Discard
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={changes.length === 0 || invalidCount > 0 || saving}>
+          <Save className="mr-2 h-4 w-4" />
+          {saving ? 'Saving...' : 'Save changes'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleClose} disabled={saving}>
+          Done
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Variant</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead className="w-36 text-right">Price (₹)</TableHead>
+              <TableHead className="w-36 text-right">Quantity</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="py-6 text-center text-sm text-muted-foreground">
+                  No items match your search
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map(({ product, variant, isFirst }, rowIndex) => {
+              const rowError = rowErrors[variant.id];
+
+              return (
+                <TableRow key={variant.id} className={rowError ? 'bg-destructive/5' : undefined}>
+                  <TableCell className="font-medium">{isFirst ? product.name : ''}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{variant.variant_value}</TableCell>
+                  <TableCell>
+                    <code className="text-xs bg-muted px-2 py-1 rounded">{variant.sku}</code>
+                  </TableCell>
+                  {GRID_FIELDS.map((field, fieldIndex) => {
+                    const cell = getCell(variant, field);
+                    const unitLabel =
+                      field === 'price'
+                        ? isSoldByWeight(variant)
+                          ? '/kg'
+                          : ''
+                        : variant.stock_unit === 'kg'
+                          ? 'kg'
+                          : `${variant.stock_unit}s`;
+
+                    return (
+                      <TableCell key={field} className="py-1.5">
+                        <div className="flex items-center justify-end gap-1.5">
+                          <Input
+                            ref={(input) => {
+                              if (input) {
+                                cellRefs.current.set(`${rowIndex}:${fieldIndex}`, input);
+                              } else {
+                                cellRefs.current.delete(`${rowIndex}:${fieldIndex}`);
+                              }
+                            }}
+                            type="text"
+                            inputMode={field === 'quantity' && !isWholeStockUnit(variant.stock_unit) ? 'decimal' : 'numeric'}
+                            value={cell.value}
+                            onChange={(e) => setCell(variant, field, e.target.value)}
+                            onFocus={(e) => e.target.select()}
+                            onKeyDown={(e) => handleKeyDown(e, rowIndex, fieldIndex, variant)}
+                            aria-label={`${field === 'price' ? 'Price' : 'Quantity'} of ${product.name} (${variant.variant_value})`}
+                            aria-invalid={cell.invalid}
+                            title={cell.invalid ? cellError(field, variant) : undefined}
+                            readOnly={saving}
+                            className={`h-8 w-24 text-right tabular-nums ${
+                              cell.invalid
+                                ? 'border-destructive focus-visible:ring-destructive'
+                                : cell.dirty
+                                  ? 'border-amber-500 bg-amber-50 dark:bg-amber-950/40'
+                                  : ''
+                            }`}
+                          />
+                          <span className="w-10 text-xs text-muted-foreground">{unitLabel}</span>
+                        </div>
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-xs">
+                    {rowError ? (
+                      <span className="text-destructive">{rowError}</span>
+                    ) : GRID_FIELDS.some((field) => getCell(variant, field).invalid) ? (
+                      <span className="text-destructive">
+                        {GRID_FIELDS.filter((field) => getCell(variant, field).invalid)
+                          .map((field) => cellError(field, variant))
+                          .join('. ')}
+                      </span>
+                    ) : GRID_FIELDS.some((field) => getCell(variant, field).dirty) ? (
+                      <span className="text-amber-600">Unsaved</span>
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={discardOpen} onOpenChange={setDiscardOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {changes.length} {changes.length === 1 ? 'row has' : 'rows have'} edits that have not been saved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                handleDiscard();
+                onClose();
+              }}
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,357 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PriceList, Product } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { usePriceLists, useSavePriceList } from '@/hooks/use-price-lists';
+import { adjustPrice, isSoldByWeight } from '@/lib/pricing';
+import { formatCurrency, sortVariants } from '@/lib/catalog';
+import { fromStoreDateTimeInput, toStoreDateTimeInput } from '@/lib/price-lists';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Search } from 'lucide-react';
+
+const PRICE_PATTERN = /^\d+$/;
+const PERCENT_PATTERN = /^-?\d+(\.\d{1,2})?$/;
+
+interface PriceListFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  priceList?: PriceList | null;
+  products: Product[];
+  onSuccess?: () => void;
+}
+
+export default function PriceListForm({
+  open,
+  onOpenChange,
+  priceList,
+  products,
+  onSuccess,
+}: PriceListFormProps) {
+  const [name, setName] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [percent, setPercent] = useState('');
+  const { toast } = useToast();
+  const { data: priceLists } = usePriceLists();
+  const savePriceList = useSavePriceList();
+  const saving = savePriceList.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(priceList?.name ?? '');
+    setStartsAt(priceList ? toStoreDateTimeInput(priceList.starts_at) : '');
+    setEndsAt(priceList ? toStoreDateTimeInput(priceList.ends_at) : '');
+    setPrices(
+      Object.fromEntries(
+        (priceList?.price_list_items ?? []).map((item) => [item.variant_id, item.price.toString()])
+      )
+    );
+    setSearchTerm('');
+    setPercent('');
+  }, [open, priceList]);
+
+  // While a list is live the catalog holds its prices, so read the regular ones off its items
+  const regularPrices = useMemo(() => {
+    const liveList = (priceLists ?? []).find((list) => list.is_applied);
+    return new Map(
+      (liveList?.price_list_items ?? [])
+        .filter((item) => item.regular_price !== null)
+        .map((item) => [item.variant_id, item.regular_price as number])
+    );
+  }, [priceLists]);
+
+  const rows = useMemo(
+    () =>
+      [...products]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .flatMap((product) =>
+          sortVariants(product.variants).map((variant) => ({
+            product,
+            variant,
+            regularPrice: regularPrices.get(variant.id) ?? variant.price,
+          }))
+        ),
+    [products, regularPrices]
+  );
+
+  const search = searchTerm.trim().toLowerCase();
+  const shownRows = search
+    ? rows.filter(
+      ({ product, variant }) =>
+        product.name.toLowerCase().includes(search) ||
+          (product.category ?? '').toLowerCase().includes(search) ||
+          variant.variant_value.toLowerCase().includes(search) ||
+          variant.sku.toLowerCase().includes(search)
+    )
+    : rows;
+
+  const filledRows = rows.filter((row) => (prices[row.variant.id] ?? '').trim() !== '');
+  const invalidRow = filledRows.find((row) => !PRICE_PATTERN.test(prices[row.variant.id].trim()));
+  const parsedPercent = PERCENT_PATTERN.test(percent.trim()) ? Number(percent.trim()) : null;
+
+  const setPrice = (variantId: string, value: string) => {
+    setPrices((prev) => ({ ...prev, [variantId]: value }));
+  };
+
+  // Fill the shown rows from their regular price, e.g. -10 for a 10% festival discount
+  const handleFill = () => {
+    if (parsedPercent === null) return;
+
+    setPrices((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        shownRows.map(({ variant, regularPrice }) => [
+          variant.id,
+          Math.max(0, adjustPrice(regularPrice, 'percent', parsedPercent)).toString(),
+        ])
+      ),
+    }));
+  };
+
+  const handleClearShown = () => {
+    setPrices((prev) => {
+      const next = { ...prev };
+      shownRows.forEach(({ variant }) => delete next[variant.id]);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !startsAt || !endsAt) {
+      toast({ variant: 'destructive', title: 'Missing details', description: 'Enter a name, a start and an end.' });
+      return;
+    }
+
+    if (endsAt <= startsAt) {
+      toast({ variant: 'destructive', title: 'Check the dates', description: 'The price list must end after it starts.' });
+      return;
+    }
+
+    if (filledRows.length === 0 || invalidRow) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the prices',
+        description: invalidRow
+          ? `Enter a whole rupee price for ${invalidRow.product.name} (${invalidRow.variant.variant_value}).`
+          : 'Enter a festival price for at least one item.',
+      });
+      return;
+    }
+
+    savePriceList.mutate(
+      {
+        id: priceList?.id ?? null,
+        name: name.trim(),
+        startsAt: fromStoreDateTimeInput(startsAt),
+        endsAt: fromStoreDateTimeInput(endsAt),
+        prices: filledRows.map((row) => ({
+          variant_id: row.variant.id,
+          price: Number(prices[row.variant.id].trim()),
+        })),
+      },
+      {
+        onSuccess: (saved) => {
+          toast({
+            title: priceList ? 'Price list updated' : 'Price list created',
+            description: saved.is_applied
+              ? `${saved.name} prices are now live in the store.`
+              : `${saved.name} prices will switch on automatically when it starts.`,
+          });
+          onSuccess?.();
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          toast({
+            variant: 'destructive',
+            title: 'Error',
+            description: error.message || 'Failed to save price list',
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{priceList ? `Edit ${priceList.name}` : 'New Price List'}</DialogTitle>
+          <DialogDescription>
+            Festival prices replace the regular ones between the start and end (store time). Items left blank keep
+            their regular price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="grid gap-2">
+            <Label htmlFor="price-list-name">Name</Label>
+            <Input
+              id="price-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Diwali 2026"
+              disabled={saving}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="price-list-starts">Starts</Label>
+            <Input
+              id="price-list-starts"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="price-list-ends">Ends</Label>
+            <Input
+              id="price-list-ends"
+              type="datetime-local"
+              value={endsAt}
+              min={startsAt || undefined}
+              onChange={(e) => setEndsAt(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search items..."
+              className="pl-9"
+              aria-label="Search items"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              step={0.01}
+              inputMode="decimal"
+              value={percent}
+              onChange={(e) => setPercent(e.target.value)}
+              placeholder="% e.g. -10"
+              className="w-28"
+              aria-label="Change from regular price (%)"
+              disabled={saving}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleFill}
+              disabled={saving || parsedPercent === null || shownRows.length === 0}
+            >
+              Fill shown
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={handleClearShown}
+              disabled={saving || shownRows.length === 0}
+            >
+              Clear shown
+            </Button>
+          </div>
+        </div>
+
+        <div className="max-h-[45vh] overflow-auto rounded-md border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Regular</TableHead>
+                <TableHead className="w-36 text-right">Festival (₹)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shownRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="py-6 text-center text-sm text-muted-foreground">
+                    No items match your search
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shownRows.map(({ product, variant, regularPrice }) => {
+                  const value = prices[variant.id] ?? '';
+                  const invalid = value.trim() !== '' && !PRICE_PATTERN.test(value.trim());
+                  const suffix = isSoldByWeight(variant) ? '/kg' : '';
+
+                  return (
+                    <TableRow key={variant.id}>
+                      <TableCell>
+                        <div className="font-medium">{product.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {variant.variant_value} • {variant.sku}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums text-muted-foreground">
+                        {formatCurrency(regularPrice)}
+                        {suffix}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          inputMode="numeric"
+                          value={value}
+                          onChange={(e) => setPrice(variant.id, e.target.value)}
+                          placeholder="—"
+                          className={`h-8 text-right tabular-nums ${invalid ? 'border-destructive' : ''}`}
+                          aria-label={`Festival price for ${product.name} ${variant.variant_value}`}
+                          aria-invalid={invalid}
+                          disabled={saving}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {filledRows.length === 0
+            ? 'No festival prices yet.'
+            : `${filledRows.length} of ${rows.length} variant${rows.length === 1 ? '' : 's'} with a festival price.`}
+        </p>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Price List'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
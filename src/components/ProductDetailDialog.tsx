@@ -1,4 +1,15 @@
-import { Product, ProductVariant } from '@/lib/supabase';
+import { supabase, Product } from '@/lib/supabase';
+import { formatStockQuantity } from '@/lib/stock';
+import {
+  LOOSE_WEIGHT_PRESETS,
+  MIN_LOOSE_WEIGHT_GRAMS,
+  formatWeight,
+  isSoldByWeight,
+  parseLooseWeight,
+  priceForWeight,
+} from '@/lib/pricing';
+import { VARIANT_TYPE_LABELS, formatCurrency, formatTimestamp, sortVariants } from '@/lib/catalog';
+import { primaryProductImage, productImageSrcSet, productImageUrl } from '@/lib/product-images';
 import {
   Dialog,
   DialogContent,
@@ -13,90 +24,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Package } from 'lucide-react';
-import { format } from 'date-fns';
-import { useState } from 'react';
-
-const VARIANT_TYPE_LABELS: Record<ProductVariant['variant_type'], string> = {
-  weight: 'Weight',
-  pcs: 'Pieces',
-  price: 'Price',
-  flavor: 'Flavor',
-  size: 'Size',
-};
-
-const parseNumericValue = (value: string): number | null => {
-  const match = value.match(/[\d\.]+/);
-  if (!match) {
-    return null;
-  }
-
-  const numeric = Number.parseFloat(match[0]);
-  return Number.isNaN(numeric) ? null : numeric;
-};
-
-const parseWeightInGrams = (value: string): number | null => {
-  const lowerValue = value.toLowerCase();
-  const numMatch = lowerValue.match(/(\d+(?:\.\d+)?)/);
-
-  if (!numMatch) {
-    return null;
-  }
-
-  const num = Number.parseFloat(numMatch[1]);
-  if (Number.isNaN(num)) {
-    return null;
-  }
-
-  if (lowerValue.includes('kg')) {
-    return num * 1000;
-  } else if (lowerValue.includes('g') && !lowerValue.includes('kg')) {
-    return num;
-  } else if (lowerValue.includes('mg')) {
-    return num / 1000;
-  } else if (lowerValue.includes('lb') || lowerValue.includes('pound')) {
-    return num * 453.592;
-  } else if (lowerValue.includes('oz') || lowerValue.includes('ounce')) {
-    return num * 28.3495;
-  }
-
-  return num;
-};
-
-const sortVariants = (variants: ProductVariant[]) => {
-  return [...variants].sort((a, b) => {
-    const isWeightVariant = a.variant_type === 'weight' || b.variant_type === 'weight';
-
-    let aValue: number | null;
-    let bValue: number | null;
-
-    if (isWeightVariant) {
-      aValue = parseWeightInGrams(a.variant_value);
-      bValue = parseWeightInGrams(b.variant_value);
-    } else {
-      aValue = parseNumericValue(a.variant_value);
-      bValue = parseNumericValue(b.variant_value);
-    }
-
-    if (aValue !== null && bValue !== null && aValue !== bValue) {
-      return aValue - bValue;
-    }
-
-    if (aValue !== null && bValue === null) {
-      return -1;
-    }
-
-    if (aValue === null && bValue !== null) {
-      return 1;
-    }
-
-    if (aValue === null && bValue === null && a.price !== b.price) {
-      return a.price - b.price;
-    }
-
-    return a.variant_value.localeCompare(b.variant_value, undefined, { sensitivity: 'base' });
-  });
-};
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Minus, Package, Plus, ShoppingCart } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useEffect, useState } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import { useToast } from '@/hooks/use-toast';
 
 interface ProductDetailDialogProps {
   item: Product | null;
@@ -110,6 +44,51 @@ export default function ProductDetailDialog({
   onOpenChange,
 }: ProductDetailDialogProps) {
   const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
+  const [quantityToAdd, setQuantityToAdd] = useState(1);
+  const [weightInput, setWeightInput] = useState('');
+  const [madeOn, setMadeOn] = useState<Record<string, string>>({});
+  const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+  const { addItem, getQuantity, setOpen: setCartOpen } = useCart();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setQuantityToAdd(1);
+    setWeightInput('');
+  }, [selectedVariantId, item?.id]);
+
+  // Made-on date of the batch each variant sells from next (only batch-tracked items have one)
+  useEffect(() => {
+    if (!open || !item || item.variants.length === 0) {
+      setMadeOn({});
+      return;
+    }
+
+    let isMounted = true;
+
+    const fetchMadeOn = async () => {
+      const { data, error } = await supabase.rpc('get_variant_made_on', {
+        p_variant_ids: item.variants.map((variant) => variant.id),
+      });
+
+      if (error) {
+        console.error('Failed to load batch dates:', error);
+        return;
+      }
+      if (!isMounted) return;
+
+      const next: Record<string, string> = {};
+      ((data ?? []) as { variant_id: string; manufactured_on: string }[]).forEach((row) => {
+        next[row.variant_id] = row.manufactured_on;
+      });
+      setMadeOn(next);
+    };
+
+    fetchMadeOn();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, item]);
 
   if (!item) return null;
 
@@ -119,28 +98,51 @@ export default function ProductDetailDialog({
     ? sortedVariants.find((v) => v.id === selectedVariantId) || defaultVariant
     : defaultVariant;
 
+  // Ids are unique across products, so a stale pick from another product just falls back to the primary
+  const activeImage = item.images.find((image) => image.id === selectedImageId) ?? primaryProductImage(item);
+  const imageSrc = activeImage ? productImageUrl(activeImage, 'large') : item.image_url;
+
   const displayPrice = activeVariant?.price ?? null;
   const displayQuantity = activeVariant?.quantity ?? null;
   const displaySKU = activeVariant?.sku ?? null;
-
-  const formatCurrency = (value: number | null | undefined) =>
-    new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-    }).format(value ?? 0);
-
-  const formatTimestamp = (timestamp?: string | null) => {
-    if (!timestamp) {
-      return '—';
-    }
-
-    const utcDate = new Date(timestamp);
-    if (Number.isNaN(utcDate.getTime())) {
-      return '—';
+  const inCart = activeVariant ? getQuantity(activeVariant.id) : 0;
+  const madeOnDate = activeVariant ? madeOn[activeVariant.id] : undefined;
+  const remainingStock = activeVariant ? Math.max(activeVariant.quantity - inCart, 0) : 0;
+  const soldByWeight = activeVariant ? isSoldByWeight(activeVariant) : false;
+  const weightGrams = soldByWeight ? parseLooseWeight(weightInput) : null;
+  const unitPrice = activeVariant
+    ? soldByWeight
+      ? weightGrams ? priceForWeight(activeVariant.price, weightGrams) : null
+      : activeVariant.price
+    : null;
+  // Loose items are sold in units of the chosen weight out of the bulk stock
+  const remainingUnits = soldByWeight
+    ? weightGrams ? Math.floor(Math.round(remainingStock * 1000) / weightGrams) : 0
+    : Math.floor(remainingStock);
+
+  const handleAddToCart = () => {
+    if (!activeVariant || unitPrice === null) return;
+
+    const lineLabel = soldByWeight && weightGrams ? formatWeight(weightGrams) : activeVariant.variant_value;
+    const added = addItem(item, activeVariant, quantityToAdd, weightGrams);
+    if (added === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Not enough stock',
+        description: soldByWeight
+          ? `Not enough ${item.name} left for ${lineLabel}.`
+          : `All available units of ${item.name} (${lineLabel}) are already in your cart.`,
+      });
+      return;
     }
 
-    const istDate = new Date(utcDate.getTime() + 5.5 * 60 * 60 * 1000);
-    return format(istDate, 'MMM d, yyyy • h:mm a');
+    toast({
+      title: 'Added to cart',
+      description: `${added} × ${item.name} (${lineLabel})`,
+    });
+    setQuantityToAdd(1);
+    onOpenChange(false);
+    setCartOpen(true);
   };
 
   return (
@@ -157,9 +159,11 @@ export default function ProductDetailDialog({
           <div className="relative group">
             <div className="absolute -inset-1 bg-gradient-to-r from-primary/50 via-primary/30 to-primary/50 rounded-2xl blur-lg opacity-50 group-hover:opacity-75 transition duration-500"></div>
             <div className="relative aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-muted to-muted/50 flex items-center justify-center border border-primary/20 shadow-lg">
-              {item.image_url ? (
+              {imageSrc ? (
                 <img
-                  src={item.image_url}
+                  src={imageSrc}
+                  srcSet={activeImage ? productImageSrcSet(activeImage) : undefined}
+                  sizes="(min-width: 768px) 384px, 100vw"
                   alt={item.name}
                   className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
                 />
@@ -173,6 +177,22 @@ export default function ProductDetailDialog({
                 </div>
               )}
             </div>
+            {item.images.length > 1 && (
+              <div className="relative mt-3 flex gap-2 overflow-x-auto pb-1">
+                {item.images.map((image) => (
+                  <button
+                    key={image.id}
+                    type="button"
+                    onClick={() => setSelectedImageId(image.id)}
+                    aria-label={`Show image ${image.position + 1} of ${item.name}`}
+                    className={`h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border-2 transition-colors ${image.id === activeImage?.id ? 'border-primary' : 'border-transparent hover:border-primary/40'
+                      }`}
+                  >
+                    <img src={productImageUrl(image, 'thumb')} alt="" loading="lazy" className="h-full w-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Details Section */}
@@ -250,7 +270,7 @@ export default function ProductDetailDialog({
                   <div className="absolute -inset-2 bg-gradient-to-br from-primary/10 to-primary/5 rounded-xl opacity-0 group-hover/price:opacity-100 transition duration-300"></div>
                   <div className="relative p-4 rounded-xl border border-primary/20 bg-card/50 backdrop-blur-sm">
                     <h3 className="text-xs font-bold text-primary uppercase tracking-wider mb-2">
-                      Price
+                      {soldByWeight ? 'Price per kg' : 'Price'}
                     </h3>
                     <p className="text-3xl font-bold bg-gradient-to-br from-foreground to-foreground/70 bg-clip-text text-transparent">
                       {displayPrice !== null ? formatCurrency(displayPrice) : '—'}
@@ -276,14 +296,106 @@ export default function ProductDetailDialog({
                       {displayQuantity !== null
                         ? displayQuantity === 0
                           ? 'Out of Stock'
-                          : `${displayQuantity} in stock`
+                          : `${formatStockQuantity(displayQuantity, activeVariant?.stock_unit)} in stock`
                         : 'N/A'}
                     </Badge>
+                    {madeOnDate && displayQuantity !== 0 && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Made on {format(parseISO(madeOnDate), 'd MMM yyyy')}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* Weight for loose items */}
+            {activeVariant && soldByWeight && (
+              <div className="space-y-2">
+                <h3 className="text-xs font-bold text-primary uppercase tracking-wider flex items-center gap-2">
+                  <span className="w-1 h-4 bg-gradient-to-b from-primary to-primary/50 rounded-full"></span>
+                  Weight
+                </h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  {LOOSE_WEIGHT_PRESETS.map((preset) => (
+                    <Button
+                      key={preset}
+                      type="button"
+                      variant={weightGrams === preset ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setWeightInput(formatWeight(preset))}
+                    >
+                      {formatWeight(preset)}
+                    </Button>
+                  ))}
+                  <Input
+                    value={weightInput}
+                    onChange={(e) => setWeightInput(e.target.value)}
+                    placeholder="e.g. 750g or 1.5kg"
+                    aria-label="Weight"
+                    className="h-9 w-40"
+                  />
+                </div>
+                {weightInput.trim() !== '' && (
+                  <p className="text-xs text-muted-foreground">
+                    {weightGrams && unitPrice !== null
+                      ? `${formatWeight(weightGrams)} at ${formatCurrency(activeVariant.price)}/kg = ${formatCurrency(unitPrice)}`
+                      : `Enter at least ${formatWeight(MIN_LOOSE_WEIGHT_GRAMS)}, such as 750g or 1.5kg`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Add to Cart */}
+            {activeVariant && (
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-10 w-10 p-0"
+                    onClick={() => setQuantityToAdd((prev) => Math.max(prev - 1, 1))}
+                    disabled={quantityToAdd <= 1}
+                    aria-label="Decrease quantity"
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <span className="w-10 text-center text-base font-semibold">{quantityToAdd}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-10 w-10 p-0"
+                    onClick={() => setQuantityToAdd((prev) => Math.min(prev + 1, remainingUnits))}
+                    disabled={quantityToAdd >= remainingUnits}
+                    aria-label="Increase quantity"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button
+                  className="h-10 flex-1"
+                  onClick={handleAddToCart}
+                  disabled={remainingStock === 0 || (soldByWeight && remainingUnits === 0)}
+                >
+                  <ShoppingCart className="mr-2 h-4 w-4" />
+                  {activeVariant.quantity === 0
+                    ? 'Out of Stock'
+                    : remainingStock === 0
+                      ? 'All in Cart'
+                      : unitPrice === null
+                        ? 'Choose a Weight'
+                        : remainingUnits === 0
+                          ? 'Not Enough Stock'
+                          : `Add to Cart • ${formatCurrency(unitPrice * quantityToAdd)}`}
+                </Button>
+              </div>
+            )}
+            {inCart > 0 && (
+              <p className="text-xs text-muted-foreground -mt-3">
+                {formatStockQuantity(inCart, activeVariant?.stock_unit)} already in your cart
+              </p>
+            )}
+
             {/* Last Updated */}
             <div className="relative pt-4">
               <div className="absolute top-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-primary/20 to-transparent"></div>
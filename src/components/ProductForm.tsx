@@ -1,10 +1,16 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { ChevronDown, Plus, X } from 'lucide-react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { supabase, Product, ProductVariant } from '@/lib/supabase';
+import { supabase, Product } from '@/lib/supabase';
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types';
 import { useAuth } from '@/contexts/AuthContext';
+import { STOCK_UNITS, STOCK_UNIT_LABELS, stockQuantityStep } from '@/lib/stock';
+import { PRICING_MODES, PRICING_MODE_LABELS } from '@/lib/pricing';
+import { VARIANT_TYPE_LABELS, toTitleCase } from '@/lib/catalog';
+import { productSchema } from '@/lib/catalog-schemas';
+import { ProductImageDraft, primaryProductImage, saveProductImages } from '@/lib/product-images';
 import { Button } from '@/components/ui/button';
 import {
     Dialog,
@@ -23,8 +29,11 @@ import {
     FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { useInvalidateProducts } from '@/hooks/use-products';
+import { useCategories } from '@/hooks/use-categories';
 import { Switch } from '@/components/ui/switch';
 import {
     Select,
@@ -34,36 +43,7 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { Card } from '@/components/ui/card';
-
-const variantSchema = z.object({
-    variant_type: z.enum(['weight', 'pcs', 'price', 'flavor', 'size'], {
-        errorMap: () => ({ message: 'Please select a variant type' }),
-    }),
-    variant_value: z.string().min(1, 'Variant value is required'),
-    price: z.coerce.number().min(0, 'Price must be 0 or greater'),
-    quantity: z.coerce.number().min(0, 'Quantity must be 0 or greater'),
-});
-
-const productSchema = z.object({
-    name: z.string().min(1, 'Name is required'),
-    description: z
-        .string()
-        .max(1000, 'Description must be less than 1000 characters')
-        .optional()
-        .or(z.literal('')),
-    category: z
-        .string()
-        .max(120, 'Category name must be less than 120 characters')
-        .nullable()
-        .optional(),
-    is_visible: z.boolean().default(true),
-    image_url: z
-        .string()
-        .url('Please enter a valid URL')
-        .optional()
-        .or(z.literal('')),
-    variants: z.array(variantSchema).min(1, 'At least one variant is required'),
-});
+import ProductImagesField from '@/components/ProductImagesField';
 
 type ProductFormData = z.infer<typeof productSchema>;
 
@@ -71,17 +51,9 @@ interface ProductFormProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     item?: Product | null;
-    onSuccess: () => void;
+    onSuccess?: () => void;
 }
 
-const VARIANT_TYPE_LABELS: Record<ProductVariant['variant_type'], string> = {
-    weight: 'Weight',
-    pcs: 'Pieces',
-    price: 'Price',
-    flavor: 'Flavor',
-    size: 'Size',
-};
-
 export default function ProductForm({
     open,
     onOpenChange,
@@ -89,12 +61,22 @@ export default function ProductForm({
     onSuccess,
 }: ProductFormProps) {
     const [loading, setLoading] = useState(false);
-    const [categoryOptions, setCategoryOptions] = useState<string[]>([]);
-    const [categoryLoading, setCategoryLoading] = useState(false);
     const [categoryDropdownOpen, setCategoryDropdownOpen] = useState(false);
+    const [imageDrafts, setImageDrafts] = useState<ProductImageDraft[]>([]);
+    const [primaryImageKey, setPrimaryImageKey] = useState<string | null>(null);
     const { toast } = useToast();
     const { profile } = useAuth();
     const categoryFieldRef = useRef<HTMLDivElement | null>(null);
+    const invalidateProducts = useInvalidateProducts();
+    const { data: categories, isLoading: categoryLoading } = useCategories();
+
+    const categoryOptions = useMemo(() => {
+        const names = (categories ?? [])
+            .map((category) => category.name.trim())
+            .filter((name) => name.length > 0);
+
+        return Array.from(new Set(names));
+    }, [categories]);
 
     const form = useForm<ProductFormData>({
         resolver: zodResolver(productSchema),
@@ -103,12 +85,13 @@ export default function ProductForm({
             description: '',
             category: null,
             is_visible: true,
-            image_url: '',
             variants: [
                 {
                     variant_type: '' as any,
                     variant_value: '',
                     price: 0,
+                    stock_unit: 'pack',
+                    pricing_mode: 'fixed',
                     quantity: 0,
                 },
             ],
@@ -128,12 +111,13 @@ export default function ProductForm({
                 description: item.description ?? '',
                 category: item.category ?? null,
                 is_visible: item.is_visible,
-                image_url: item.image_url ?? '',
                 variants: item.variants.length > 0
                     ? item.variants.map((v) => ({
                         variant_type: v.variant_type,
                         variant_value: v.variant_value,
                         price: v.price,
+                        stock_unit: v.stock_unit ?? 'pack',
+                        pricing_mode: v.pricing_mode ?? 'fixed',
                         quantity: v.quantity,
                     }))
                     : [
@@ -141,6 +125,8 @@ export default function ProductForm({
                             variant_type: 'pcs',
                             variant_value: 'default',
                             price: 0,
+                            stock_unit: 'pack',
+                            pricing_mode: 'fixed',
                             quantity: 0,
                         },
                     ],
@@ -151,61 +137,22 @@ export default function ProductForm({
                 description: '',
                 category: null,
                 is_visible: true,
-                image_url: '',
                 variants: [
                     {
                         variant_type: '' as any,
                         variant_value: '',
                         price: 0,
+                        stock_unit: 'pack',
+                        pricing_mode: 'fixed',
                         quantity: 0,
                     },
                 ],
             });
         }
-    }, [item, form]);
-
-    // Fetch available categories when the dialog opens
-    useEffect(() => {
-        if (!open) return;
-
-        let isMounted = true;
-
-        const fetchCategories = async () => {
-            try {
-                setCategoryLoading(true);
-                const { data, error } = await supabase
-                    .from('category')
-                    .select('name')
-                    .order('name', { ascending: true });
-
-                if (error) throw error;
 
-                if (!isMounted) return;
-
-                const names = (data ?? [])
-                    .map((row) => (row?.name ?? '').trim())
-                    .filter((name) => name.length > 0);
-
-                setCategoryOptions(Array.from(new Set(names)));
-            } catch (error: any) {
-                toast({
-                    variant: 'destructive',
-                    title: 'Error',
-                    description: error.message || 'Failed to load categories',
-                });
-            } finally {
-                if (isMounted) {
-                    setCategoryLoading(false);
-                }
-            }
-        };
-
-        fetchCategories();
-
-        return () => {
-            isMounted = false;
-        };
-    }, [open, toast]);
+        setImageDrafts(item ? item.images.map((image) => ({ key: image.id, kind: 'existing', image })) : []);
+        setPrimaryImageKey(item ? primaryProductImage(item)?.id ?? null : null);
+    }, [item, form]);
 
     // Close the dropdown when clicking outside
     useEffect(() => {
@@ -227,31 +174,35 @@ export default function ProductForm({
         };
     }, [categoryDropdownOpen]);
 
-    // Helper function to convert string to Title Case
-    // Capitalizes first letter and letters after spaces, hyphens, and opening brackets
-    const toTitleCase = (str: string): string => {
-        return str
-            .toLowerCase()
-            .replace(/(?:^|\s|-|\()([a-z])/g, (match) => match.toUpperCase());
-    };
-
     const onSubmit = async (data: ProductFormData) => {
         try {
             setLoading(true);
 
             const descriptionValue = data.description?.trim() ?? '';
             const categoryValue = typeof data.category === 'string' ? data.category.trim() : '';
-            const imageUrlValue = typeof data.image_url === 'string' ? data.image_url.trim() : '';
 
-            const productData = {
+            const productData: TablesInsert<'product'> = {
                 name: toTitleCase(data.name.trim()),
                 description: descriptionValue === '' ? null : descriptionValue,
                 category: categoryValue === '' ? null : categoryValue.toLowerCase(),
                 is_visible: data.is_visible,
-                image_url: imageUrlValue === '' ? null : imageUrlValue,
                 updated_by: profile?.id ?? null,
             };
 
+            // Uploaded photos replace any external image link the product had
+            if (imageDrafts.length > 0) {
+                productData.image_url = null;
+            }
+
+            const saveImages = (productId: string) =>
+                saveProductImages({
+                    productId,
+                    original: item?.images ?? [],
+                    drafts: imageDrafts,
+                    primaryKey: primaryImageKey,
+                    userId: profile?.id ?? null,
+                });
+
             if (item) {
                 // Update existing product
                 const { error } = await supabase
@@ -261,6 +212,8 @@ export default function ProductForm({
 
                 if (error) throw error;
 
+                await saveImages(item.id);
+
                 toast({
                     title: 'Success',
                     description: 'Product updated successfully',
@@ -291,9 +244,11 @@ export default function ProductForm({
                         variant_type: data.variants[0].variant_type,
                         variant_value: data.variants[0].variant_value,
                         price: data.variants[0].price,
+                        stock_unit: data.variants[0].stock_unit,
+                        pricing_mode: data.variants[0].pricing_mode,
                         quantity: data.variants[0].quantity,
                         updated_by: profile?.id ?? null,
-                    })
+                    } satisfies TablesUpdate<'product_variants'>)
                     .eq('id', autoVariant.id);
 
                 if (updateError) throw updateError;
@@ -316,14 +271,18 @@ export default function ProductForm({
                                 variant_type: variant.variant_type,
                                 variant_value: variant.variant_value,
                                 price: variant.price,
+                                stock_unit: variant.stock_unit,
+                                pricing_mode: variant.pricing_mode,
                                 quantity: variant.quantity,
                                 updated_by: profile?.id ?? null,
-                            });
+                            } satisfies TablesInsert<'product_variants'>);
 
                         if (variantError) throw variantError;
                     }
                 }
 
+                await saveImages(newProduct.id);
+
                 toast({
                     title: 'Success',
                     description: `Product created with ${data.variants.length} variant(s)`,
@@ -331,7 +290,8 @@ export default function ProductForm({
             }
 
             form.reset();
-            onSuccess();
+            invalidateProducts();
+            onSuccess?.();
             onOpenChange(false);
         } catch (error: any) {
             toast({
@@ -501,26 +461,21 @@ export default function ProductForm({
                             )}
                         />
 
-                        <FormField
-                            control={form.control}
-                            name="image_url"
-                            render={({ field }) => (
-                                <FormItem>
-                                    <FormLabel>Image URL</FormLabel>
-                                    <FormControl>
-                                        <Input
-                                            type="url"
-                                            placeholder="https://example.com/product-image.jpg"
-                                            {...field}
-                                        />
-                                    </FormControl>
-                                    <FormDescription>
-                                        Enter the URL of the product image.
-                                    </FormDescription>
-                                    <FormMessage />
-                                </FormItem>
-                            )}
-                        />
+                        <div className="space-y-2">
+                            <Label>Photos</Label>
+                            <ProductImagesField
+                                drafts={imageDrafts}
+                                primaryKey={primaryImageKey}
+                                onChange={(drafts, primaryKey) => {
+                                    setImageDrafts(drafts);
+                                    setPrimaryImageKey(primaryKey);
+                                }}
+                                disabled={loading}
+                            />
+                            <p className="text-sm text-muted-foreground">
+                                The primary photo is shown on product cards; customers can browse the rest.
+                            </p>
+                        </div>
 
                         <FormField
                             control={form.control}
@@ -562,6 +517,8 @@ export default function ProductForm({
                                                 variant_type: '' as any,
                                                 variant_value: '',
                                                 price: 0,
+                                                stock_unit: 'pack',
+                                                pricing_mode: 'fixed',
                                                 quantity: 0,
                                             })
                                         }
@@ -631,7 +588,9 @@ export default function ProductForm({
                                                     name={`variants.${index}.price`}
                                                     render={({ field }) => (
                                                         <FormItem>
-                                                            <FormLabel className="text-xs">Price (₹)</FormLabel>
+                                                            <FormLabel className="text-xs">
+                                                                {form.watch(`variants.${index}.pricing_mode`) === 'per_kg' ? 'Rate per kg (₹)' : 'Price (₹)'}
+                                                            </FormLabel>
                                                             <FormControl>
                                                                 <Input className="h-8" type="number" min="0" step="1" {...field} />
                                                             </FormControl>
@@ -647,12 +606,80 @@ export default function ProductForm({
                                                         <FormItem>
                                                             <FormLabel className="text-xs">Qty</FormLabel>
                                                             <FormControl>
-                                                                <Input className="h-8" type="number" min="0" step="1" {...field} />
+                                                                <Input
+                                                                    className="h-8"
+                                                                    type="number"
+                                                                    min="0"
+                                                                    step={stockQuantityStep(form.watch(`variants.${index}.stock_unit`))}
+                                                                    {...field}
+                                                                />
                                                             </FormControl>
                                                             <FormMessage className="text-xs" />
                                                         </FormItem>
                                                     )}
                                                 />
+
+                                                <FormField
+                                                    control={form.control}
+                                                    name={`variants.${index}.stock_unit`}
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel className="text-xs">Stock counted in</FormLabel>
+                                                            <Select
+                                                                onValueChange={(value) => {
+                                                                    field.onChange(value);
+                                                                    if (value !== 'kg') {
+                                                                        form.setValue(`variants.${index}.pricing_mode`, 'fixed');
+                                                                    }
+                                                                }}
+                                                                value={field.value}
+                                                            >
+                                                                <FormControl>
+                                                                    <SelectTrigger className="h-8">
+                                                                        <SelectValue />
+                                                                    </SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    {STOCK_UNITS.map((unit) => (
+                                                                        <SelectItem key={unit} value={unit}>
+                                                                            {STOCK_UNIT_LABELS[unit]}
+                                                                        </SelectItem>
+                                                                    ))}
+                                                                </SelectContent>
+                                                            </Select>
+                                                            <FormMessage className="text-xs" />
+                                                        </FormItem>
+                                                    )}
+                                                />
+
+                                                <FormField
+                                                    control={form.control}
+                                                    name={`variants.${index}.pricing_mode`}
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel className="text-xs">Pricing</FormLabel>
+                                                            <Select
+                                                                onValueChange={field.onChange}
+                                                                value={field.value}
+                                                                disabled={form.watch(`variants.${index}.stock_unit`) !== 'kg'}
+                                                            >
+                                                                <FormControl>
+                                                                    <SelectTrigger className="h-8">
+                                                                        <SelectValue />
+                                                                    </SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    {PRICING_MODES.map((mode) => (
+                                                                        <SelectItem key={mode} value={mode}>
+                                                                            {PRICING_MODE_LABELS[mode]}
+                                                                        </SelectItem>
+                                                                    ))}
+                                                                </SelectContent>
+                                                            </Select>
+                                                            <FormMessage className="text-xs" />
+                                                        </FormItem>
+                                                    )}
+                                                />
                                             </div>
                                         </Card>
                                     ))}
@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, ImagePlus, Star, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  ProductImageDraft,
+  productImageUrl,
+  validateImageFile,
+} from '@/lib/product-images';
+
+interface ProductImagesFieldProps {
+  drafts: ProductImageDraft[];
+  primaryKey: string | null;
+  onChange: (drafts: ProductImageDraft[], primaryKey: string | null) => void;
+  disabled?: boolean;
+}
+
+const previewSrc = (draft: ProductImageDraft) =>
+  draft.kind === 'existing' ? productImageUrl(draft.image, 'thumb') : draft.previewUrl;
+
+export default function ProductImagesField({
+  drafts,
+  primaryKey,
+  onChange,
+  disabled = false,
+}: ProductImagesFieldProps) {
+  const [dragActive, setDragActive] = useState(false);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const previewUrlsRef = useRef<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const effectivePrimaryKey = drafts.some((draft) => draft.key === primaryKey)
+    ? primaryKey
+    : drafts[0]?.key ?? null;
+
+  // Release previews of picked files when the form goes away
+  useEffect(() => {
+    const previewUrls = previewUrlsRef.current;
+    return () => {
+      previewUrls.forEach((url) => URL.revokeObjectURL(url));
+      previewUrls.clear();
+    };
+  }, []);
+
+  const addFiles = (files: FileList | File[]) => {
+    const accepted: ProductImageDraft[] = [];
+
+    Array.from(files).forEach((file) => {
+      const problem = validateImageFile(file);
+      if (problem) {
+        toast({
+          variant: 'destructive',
+          title: 'Image skipped',
+          description: problem,
+        });
+        return;
+      }
+
+      const previewUrl = URL.createObjectURL(file);
+      previewUrlsRef.current.add(previewUrl);
+      accepted.push({ key: crypto.randomUUID(), kind: 'new', file, previewUrl });
+    });
+
+    if (accepted.length > 0) {
+      onChange([...drafts, ...accepted], primaryKey);
+    }
+  };
+
+  const removeDraft = (key: string) => {
+    const draft = drafts.find((entry) => entry.key === key);
+    if (draft?.kind === 'new') {
+      URL.revokeObjectURL(draft.previewUrl);
+      previewUrlsRef.current.delete(draft.previewUrl);
+    }
+
+    onChange(
+      drafts.filter((entry) => entry.key !== key),
+      primaryKey === key ? null : primaryKey
+    );
+  };
+
+  const moveDraft = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= drafts.length) return;
+
+    const next = [...drafts];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next, primaryKey);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-disabled={disabled}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (!disabled && (event.key === 'Enter' || event.key === ' ')) {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!disabled) setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setDragActive(false);
+          if (!disabled) addFiles(event.dataTransfer.files);
+        }}
+        className={`flex cursor-pointer flex-col items-center justify-center gap-2 rounded-[var(--radius)] border-2 border-dashed px-4 py-6 text-center transition-colors ${dragActive ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+          } ${disabled ? 'pointer-events-none opacity-60' : ''}`}
+      >
+        <ImagePlus className="h-6 w-6 text-muted-foreground" />
+        <p className="text-sm font-medium">Drop photos here or click to choose</p>
+        <p className="text-xs text-muted-foreground">
+          JPEG, PNG or WebP. Photos are resized and saved as WebP when you save the product.
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            if (event.target.files) addFiles(event.target.files);
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {drafts.length > 0 && (
+        <div className="grid grid-cols-3 gap-3 sm:grid-cols-4">
+          {drafts.map((draft, index) => {
+            const isPrimary = draft.key === effectivePrimaryKey;
+
+            return (
+              <div
+                key={draft.key}
+                className={`group relative aspect-square overflow-hidden rounded-md border ${isPrimary ? 'border-primary ring-2 ring-primary/30' : 'border-border'
+                  }`}
+              >
+                <img src={previewSrc(draft)} alt="" className="h-full w-full object-cover" />
+                {isPrimary && (
+                  <span className="absolute left-1 top-1 rounded bg-primary px-1.5 py-0.5 text-[10px] font-semibold text-primary-foreground">
+                    Primary
+                  </span>
+                )}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="absolute right-1 top-1 h-6 w-6"
+                  onClick={() => removeDraft(draft.key)}
+                  disabled={disabled}
+                  aria-label="Remove image"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+                <div className="absolute inset-x-1 bottom-1 flex items-center justify-between gap-1">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => moveDraft(index, -1)}
+                    disabled={disabled || index === 0}
+                    aria-label="Move image earlier"
+                  >
+                    <ArrowLeft className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => onChange(drafts, draft.key)}
+                    disabled={disabled || isPrimary}
+                    aria-label="Use as primary image"
+                  >
+                    <Star className={`h-3 w-3 ${isPrimary ? 'fill-current' : ''}`} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => moveDraft(index, 1)}
+                    disabled={disabled || index === drafts.length - 1}
+                    aria-label="Move image later"
+                  >
+                    <ArrowRight className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FileSpreadsheet } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useInvalidateProducts, useProducts } from '@/hooks/use-products';
+import { CATEGORIES_QUERY_KEY, useCategories } from '@/hooks/use-categories';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  IMPORT_FILE_TYPES,
+  ImportAction,
+  ImportResult,
+  ImportSheet,
+  applyImport,
+  guessColumnMapping,
+  planImport,
+  readImportFile,
+} from '@/lib/product-import';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type ImportStep = 'file' | 'map' | 'review';
+
+const NOT_MAPPED = 'none';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip',
+};
+
+const ACTION_BADGE_VARIANTS: Record<ImportAction, 'default' | 'secondary' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  skip: 'outline',
+};
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export default function ProductImportDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: ProductImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [actionFilter, setActionFilter] = useState<ImportAction | 'all'>('all');
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failures, setFailures] = useState<ImportResult['failed']>([]);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const invalidateProducts = useInvalidateProducts();
+  const { data: products } = useProducts();
+  const { data: categories } = useCategories();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setStep('file');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setActionFilter('all');
+    setProgress(0);
+    setFailures([]);
+  }, [open]);
+
+  // Planned against the live catalog, so rows already imported show as up to date
+  const plan = useMemo(() => {
+    if (step !== 'review' || !sheet || !mapping) return null;
+
+    return planImport({
+      sheet,
+      mapping,
+      products: products ?? [],
+      categories: (categories ?? []).map((category) => category.name),
+    });
+  }, [step, sheet, mapping, products, categories]);
+
+  const counts = useMemo(() => {
+    const next: Record<ImportAction, number> = { create: 0, update: 0, skip: 0 };
+    plan?.rows.forEach((row) => {
+      next[row.action] += 1;
+    });
+    return next;
+  }, [plan]);
+
+  const visibleRows = (plan?.rows ?? []).filter((row) => actionFilter === 'all' || row.action === actionFilter);
+  const writeCount = counts.create + counts.update;
+  const canReview = mapping !== null && (mapping.sku !== null || mapping.name !== null);
+
+  const handleFile = async (file: File) => {
+    try {
+      setReading(true);
+      const nextSheet = await readImportFile(file);
+
+      setFileName(file.name);
+      setSheet(nextSheet);
+      setMapping(guessColumnMapping(nextSheet.headers));
+      setStep('map');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to read the file',
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan || writeCount === 0) return;
+
+    try {
+      setImporting(true);
+      setProgress(0);
+      setFailures([]);
+
+      const result = await applyImport({
+        plan,
+        userId: profile?.id ?? null,
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+
+      invalidateProducts();
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+
+      if (result.failed.length > 0) {
+        setFailures(result.failed);
+        toast({
+          variant: 'destructive',
+          title: 'Import finished with errors',
+          description: `${result.applied} of ${result.applied + result.failed.length} rows imported.`,
+        });
+        return;
+      }
+
+      toast({
+        title: 'Import complete',
+        description: `${result.applied} ${result.applied === 1 ? 'row' : 'rows'} imported from ${fileName}.`,
+      });
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to import products',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !importing && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[880px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Add or update products and variants from a CSV, Excel (.xlsx) or JSON backup file.'}
+            {step === 'map' && `Choose which column of ${fileName} holds each field.`}
+            {step === 'review' && 'Nothing has been saved yet. Check what the import will do, then run it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-3">
+            <div
+              role="button"
+              tabIndex={0}
+              onClick={() => !reading && inputRef.current?.click()}
+              onKeyDown={(event) => {
+                if (!reading && (event.key === 'Enter' || event.key === ' ')) {
+                  event.preventDefault();
+                  inputRef.current?.click();
+                }
+              }}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                const file = event.dataTransfer.files[0];
+                if (file && !reading) handleFile(file);
+              }}
+              className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-[var(--radius)] border-2 border-dashed border-border px-4 py-10 text-center transition-colors hover:border-primary/50"
+            >
+              <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+              <p className="text-sm font-medium">
+                {reading ? 'Reading file...' : 'Drop a CSV, .xlsx or .json file here or click to choose'}
+              </p>
+              <input
+                ref={inputRef}
+                type="file"
+                accept={IMPORT_FILE_TYPES}
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) handleFile(file);
+                  event.target.value = '';
+                }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              One row per variant. Rows with a known SKU update that variant and leave blank cells as they are.
+              Other rows add a variant, creating the product when the name is new; they need a product name,
+              variant type, variant value and price. New variants without a SKU get one automatically. Catalog
+              exports, including JSON backups, can be imported as they are.
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {IMPORT_FIELDS.map((field) => {
+              const column = mapping[field.key];
+              const sample = column === null ? '' : sheet.rows[0]?.[column]?.trim() ?? '';
+
+              return (
+                <div key={field.key} className="grid gap-1.5">
+                  <Label htmlFor={`import-${field.key}`}>{field.label}</Label>
+                  <Select
+                    value={column === null ? NOT_MAPPED : String(column)}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key]: value === NOT_MAPPED ? null : Number(value) })
+                    }
+                  >
+                    <SelectTrigger id={`import-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {sample && <p className="truncate text-xs text-muted-foreground">e.g. {sample}</p>}
+                </div>
+              );
+            })}
+            {!canReview && (
+              <p className="text-sm text-destructive sm:col-span-2">Map the SKU or the product name column to continue.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && plan && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'create', 'update', 'skip'] as const).map((action) => (
+                <Button
+                  key={action}
+                  type="button"
+                  size="sm"
+                  variant={actionFilter === action ? 'default' : 'outline'}
+                  className="h-8"
+                  onClick={() => setActionFilter(action)}
+                >
+                  {action === 'all' ? `All ${plan.rows.length}` : `${ACTION_LABELS[action]} ${counts[action]}`}
+                </Button>
+              ))}
+            </div>
+
+            {plan.newCategories.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                New categories: {plan.newCategories.join(', ')}
+              </p>
+            )}
+
+            {failures.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTitle>Some rows were not imported</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-1 space-y-0.5 text-xs">
+                    {failures.map((failure) => (
+                      <li key={failure.line}>
+                        Row {failure.line}: {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-[45vh] overflow-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead className="w-24">Action</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="py-6 text-center text-sm text-muted-foreground">
+                        No rows
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleRows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_BADGE_VARIANTS[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.name || '—'}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[row.variantValue, row.sku].filter(Boolean).join(' • ') || '—'}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.action === 'create' && (
+                            <span className="text-muted-foreground">
+                              {row.productId ? 'New variant' : 'New product'} • ₹{row.values.price} •{' '}
+                              {row.values.quantity} {row.values.stock_unit}
+                            </span>
+                          )}
+                          {row.action === 'update' && (
+                            <ul className="space-y-0.5">
+                              {row.changes.map((change) => (
+                                <li key={change}>{change}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {row.action === 'skip' && (
+                            <ul className="space-y-0.5 text-muted-foreground">
+                              {row.reasons.map((reason) => (
+                                <li key={reason}>{reason}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {importing && <Progress value={progress} aria-label="Import progress" />}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'file' && (
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('file')}>
+                Back
+              </Button>
+              <Button type="button" onClick={() => setStep('review')} disabled={!canReview}>
+                Review Import
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('map')} disabled={importing}>
+                Back
+              </Button>
+              <Button type="button" onClick={handleImport} disabled={importing || writeCount === 0}>
+                {importing ? `Importing... ${progress}%` : `Import ${writeCount} ${writeCount === 1 ? 'Row' : 'Rows'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
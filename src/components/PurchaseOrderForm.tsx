@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase, PurchaseOrder, StockUnit, Supplier } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { formatCost } from '@/lib/purchasing';
+import { isValidStockQuantity, stockQuantityStep } from '@/lib/stock';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+
+type VariantOption = {
+  id: string;
+  sku: string;
+  variant_value: string;
+  stock_unit: StockUnit;
+  reorder_quantity: number | null;
+  product: { name: string } | null;
+  variant_costs: { cost_price: number } | null;
+};
+
+type DraftLine = {
+  key: string;
+  variant_id: string;
+  quantity: string;
+  unit_cost: string;
+};
+
+let lineKey = 0;
+const newLine = (): DraftLine => ({ key: `line-${++lineKey}`, variant_id: '', quantity: '', unit_cost: '' });
+
+interface PurchaseOrderFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseOrder?: PurchaseOrder | null;
+  suppliers: Supplier[];
+  onSuccess: () => void;
+}
+
+export default function PurchaseOrderForm({
+  open,
+  onOpenChange,
+  purchaseOrder,
+  suppliers,
+  onSuccess,
+}: PurchaseOrderFormProps) {
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedOn, setExpectedOn] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<DraftLine[]>([newLine()]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSupplierId(purchaseOrder?.supplier_id ?? '');
+    setExpectedOn(purchaseOrder?.expected_on ?? '');
+    setNotes(purchaseOrder?.notes ?? '');
+    setLines(
+      purchaseOrder?.purchase_order_lines?.length
+        ? purchaseOrder.purchase_order_lines
+          .filter((line) => line.variant_id)
+          .map((line) => ({
+            key: `line-${++lineKey}`,
+            variant_id: line.variant_id as string,
+            quantity: line.quantity_ordered.toString(),
+            unit_cost: line.unit_cost.toString(),
+          }))
+        : [newLine()]
+    );
+
+    const fetchVariants = async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('id, sku, variant_value, stock_unit, reorder_quantity, product(name), variant_costs(cost_price)')
+        .order('sku', { ascending: true });
+
+      if (error) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to load products',
+        });
+        return;
+      }
+
+      setVariants((data ?? []) as unknown as VariantOption[]);
+    };
+
+    fetchVariants();
+  }, [open, purchaseOrder, toast]);
+
+  const variantsByProduct = useMemo(() => {
+    const groups = new Map<string, VariantOption[]>();
+    variants.forEach((variant) => {
+      const name = variant.product?.name ?? 'Unknown item';
+      groups.set(name, [...(groups.get(name) ?? []), variant]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [variants]);
+
+  const activeSuppliers = suppliers.filter((supplier) => supplier.is_active || supplier.id === supplierId);
+
+  const updateLine = (key: string, changes: Partial<DraftLine>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const handleVariantChange = (key: string, variantId: string) => {
+    const variant = variants.find((entry) => entry.id === variantId);
+    setLines((prev) =>
+      prev.map((line) =>
+        line.key === key
+          ? {
+            ...line,
+            variant_id: variantId,
+            // Start from the usual order size and the current average cost
+            quantity: line.quantity || (variant?.reorder_quantity ? variant.reorder_quantity.toString() : ''),
+            unit_cost: line.unit_cost || (variant?.variant_costs ? variant.variant_costs.cost_price.toString() : ''),
+          }
+          : line
+      )
+    );
+  };
+
+  const total = lines.reduce((sum, line) => {
+    const quantity = Number.parseFloat(line.quantity);
+    const cost = Number.parseFloat(line.unit_cost);
+    return sum + (Number.isNaN(quantity) || Number.isNaN(cost) ? 0 : quantity * cost);
+  }, 0);
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast({ variant: 'destructive', title: 'Missing supplier', description: 'Choose a supplier for this order.' });
+      return;
+    }
+
+    const filledLines = lines.filter((line) => line.variant_id);
+    const invalidLine = filledLines.find((line) => {
+      const quantity = Number(line.quantity);
+      const cost = Number.parseFloat(line.unit_cost || '0');
+      const unit = variants.find((variant) => variant.id === line.variant_id)?.stock_unit ?? 'pack';
+      return line.quantity.trim() === '' || !isValidStockQuantity(quantity, unit) || quantity <= 0 || Number.isNaN(cost) || cost < 0;
+    });
+
+    if (filledLines.length === 0 || invalidLine) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the lines',
+        description: 'Add at least one product with a quantity greater than 0 and a valid cost. Only kg stock can be ordered in part units.',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.rpc('save_purchase_order', {
+        p_purchase_order_id: purchaseOrder?.id ?? null,
+        p_supplier_id: supplierId,
+        p_expected_on: expectedOn || null,
+        p_notes: notes,
+        p_lines: filledLines.map((line) => ({
+          variant_id: line.variant_id,
+          quantity: Number(line.quantity),
+          unit_cost: Number.parseFloat(line.unit_cost || '0'),
+        })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: purchaseOrder ? 'Purchase order updated' : 'Purchase order created',
+        description: 'Saved as a draft. Send it when it is ready.',
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to save purchase order',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{purchaseOrder ? `Edit ${purchaseOrder.po_number}` : 'New Purchase Order'}</DialogTitle>
+          <DialogDescription>Drafts can be edited until they are sent to the supplier.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="po-supplier">Supplier</Label>
+            <Select value={supplierId} onValueChange={setSupplierId} disabled={saving}>
+              <SelectTrigger id="po-supplier">
+                <SelectValue placeholder={suppliers.length === 0 ? 'Add a supplier first' : 'Choose supplier'} />
+              </SelectTrigger>
+              <SelectContent>
+                {activeSuppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="po-expected">Expected delivery</Label>
+            <Input
+              id="po-expected"
+              type="date"
+              value={expectedOn}
+              onChange={(e) => setExpectedOn(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="hidden grid-cols-[1fr_6rem_7rem_2.25rem] gap-2 px-1 text-xs font-medium text-muted-foreground sm:grid">
+            <span>Product</span>
+            <span>Quantity</span>
+            <span>Unit cost (₹)</span>
+            <span />
+          </div>
+          {lines.map((line) => (
+            <div key={line.key} className="grid grid-cols-[1fr_6rem_7rem_2.25rem] gap-2">
+              <Select
+                value={line.variant_id}
+                onValueChange={(value) => handleVariantChange(line.key, value)}
+                disabled={saving}
+              >
+                <SelectTrigger aria-label="Product">
+                  <SelectValue placeholder="Choose product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {variantsByProduct.map(([productName, options]) => (
+                    <SelectGroup key={productName}>
+                      <SelectLabel>{productName}</SelectLabel>
+                      {options.map((variant) => (
+                        <SelectItem key={variant.id} value={variant.id}>
+                          {productName} • {variant.variant_value} ({variant.sku})
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step={stockQuantityStep(variants.find((variant) => variant.id === line.variant_id)?.stock_unit ?? 'pack')}
+                value={line.quantity}
+                onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                aria-label="Quantity"
+                disabled={saving}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={line.unit_cost}
+                onChange={(e) => updateLine(line.key, { unit_cost: e.target.value })}
+                aria-label="Unit cost"
+                disabled={saving}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((entry) => entry.key !== line.key) : [newLine()]))}
+                disabled={saving}
+                aria-label="Remove line"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setLines((prev) => [...prev, newLine()])}
+              disabled={saving}
+            >
+              <Plus className="mr-1.5 h-4 w-4" />
+              Add line
+            </Button>
+            <span className="text-sm">
+              Total <span className="font-semibold">{formatCost(total)}</span>
+            </span>
+          </div>
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="po-notes">Notes for supplier</Label>
+          <Textarea
+            id="po-notes"
+            rows={2}
+            className="resize-none"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Optional: packing, delivery instructions"
+            disabled={saving}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
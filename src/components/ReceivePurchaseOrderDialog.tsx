@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { supabase, PurchaseOrder } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { isValidStockQuantity, stockQuantityStep } from '@/lib/stock';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+type ReceiptDraft = {
+  quantity: string;
+  unit_cost: string;
+  batch_code: string;
+  best_before: string;
+};
+
+interface ReceivePurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchaseOrder: PurchaseOrder | null;
+  onSuccess: () => void;
+}
+
+export default function ReceivePurchaseOrderDialog({
+  open,
+  onOpenChange,
+  purchaseOrder,
+  onSuccess,
+}: ReceivePurchaseOrderDialogProps) {
+  const [drafts, setDrafts] = useState<Record<string, ReceiptDraft>>({});
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const outstandingLines = (purchaseOrder?.purchase_order_lines ?? []).filter(
+    (line) => line.quantity_received < line.quantity_ordered
+  );
+
+  useEffect(() => {
+    if (!open || !purchaseOrder) return;
+
+    // Default to receiving everything still outstanding at the ordered cost
+    const next: Record<string, ReceiptDraft> = {};
+    (purchaseOrder.purchase_order_lines ?? []).forEach((line) => {
+      next[line.id] = {
+        quantity: Math.max(line.quantity_ordered - line.quantity_received, 0).toString(),
+        unit_cost: line.unit_cost.toString(),
+        batch_code: '',
+        best_before: '',
+      };
+    });
+    setDrafts(next);
+    setNote('');
+  }, [open, purchaseOrder]);
+
+  const updateDraft = (lineId: string, changes: Partial<ReceiptDraft>) => {
+    setDrafts((prev) => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const handleReceive = async () => {
+    if (!purchaseOrder) return;
+
+    const lines = outstandingLines
+      .map((line) => ({ line, draft: drafts[line.id] }))
+      .filter(({ draft }) => draft && draft.quantity.trim() !== '' && Number(draft.quantity) > 0);
+
+    const invalid = lines.find(({ line, draft }) => {
+      const quantity = Number(draft.quantity);
+      const cost = Number.parseFloat(draft.unit_cost);
+      return (
+        !isValidStockQuantity(quantity, line.product_variants?.stock_unit ?? 'pack') ||
+        quantity > line.quantity_ordered - line.quantity_received ||
+        Number.isNaN(cost) ||
+        cost < 0
+      );
+    });
+
+    if (lines.length === 0 || invalid) {
+      toast({
+        variant: 'destructive',
+        title: 'Check the quantities',
+        description: invalid
+          ? `${invalid.line.product_name} (${invalid.line.variant_value}): enter a valid quantity, up to ${invalid.line.quantity_ordered - invalid.line.quantity_received} outstanding.`
+          : 'Enter a quantity for at least one line.',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.rpc('receive_purchase_order', {
+        p_purchase_order_id: purchaseOrder.id,
+        p_lines: lines.map(({ line, draft }) => ({
+          line_id: line.id,
+          quantity: Number(draft.quantity),
+          unit_cost: Number.parseFloat(draft.unit_cost),
+          batch_code: draft.batch_code.trim() || null,
+          best_before: draft.best_before || null,
+        })),
+        p_note: note,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Stock received',
+        description: `${lines.length} ${lines.length === 1 ? 'line' : 'lines'} from ${purchaseOrder.po_number} added to stock.`,
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to receive purchase order',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[880px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive {purchaseOrder?.po_number}</DialogTitle>
+          <DialogDescription>
+            Enter what arrived. Partial deliveries keep the rest of the order open. Add a batch code for
+            perishable items to track their best-before date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {outstandingLines.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Everything on this order has been received</div>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-center">Outstanding</TableHead>
+                  <TableHead className="w-24">Receive</TableHead>
+                  <TableHead className="w-28">Unit cost (₹)</TableHead>
+                  <TableHead className="w-32">Batch code</TableHead>
+                  <TableHead className="w-40">Best before</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstandingLines.map((line) => {
+                  const draft = drafts[line.id];
+                  if (!draft) return null;
+
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {line.variant_value} • {line.sku}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {line.quantity_ordered - line.quantity_received}
+                        <span className="text-xs text-muted-foreground"> / {line.quantity_ordered}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={line.quantity_ordered - line.quantity_received}
+                          step={stockQuantityStep(line.product_variants?.stock_unit ?? 'pack')}
+                          value={draft.quantity}
+                          onChange={(e) => updateDraft(line.id, { quantity: e.target.value })}
+                          aria-label={`Quantity received of ${line.product_name}`}
+                          className="h-8"
+                          disabled={saving}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={draft.unit_cost}
+                          onChange={(e) => updateDraft(line.id, { unit_cost: e.target.value })}
+                          aria-label={`Unit cost of ${line.product_name}`}
+                          className="h-8"
+                          disabled={saving}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.batch_code}
+                          onChange={(e) => updateDraft(line.id, { batch_code: e.target.value })}
+                          placeholder="Optional"
+                          aria-label={`Batch code for ${line.product_name}`}
+                          className="h-8"
+                          disabled={saving}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          value={draft.best_before}
+                          onChange={(e) => updateDraft(line.id, { best_before: e.target.value })}
+                          aria-label={`Best before for ${line.product_name}`}
+                          className="h-8"
+                          disabled={saving || !draft.batch_code.trim()}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <Label htmlFor="receipt-note">Note</Label>
+          <Input
+            id="receipt-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Optional, e.g. supplier invoice no."
+            maxLength={200}
+            disabled={saving}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleReceive} disabled={saving || outstandingLines.length === 0}>
+            {saving ? 'Receiving...' : 'Receive Stock'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
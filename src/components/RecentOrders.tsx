@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase, Order } from '@/lib/supabase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ORDER_STATUS_BADGE_VARIANTS, ORDER_STATUS_LABELS } from '@/lib/orders';
+import { formatWeight } from '@/lib/pricing';
+import { formatCurrency, formatTimestamp } from '@/lib/catalog';
+
+interface RecentOrdersProps {
+  limit?: number;
+}
+
+export default function RecentOrders({ limit = 10 }: RecentOrdersProps) {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('orders')
+          .select('*, order_items(*)')
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+
+        setOrders((data ?? []) as Order[]);
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to load orders',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOrders();
+
+    const ordersChannel = supabase
+      .channel('recent_orders_admin')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders' },
+        () => {
+          fetchOrders();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      ordersChannel.unsubscribe();
+    };
+  }, [limit, toast]);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Recent Orders</CardTitle>
+            <CardDescription>Latest pickup orders placed by customers</CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            className="w-full rounded-[var(--radius)] border-border sm:w-auto"
+            onClick={() => navigate('/admin/orders')}
+          >
+            Manage Orders
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading orders...</div>
+        ) : orders.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No orders yet</div>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-center">Items</TableHead>
+                  <TableHead className="text-center">Total</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                  <TableHead className="text-center">Placed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => {
+                  const lines = order.order_items ?? [];
+                  const unitCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+                  return (
+                    <TableRow key={order.id}>
+                      <TableCell>
+                        <code className="text-xs bg-muted px-2 py-1 rounded">{order.order_number}</code>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{order.customer_name}</div>
+                        <div className="text-xs text-muted-foreground">{order.customer_phone}</div>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <span title={lines.map((line) => `${line.quantity} × ${line.product_name} (${line.weight_grams ? formatWeight(line.weight_grams) : line.variant_value})`).join('\n')}>
+                          {unitCount}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-center font-medium">{formatCurrency(order.total)}</TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={ORDER_STATUS_BADGE_VARIANTS[order.status]}>
+                          {ORDER_STATUS_LABELS[order.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center text-sm text-muted-foreground">
+                        {formatTimestamp(order.created_at)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
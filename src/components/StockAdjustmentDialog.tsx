@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { supabase, ProductVariant, StockMovementReason } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import {
+  STOCK_MOVEMENT_REASONS,
+  STOCK_MOVEMENT_REASON_LABELS,
+  formatStockQuantity,
+  isWholeStockUnit,
+  stockQuantityStep,
+} from '@/lib/stock';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+type AdjustmentMode = 'add' | 'remove' | 'set';
+
+const MODE_LABELS: Record<AdjustmentMode, string> = {
+  add: 'Add',
+  remove: 'Remove',
+  set: 'Set to',
+};
+
+// Reason pre-selected when switching mode; the admin can still pick another
+const SUGGESTED_REASONS: Record<AdjustmentMode, StockMovementReason> = {
+  add: 'purchase',
+  remove: 'wastage',
+  set: 'correction',
+};
+
+interface StockAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productName: string;
+  variant: ProductVariant | null;
+  onSuccess?: () => void;
+}
+
+export default function StockAdjustmentDialog({
+  open,
+  onOpenChange,
+  productName,
+  variant,
+  onSuccess,
+}: StockAdjustmentDialogProps) {
+  const [mode, setMode] = useState<AdjustmentMode>('add');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState<StockMovementReason | ''>('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setMode('add');
+    setAmount('');
+    setReason('');
+    setNote('');
+  }, [open, variant?.id]);
+
+  const current = variant?.quantity ?? 0;
+  const unit = variant?.stock_unit ?? 'pack';
+  const amountPattern = isWholeStockUnit(unit) ? /^\d+$/ : /^\d+(\.\d{1,3})?$/;
+  const parsedAmount = amountPattern.test(amount.trim()) ? Number(amount.trim()) : null;
+  // Round to grams so 0.1 + 0.2 style float noise never reaches the preview
+  const preview =
+    parsedAmount === null
+      ? null
+      : Math.round(
+        (mode === 'add' ? current + parsedAmount : mode === 'remove' ? current - parsedAmount : parsedAmount) * 1000
+      ) / 1000;
+
+  const amountError =
+    amount.trim() === ''
+      ? null
+      : parsedAmount === null || (mode !== 'set' && parsedAmount === 0)
+        ? isWholeStockUnit(unit)
+          ? 'Enter a whole number greater than 0'
+          : 'Enter a weight in kg greater than 0 (up to 3 decimals)'
+        : preview !== null && preview < 0
+          ? `Only ${formatStockQuantity(current, unit)} in stock`
+          : null;
+
+  const canSubmit = Boolean(variant) && parsedAmount !== null && !amountError && reason !== '' && preview !== current;
+
+  const handleModeChange = (value: string) => {
+    const next = value as AdjustmentMode;
+    setMode(next);
+    setReason((prev) => (prev === '' || prev === SUGGESTED_REASONS[mode] ? SUGGESTED_REASONS[next] : prev));
+  };
+
+  const handleSubmit = async () => {
+    if (!variant || !canSubmit || parsedAmount === null) return;
+
+    try {
+      setSaving(true);
+
+      const { data, error } = await supabase.rpc('adjust_variant_stock', {
+        p_variant_id: variant.id,
+        p_mode: mode,
+        p_quantity: parsedAmount,
+        p_reason: reason,
+        p_note: note,
+      });
+
+      if (error) throw error;
+
+      const updated = data as ProductVariant | null;
+      toast({
+        title: 'Stock updated',
+        description: `${productName} (${variant.variant_value}) now has ${formatStockQuantity(updated?.quantity ?? preview ?? current, unit)} in stock.`,
+      });
+
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to update stock.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            {variant ? `${productName} • ${variant.variant_value} (${variant.sku})` : productName}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <Tabs value={mode} onValueChange={handleModeChange}>
+            <TabsList className="grid w-full grid-cols-3">
+              {(Object.keys(MODE_LABELS) as AdjustmentMode[]).map((value) => (
+                <TabsTrigger key={value} value={value} disabled={saving}>
+                  {MODE_LABELS[value]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="grid gap-2">
+            <Label htmlFor="adjust-amount">
+              {mode === 'set' ? 'Counted quantity' : mode === 'add' ? 'Quantity to add' : 'Quantity to remove'}
+              {unit === 'kg' ? ' (kg)' : ` (${unit}s)`}
+            </Label>
+            <Input
+              id="adjust-amount"
+              type="number"
+              min={mode === 'set' ? 0 : 1}
+              step={stockQuantityStep(unit)}
+              inputMode={isWholeStockUnit(unit) ? 'numeric' : 'decimal'}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              placeholder={unit === 'kg' ? 'e.g. 2.5' : mode === 'set' ? 'e.g. 40' : 'e.g. 5'}
+              disabled={saving}
+              autoFocus
+            />
+            {amountError && <p className="text-sm font-medium text-destructive">{amountError}</p>}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="adjust-reason">Reason</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as StockMovementReason)}
+              disabled={saving}
+            >
+              <SelectTrigger id="adjust-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {STOCK_MOVEMENT_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {STOCK_MOVEMENT_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="adjust-note">Note</Label>
+            <Input
+              id="adjust-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional, e.g. supplier bill no."
+              maxLength={200}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-[var(--radius)] border border-border bg-muted/40 px-3 py-2 text-sm">
+            <span className="text-muted-foreground">Current {formatStockQuantity(current, unit)}</span>
+            <span>
+              New quantity{' '}
+              <span className={`font-semibold ${preview !== null && preview < 0 ? 'text-destructive' : ''}`}>
+                {preview === null ? '—' : formatStockQuantity(preview, unit)}
+              </span>
+            </span>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={saving || !canSubmit}>
+            {saving ? 'Updating...' : 'Apply Adjustment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase, ProductVariant, StockUnit } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { formatStockQuantity, isLowStock } from '@/lib/stock';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell } from 'lucide-react';
+
+const STORAGE_KEY = 'shreeji-stock-alerts';
+const MAX_ALERTS = 50;
+
+type StockAlert = {
+  id: string;
+  variantId: string;
+  productName: string;
+  variantValue: string;
+  sku: string;
+  quantity: number;
+  stockUnit?: StockUnit; // missing on alerts saved before stock units existed
+  reorderLevel: number;
+  reorderQuantity: number | null;
+  createdAt: string;
+  read: boolean;
+};
+
+type StockLevel = Pick<ProductVariant, 'quantity' | 'reorder_level'>;
+
+const loadAlerts = (): StockAlert[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export default function StockAlertsFeed() {
+  const [alerts, setAlerts] = useState<StockAlert[]>(loadAlerts);
+  const levelsRef = useRef<Map<string, StockLevel>>(new Map());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+  }, [alerts]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    // Last known level per variant, so an update can be compared with what came before
+    const seedLevels = async () => {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('id, quantity, reorder_level');
+
+      if (error) {
+        console.error('Failed to load stock levels:', error);
+        return;
+      }
+      if (!isMounted) return;
+
+      (data ?? []).forEach((row: { id: string } & StockLevel) => {
+        levelsRef.current.set(row.id, { quantity: row.quantity, reorder_level: row.reorder_level });
+      });
+    };
+
+    const raiseAlert = async (variant: ProductVariant) => {
+      const { data } = await supabase
+        .from('product')
+        .select('name')
+        .eq('id', variant.product_id)
+        .maybeSingle();
+
+      const alert: StockAlert = {
+        id: `${variant.id}-${Date.now()}`,
+        variantId: variant.id,
+        productName: data?.name ?? 'Unknown item',
+        variantValue: variant.variant_value,
+        sku: variant.sku,
+        quantity: variant.quantity,
+        stockUnit: variant.stock_unit,
+        reorderLevel: variant.reorder_level,
+        reorderQuantity: variant.reorder_quantity,
+        createdAt: new Date().toISOString(),
+        read: false,
+      };
+
+      if (!isMounted) return;
+
+      setAlerts((prev) => [alert, ...prev].slice(0, MAX_ALERTS));
+      toast({
+        variant: alert.quantity === 0 ? 'destructive' : 'default',
+        title: alert.quantity === 0 ? 'Out of stock' : 'Low stock',
+        description: `${alert.productName} (${alert.variantValue}) is down to ${formatStockQuantity(alert.quantity, alert.stockUnit)}.`,
+      });
+    };
+
+    seedLevels();
+
+    const alertsChannel = supabase
+      .channel('stock_alerts_admin')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_variants' },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removed = payload.old as { id?: string };
+            if (removed.id) {
+              levelsRef.current.delete(removed.id);
+            }
+            return;
+          }
+
+          const next = payload.new as ProductVariant;
+          const previous = levelsRef.current.get(next.id);
+          levelsRef.current.set(next.id, { quantity: next.quantity, reorder_level: next.reorder_level });
+
+          // Alert only when the variant crosses its threshold, not on every sale below it
+          if (previous && !isLowStock(previous) && isLowStock(next)) {
+            raiseAlert(next);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isMounted = false;
+      alertsChannel.unsubscribe();
+    };
+  }, [toast]);
+
+  const unreadCount = alerts.filter((alert) => !alert.read).length;
+
+  const markAllRead = () => {
+    setAlerts((prev) => prev.map((alert) => (alert.read ? alert : { ...alert, read: true })));
+  };
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (!open) markAllRead();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative border-border"
+          aria-label={unreadCount > 0 ? `${unreadCount} new stock alerts` : 'Stock alerts'}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-1.5 -top-1.5 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-3">
+          <p className="text-sm font-semibold">Stock Alerts</p>
+          {alerts.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setAlerts([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {alerts.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-muted-foreground">
+            No alerts yet. Variants that drop to their reorder level show up here.
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className={`border-b border-border px-4 py-3 last:border-b-0 ${alert.read ? '' : 'bg-primary/5'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium">
+                    {alert.productName} <span className="text-muted-foreground">• {alert.variantValue}</span>
+                  </p>
+                  <span className={`text-xs font-semibold ${alert.quantity === 0 ? 'text-destructive' : 'text-amber-600'}`}>
+                    {alert.quantity === 0 ? 'Out' : formatStockQuantity(alert.quantity, alert.stockUnit)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {alert.reorderLevel > 0 ? `Reorder level ${alert.reorderLevel}` : 'Sold out'}
+                  {alert.reorderQuantity ? ` • order ${alert.reorderQuantity}` : ''}
+                  {' • '}
+                  {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
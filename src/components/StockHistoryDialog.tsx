@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase, ProductVariant, StockMovement } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimestamp } from '@/lib/catalog';
+import { getStoreDateKey, getStoreMonthBounds } from '@/lib/store-hours';
+import {
+  STOCK_MOVEMENT_REASONS,
+  STOCK_MOVEMENT_REASON_BADGE_VARIANTS,
+  STOCK_MOVEMENT_REASON_LABELS,
+  formatStockQuantity,
+} from '@/lib/stock';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface StockHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productName: string;
+  variant: ProductVariant | null;
+}
+
+// Rounded to grams so summed kg movements do not show float noise
+const formatAmount = (value: number) => new Intl.NumberFormat('en-IN', { maximumFractionDigits: 3 }).format(value);
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${formatAmount(delta)}` : formatAmount(delta));
+
+export default function StockHistoryDialog({ open, onOpenChange, productName, variant }: StockHistoryDialogProps) {
+  const [month, setMonth] = useState(() => getStoreDateKey().slice(0, 7));
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setMonth(getStoreDateKey().slice(0, 7));
+    }
+  }, [open, variant?.id]);
+
+  useEffect(() => {
+    if (!open || !variant || !month) return;
+
+    let isMounted = true;
+
+    const fetchMovements = async () => {
+      try {
+        setLoading(true);
+        const { from, to } = getStoreMonthBounds(month);
+
+        const { data, error } = await supabase
+          .from('stock_movements')
+          .select('*, orders(order_number)')
+          .eq('variant_id', variant.id)
+          .gte('created_at', from)
+          .lt('created_at', to)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        if (!isMounted) return;
+
+        setMovements((data ?? []) as StockMovement[]);
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to load stock history',
+        });
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchMovements();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, variant, month, toast]);
+
+  // Month-end reconciliation: opening + movements = closing
+  const summary = useMemo(() => {
+    if (movements.length === 0) return null;
+
+    const net = movements.reduce((sum, movement) => sum + movement.delta, 0);
+    const closing = movements[0].quantity_after;
+    const byReason = STOCK_MOVEMENT_REASONS.map((reason) => ({
+      reason,
+      total: movements
+        .filter((movement) => movement.reason === reason)
+        .reduce((sum, movement) => sum + movement.delta, 0),
+    })).filter((entry) => entry.total !== 0);
+
+    return { opening: closing - net, closing, byReason };
+  }, [movements]);
+
+  const describeSource = (movement: StockMovement) => {
+    if (movement.orders?.order_number) return movement.orders.order_number;
+    if (!movement.created_by) return 'System';
+    return movement.created_by === profile?.id ? 'You' : 'Admin';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History</DialogTitle>
+          <DialogDescription>
+            {variant
+              ? `${productName} • ${variant.variant_value} (${variant.sku}) — ${formatStockQuantity(variant.quantity, variant.stock_unit)} in stock`
+              : productName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <Input
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="h-9 w-full sm:w-44"
+            aria-label="Month"
+          />
+          {summary && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              <span>
+                Opening <span className="font-semibold">{formatAmount(summary.opening)}</span>
+              </span>
+              {summary.byReason.map((entry) => (
+                <span key={entry.reason} className="text-muted-foreground">
+                  {STOCK_MOVEMENT_REASON_LABELS[entry.reason]} {formatDelta(entry.total)}
+                </span>
+              ))}
+              <span>
+                Closing <span className="font-semibold">{formatAmount(summary.closing)}</span>
+              </span>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading stock history...</div>
+        ) : movements.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No stock movements this month</div>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                      {formatTimestamp(movement.created_at)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STOCK_MOVEMENT_REASON_BADGE_VARIANTS[movement.reason]}>
+                        {STOCK_MOVEMENT_REASON_LABELS[movement.reason]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${movement.delta < 0 ? 'text-destructive' : 'text-emerald-600'}`}
+                    >
+                      {formatDelta(movement.delta)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(movement.quantity_after)}</TableCell>
+                    <TableCell className="max-w-[14rem] truncate text-sm text-muted-foreground" title={movement.note ?? undefined}>
+                      {movement.note ?? '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeSource(movement)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
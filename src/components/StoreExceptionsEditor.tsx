@@ -0,0 +1,327 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase, StoreHoursException } from '@/lib/supabase';
+import type { TablesInsert } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatHoursRange, getStoreDateKey } from '@/lib/store-hours';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+type DraftException = {
+  is_closed: boolean;
+  open_time: string; // 'HH:MM'
+  close_time: string;
+  note: string;
+};
+
+const DEFAULT_DRAFT: DraftException = {
+  is_closed: true,
+  open_time: '08:30',
+  close_time: '21:30',
+  note: '',
+};
+
+interface StoreExceptionsEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export default function StoreExceptionsEditor({ open, onOpenChange, onSuccess }: StoreExceptionsEditorProps) {
+  const [exceptions, setExceptions] = useState<StoreHoursException[]>([]);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [draft, setDraft] = useState<DraftException>(DEFAULT_DRAFT);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const todayKey = getStoreDateKey();
+  const selectedKey = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : null;
+  const existing = exceptions.find((entry) => entry.exception_date === selectedKey) ?? null;
+
+  const fetchExceptions = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('store_hours_exceptions')
+        .select('*')
+        .gte('exception_date', todayKey)
+        .order('exception_date', { ascending: true });
+
+      if (error) throw error;
+
+      setExceptions((data ?? []) as StoreHoursException[]);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load closures',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSelectedDate(undefined);
+    fetchExceptions();
+  }, [open]);
+
+  useEffect(() => {
+    setDraft(
+      existing
+        ? {
+          is_closed: existing.is_closed,
+          open_time: existing.open_time?.slice(0, 5) ?? DEFAULT_DRAFT.open_time,
+          close_time: existing.close_time?.slice(0, 5) ?? DEFAULT_DRAFT.close_time,
+          note: existing.note ?? '',
+        }
+        : DEFAULT_DRAFT
+    );
+  }, [selectedKey, existing]);
+
+  const { closedDates, customDates } = useMemo(
+    () => ({
+      closedDates: exceptions.filter((entry) => entry.is_closed).map((entry) => parseISO(entry.exception_date)),
+      customDates: exceptions.filter((entry) => !entry.is_closed).map((entry) => parseISO(entry.exception_date)),
+    }),
+    [exceptions]
+  );
+
+  const isInvalid = !draft.is_closed && (!draft.open_time || !draft.close_time || draft.close_time <= draft.open_time);
+
+  const applySchedule = async () => {
+    // Apply today's change right away instead of waiting for the next cron tick
+    const { error } = await supabase.rpc('apply_store_schedule');
+    if (error) {
+      console.error('Failed to apply store schedule:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedKey) return;
+
+    if (isInvalid) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid hours',
+        description: 'Closing time must be after opening time.',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.from('store_hours_exceptions').upsert(
+        {
+          exception_date: selectedKey,
+          is_closed: draft.is_closed,
+          open_time: draft.is_closed ? null : draft.open_time,
+          close_time: draft.is_closed ? null : draft.close_time,
+          note: draft.note.trim() || null,
+          updated_by: profile?.id ?? null,
+        } satisfies TablesInsert<'store_hours_exceptions'>,
+        { onConflict: 'exception_date' }
+      );
+
+      if (error) throw error;
+
+      if (selectedKey === todayKey) {
+        await applySchedule();
+      }
+
+      toast({
+        title: 'Calendar updated',
+        description: `${format(selectedDate!, 'EEE, d MMM yyyy')}: ${draft.is_closed ? 'closed all day' : formatHoursRange(draft)}.`,
+      });
+
+      await fetchExceptions();
+      onSuccess?.();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to save closure',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!selectedKey || !existing) return;
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase
+        .from('store_hours_exceptions')
+        .delete()
+        .eq('exception_date', selectedKey);
+
+      if (error) throw error;
+
+      if (selectedKey === todayKey) {
+        await applySchedule();
+      }
+
+      toast({
+        title: 'Calendar updated',
+        description: `${format(selectedDate!, 'EEE, d MMM yyyy')} follows the weekly schedule again.`,
+      });
+
+      await fetchExceptions();
+      onSuccess?.();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to remove closure',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Holidays &amp; Special Hours</DialogTitle>
+          <DialogDescription>
+            Pick a date to close the store for the day or run different hours. Dates listed here override the
+            weekly schedule, and the note is shown to customers.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-[auto_1fr]">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={setSelectedDate}
+            disabled={{ before: parseISO(todayKey) }}
+            modifiers={{ closed: closedDates, custom: customDates }}
+            modifiersClassNames={{
+              closed: 'text-destructive font-semibold underline',
+              custom: 'text-emerald-600 font-semibold underline',
+            }}
+            className="rounded-[var(--radius)] border border-border"
+          />
+          <div className="space-y-4">
+            {!selectedDate ? (
+              <p className="text-sm text-muted-foreground">
+                Select a date on the calendar. Red dates are closed, green dates have special hours.
+              </p>
+            ) : (
+              <>
+                <div>
+                  <p className="font-medium">{format(selectedDate, 'EEEE, d MMMM yyyy')}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {existing ? 'Overrides the weekly schedule' : 'Follows the weekly schedule'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    size="sm"
+                    id="exception-closed"
+                    checked={draft.is_closed}
+                    onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, is_closed: checked }))}
+                    disabled={saving}
+                  />
+                  <Label htmlFor="exception-closed">Closed all day</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={draft.open_time}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, open_time: e.target.value }))}
+                    disabled={saving || draft.is_closed}
+                    aria-label="Opening time"
+                    className={`h-8 ${isInvalid ? 'border-destructive' : ''}`}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    value={draft.close_time}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, close_time: e.target.value }))}
+                    disabled={saving || draft.is_closed}
+                    aria-label="Closing time"
+                    className={`h-8 ${isInvalid ? 'border-destructive' : ''}`}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="exception-note">Note for customers</Label>
+                  <Input
+                    id="exception-note"
+                    placeholder="e.g. Closed for Diwali Padwa"
+                    value={draft.note}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, note: e.target.value }))}
+                    disabled={saving}
+                    maxLength={120}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={handleSave} disabled={saving || isInvalid}>
+                    {saving ? 'Saving...' : existing ? 'Update Date' : 'Save Date'}
+                  </Button>
+                  {existing && (
+                    <Button size="sm" variant="outline" onClick={handleRemove} disabled={saving}>
+                      Use Weekly Hours
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Upcoming</p>
+          {loading ? (
+            <div className="text-sm text-muted-foreground">Loading calendar...</div>
+          ) : exceptions.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No upcoming closures or special hours</div>
+          ) : (
+            <div className="space-y-1">
+              {exceptions.map((entry) => (
+                <button
+                  key={entry.exception_date}
+                  type="button"
+                  onClick={() => setSelectedDate(parseISO(entry.exception_date))}
+                  className={`flex w-full items-center justify-between gap-3 rounded-[var(--radius)] border px-3 py-2 text-left text-sm hover:bg-accent/50 ${entry.exception_date === selectedKey ? 'border-primary' : 'border-border'}`}
+                >
+                  <span className="font-medium">{format(parseISO(entry.exception_date), 'EEE, d MMM yyyy')}</span>
+                  <span className="flex-1 truncate text-muted-foreground">{entry.note}</span>
+                  <span className={entry.is_closed ? 'text-destructive' : 'text-emerald-600'}>
+                    {entry.is_closed
+                      ? 'Closed'
+                      : formatHoursRange({ is_closed: false, open_time: entry.open_time ?? '', close_time: entry.close_time ?? '' })}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter className="pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { supabase, StoreHours } from '@/lib/supabase';
+import type { TablesInsert } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { WEEKDAY_DISPLAY_ORDER, WEEKDAY_LABELS } from '@/lib/store-hours';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+
+type DraftHours = {
+  weekday: number;
+  is_closed: boolean;
+  open_time: string; // 'HH:MM'
+  close_time: string;
+};
+
+const DEFAULT_DRAFT: Omit<DraftHours, 'weekday'> = {
+  is_closed: false,
+  open_time: '08:30',
+  close_time: '21:30',
+};
+
+interface StoreHoursEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export default function StoreHoursEditor({ open, onOpenChange, onSuccess }: StoreHoursEditorProps) {
+  const [drafts, setDrafts] = useState<DraftHours[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    let isMounted = true;
+
+    const fetchHours = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('store_hours')
+          .select('weekday, is_closed, open_time, close_time')
+          .order('weekday', { ascending: true });
+
+        if (error) throw error;
+        if (!isMounted) return;
+
+        const rows = (data ?? []) as Pick<StoreHours, 'weekday' | 'is_closed' | 'open_time' | 'close_time'>[];
+        setDrafts(
+          WEEKDAY_DISPLAY_ORDER.map((weekday) => {
+            const row = rows.find((entry) => entry.weekday === weekday);
+            return row
+              ? {
+                weekday,
+                is_closed: row.is_closed,
+                open_time: row.open_time.slice(0, 5),
+                close_time: row.close_time.slice(0, 5),
+              }
+              : { weekday, ...DEFAULT_DRAFT };
+          })
+        );
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to load store hours',
+        });
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchHours();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, toast]);
+
+  const updateDraft = (weekday: number, changes: Partial<DraftHours>) => {
+    setDrafts((prev) =>
+      prev.map((draft) => (draft.weekday === weekday ? { ...draft, ...changes } : draft))
+    );
+  };
+
+  const invalidDays = drafts.filter(
+    (draft) => !draft.is_closed && (!draft.open_time || !draft.close_time || draft.close_time <= draft.open_time)
+  );
+
+  const handleSave = async () => {
+    if (invalidDays.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid hours',
+        description: `Closing time must be after opening time (${invalidDays
+          .map((draft) => WEEKDAY_LABELS[draft.weekday])
+          .join(', ')}).`,
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.from('store_hours').upsert(
+        drafts.map((draft): TablesInsert<'store_hours'> => ({
+          weekday: draft.weekday,
+          is_closed: draft.is_closed,
+          open_time: draft.open_time,
+          close_time: draft.close_time,
+          updated_by: profile?.id ?? null,
+        })),
+        { onConflict: 'weekday' }
+      );
+
+      if (error) throw error;
+
+      // Apply the new schedule right away instead of waiting for the next cron tick
+      const { error: applyError } = await supabase.rpc('apply_store_schedule');
+      if (applyError) {
+        console.error('Failed to apply store schedule:', applyError);
+      }
+
+      toast({
+        title: 'Store hours updated',
+        description: 'The store will open and close automatically on the new schedule.',
+      });
+
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to save store hours',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Weekly Store Hours</DialogTitle>
+          <DialogDescription>
+            Times are in India Standard Time. The store opens and closes on this schedule even when no one
+            has the dashboard open; a manual toggle lasts until the next scheduled change.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="py-4 text-sm text-muted-foreground">Loading store hours...</div>
+        ) : (
+          <div className="space-y-2">
+            {drafts.map((draft) => {
+              const isInvalid = invalidDays.includes(draft);
+
+              return (
+                <div
+                  key={draft.weekday}
+                  className={`grid grid-cols-[7rem_1fr] items-center gap-3 rounded-[var(--radius)] border px-3 py-2 sm:grid-cols-[7rem_auto_1fr] ${isInvalid ? 'border-destructive' : 'border-border'}`}
+                >
+                  <span className="text-sm font-medium">{WEEKDAY_LABELS[draft.weekday]}</span>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      size="sm"
+                      checked={!draft.is_closed}
+                      onCheckedChange={(checked) => updateDraft(draft.weekday, { is_closed: !checked })}
+                      disabled={saving}
+                      aria-label={`Open on ${WEEKDAY_LABELS[draft.weekday]}`}
+                    />
+                    <span className="w-12 text-xs text-muted-foreground">{draft.is_closed ? 'Closed' : 'Open'}</span>
+                  </div>
+                  <div className="col-span-2 flex items-center gap-2 sm:col-span-1">
+                    <Input
+                      type="time"
+                      value={draft.open_time}
+                      onChange={(e) => updateDraft(draft.weekday, { open_time: e.target.value })}
+                      disabled={saving || draft.is_closed}
+                      aria-label={`${WEEKDAY_LABELS[draft.weekday]} opening time`}
+                      className="h-8"
+                    />
+                    <span className="text-xs text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={draft.close_time}
+                      onChange={(e) => updateDraft(draft.weekday, { close_time: e.target.value })}
+                      disabled={saving || draft.is_closed}
+                      aria-label={`${WEEKDAY_LABELS[draft.weekday]} closing time`}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <DialogFooter className="pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || drafts.length === 0}>
+            {saving ? 'Saving...' : 'Save Hours'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase, Supplier } from '@/lib/supabase';
+import type { TablesInsert } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(1, 'Supplier name is required').max(120, 'Supplier name must be less than 120 characters'),
+  contact_name: z.string().trim().max(120, 'Contact name must be less than 120 characters'),
+  phone: z.string().trim().max(20, 'Phone must be less than 20 characters'),
+  email: z.string().trim().email('Enter a valid email address').or(z.literal('')),
+  address: z.string().trim().max(300, 'Address must be less than 300 characters'),
+  gstin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[0-9]{2}[A-Z0-9]{13}$/, 'GSTIN is 15 characters, e.g. 27ABCDE1234F1Z5')
+    .or(z.literal('')),
+  notes: z.string().max(500, 'Notes must be less than 500 characters'),
+});
+
+type SupplierFormData = z.infer<typeof supplierSchema>;
+
+const EMPTY_SUPPLIER: SupplierFormData = {
+  name: '',
+  contact_name: '',
+  phone: '',
+  email: '',
+  address: '',
+  gstin: '',
+  notes: '',
+};
+
+interface SupplierFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier?: Supplier | null;
+  onSuccess: () => void;
+}
+
+export default function SupplierForm({ open, onOpenChange, supplier, onSuccess }: SupplierFormProps) {
+  const [loading, setLoading] = useState(false);
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<SupplierFormData>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: EMPTY_SUPPLIER,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(
+      supplier
+        ? {
+          name: supplier.name,
+          contact_name: supplier.contact_name ?? '',
+          phone: supplier.phone ?? '',
+          email: supplier.email ?? '',
+          address: supplier.address ?? '',
+          gstin: supplier.gstin ?? '',
+          notes: supplier.notes ?? '',
+        }
+        : EMPTY_SUPPLIER
+    );
+  }, [open, supplier, form]);
+
+  const onSubmit = async (data: SupplierFormData) => {
+    try {
+      setLoading(true);
+
+      const payload: TablesInsert<'suppliers'> = {
+        name: data.name,
+        contact_name: data.contact_name || null,
+        phone: data.phone || null,
+        email: data.email || null,
+        address: data.address || null,
+        gstin: data.gstin || null,
+        notes: data.notes || null,
+        updated_by: profile?.id ?? null,
+      };
+
+      const { error } = supplier
+        ? await supabase.from('suppliers').update(payload).eq('id', supplier.id)
+        : await supabase.from('suppliers').insert([payload]);
+
+      if (error) throw error;
+
+      toast({
+        title: supplier ? 'Supplier updated' : 'Supplier added',
+        description: `${data.name} has been saved.`,
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to save supplier',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{supplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+          <DialogDescription>Wholesalers you buy stock from. Details appear on printed purchase orders.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Supplier Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Kashmir Dry Fruits Co." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="contact_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Person</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="gstin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GSTIN</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} className="resize-none" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={2}
+                      placeholder="Optional: payment terms, delivery days"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Saving...' : supplier ? 'Save Supplier' : 'Add Supplier'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
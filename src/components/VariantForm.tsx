@@ -3,8 +3,13 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase, ProductVariant } from '@/lib/supabase';
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types';
+import { STOCK_UNITS, STOCK_UNIT_LABELS, stockQuantityStep } from '@/lib/stock';
+import { checkVariantRules, variantFieldsSchema } from '@/lib/catalog-schemas';
+import { PRICING_MODES, PRICING_MODE_LABELS } from '@/lib/pricing';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useInvalidateProducts } from '@/hooks/use-products';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -16,6 +21,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -30,12 +36,16 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
-const variantSchema = z.object({
-  variant_type: z.enum(['weight', 'pcs', 'price', 'flavor', 'size']),
-  variant_value: z.string().min(1, 'Variant value is required'),
-  price: z.coerce.number().min(0, 'Price must be 0 or greater'),
-  quantity: z.coerce.number().min(0, 'Quantity must be 0 or greater'),
-});
+const variantSchema = variantFieldsSchema
+  .extend({
+    reorder_level: z.coerce.number().min(0, 'Reorder level must be 0 or greater'),
+    reorder_quantity: z.coerce.number().min(0, 'Reorder quantity must be 0 or greater'),
+    cost_price: z
+      .string()
+      .trim()
+      .refine((value) => value === '' || Number(value) >= 0, 'Cost price must be 0 or greater'),
+  })
+  .superRefine(checkVariantRules);
 
 type VariantFormData = z.infer<typeof variantSchema>;
 
@@ -45,7 +55,7 @@ interface VariantFormProps {
   itemId: string | null;
   itemName?: string;
   variant?: ProductVariant | null;
-  onSuccess: () => void;
+  onSuccess?: () => void;
 }
 
 export default function VariantForm({
@@ -59,6 +69,7 @@ export default function VariantForm({
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const { profile } = useAuth();
+  const invalidateProducts = useInvalidateProducts();
 
   const form = useForm<VariantFormData>({
     resolver: zodResolver(variantSchema),
@@ -66,10 +77,18 @@ export default function VariantForm({
       variant_type: 'weight',
       variant_value: '',
       price: 0,
+      stock_unit: 'pack',
+      pricing_mode: 'fixed',
       quantity: 0,
+      reorder_level: 0,
+      reorder_quantity: 0,
+      cost_price: '',
     },
   });
 
+  const stockUnit = form.watch('stock_unit');
+  const pricingMode = form.watch('pricing_mode');
+
   useEffect(() => {
     if (open) {
       if (variant) {
@@ -78,15 +97,37 @@ export default function VariantForm({
           variant_type: variant.variant_type,
           variant_value: variant.variant_value,
           price: variant.price,
+          stock_unit: variant.stock_unit ?? 'pack',
+          pricing_mode: variant.pricing_mode ?? 'fixed',
           quantity: variant.quantity,
+          reorder_level: variant.reorder_level ?? 0,
+          reorder_quantity: variant.reorder_quantity ?? 0,
+          cost_price: '',
         });
+
+        // Costs are admin only, so they are not part of the variant row
+        supabase
+          .from('variant_costs')
+          .select('cost_price')
+          .eq('variant_id', variant.id)
+          .maybeSingle()
+          .then(({ data }) => {
+            if (data) {
+              form.setValue('cost_price', data.cost_price.toString());
+            }
+          });
       } else {
         // Adding new variant - reset to default values
         form.reset({
           variant_type: 'weight',
           variant_value: '',
           price: 0,
+          stock_unit: 'pack',
+          pricing_mode: 'fixed',
           quantity: 0,
+          reorder_level: 0,
+          reorder_quantity: 0,
+          cost_price: '',
         });
       }
     }
@@ -104,17 +145,23 @@ export default function VariantForm({
 
     try {
       setLoading(true);
+      let variantId = variant?.id ?? null;
 
       if (variant) {
+        // Stock is left out: it only changes through adjust_variant_stock, so sales
+        // made while this dialog was open are not written over
         const { error } = await supabase
           .from('product_variants')
           .update({
             variant_type: data.variant_type,
             variant_value: data.variant_value,
             price: data.price,
-            quantity: data.quantity,
+            stock_unit: data.stock_unit,
+            pricing_mode: data.pricing_mode,
+            reorder_level: data.reorder_level,
+            reorder_quantity: data.reorder_quantity > 0 ? data.reorder_quantity : null,
             updated_by: profile?.id ?? null,
-          })
+          } satisfies TablesUpdate<'product_variants'>)
           .eq('id', variant.id);
 
         if (error) throw error;
@@ -124,27 +171,53 @@ export default function VariantForm({
           description: 'The variant has been updated successfully.',
         });
       } else {
-        // SKU will be auto-generated by the database
-        const { error } = await supabase.from('product_variants').insert([
+        const { data: sku, error: skuError } = await supabase.rpc('generate_sku');
+
+        if (skuError) throw skuError;
+
+        const { data: inserted, error } = await supabase.from('product_variants').insert([
           {
             product_id: itemId,
+            sku,
             variant_type: data.variant_type,
             variant_value: data.variant_value,
             price: data.price,
+            stock_unit: data.stock_unit,
+            pricing_mode: data.pricing_mode,
             quantity: data.quantity,
+            reorder_level: data.reorder_level,
+            reorder_quantity: data.reorder_quantity > 0 ? data.reorder_quantity : null,
             updated_by: profile?.id ?? null,
-          },
-        ]);
+          } satisfies TablesInsert<'product_variants'>,
+        ]).select('id').single();
 
         if (error) throw error;
 
+        variantId = inserted.id;
+
         toast({
           title: 'Variant created',
           description: 'A new variant has been added.',
         });
       }
 
-      onSuccess();
+      if (variantId) {
+        const { error: costError } = data.cost_price === ''
+          ? await supabase.from('variant_costs').delete().eq('variant_id', variantId)
+          : await supabase.from('variant_costs').upsert(
+            {
+              variant_id: variantId,
+              cost_price: Number(data.cost_price),
+              updated_by: profile?.id ?? null,
+            } satisfies TablesInsert<'variant_costs'>,
+            { onConflict: 'variant_id' }
+          );
+
+        if (costError) throw costError;
+      }
+
+      invalidateProducts();
+      onSuccess?.();
       onOpenChange(false);
     } catch (error: any) {
       toast({
@@ -159,7 +232,7 @@ export default function VariantForm({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[480px]">
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{variant ? 'Edit Variant' : 'Add Variant'}</DialogTitle>
           <DialogDescription>
@@ -218,13 +291,79 @@ export default function VariantForm({
               </div>
             )}
 
+            <FormField
+              control={form.control}
+              name="stock_unit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stock Counted In</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      if (value !== 'kg') {
+                        form.setValue('pricing_mode', 'fixed');
+                      }
+                    }}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="h-12 rounded-[var(--radius)] border-2 border-border bg-background/50 px-4 py-3 text-base font-medium hover:border-primary/50 focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {STOCK_UNITS.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {STOCK_UNIT_LABELS[unit]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Use kilograms for loose stock weighed out at the counter
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {stockUnit === 'kg' && (
+              <FormField
+                control={form.control}
+                name="pricing_mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pricing</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="h-12 rounded-[var(--radius)] border-2 border-border bg-background/50 px-4 py-3 text-base font-medium hover:border-primary/50 focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/20">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PRICING_MODES.map((mode) => (
+                          <SelectItem key={mode} value={mode}>
+                            {PRICING_MODE_LABELS[mode]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Per kg lets customers pick any weight; the price below becomes the rate per kg
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="grid gap-4 sm:grid-cols-2">
               <FormField
                 control={form.control}
                 name="price"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Price (INR)</FormLabel>
+                    <FormLabel>{pricingMode === 'per_kg' ? 'Rate per kg (INR)' : 'Price (INR)'}</FormLabel>
                     <FormControl>
                       <Input type="number" min="0" step="1" {...field} />
                     </FormControl>
@@ -238,16 +377,73 @@ export default function VariantForm({
                 name="quantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Quantity</FormLabel>
+                    <FormLabel>Quantity ({stockUnit === 'kg' ? 'kg' : `${stockUnit}s`})</FormLabel>
                     <FormControl>
-                      <Input type="number" min="0" step="1" {...field} />
+                      <Input
+                        type="number"
+                        min="0"
+                        step={stockQuantityStep(stockUnit)}
+                        readOnly={Boolean(variant)}
+                        className={variant ? 'bg-muted text-muted-foreground' : undefined}
+                        {...field}
+                      />
+                    </FormControl>
+                    {variant && <FormDescription>Use Adjust Stock to change it</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="reorder_level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reorder Level</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step={stockQuantityStep(stockUnit)} {...field} />
+                    </FormControl>
+                    <FormDescription>Alert when stock falls to this level</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reorder_quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reorder Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step={stockQuantityStep(stockUnit)} {...field} />
                     </FormControl>
+                    <FormDescription>Usual order size (0 = not set)</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="cost_price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cost Price (INR)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="0.01" placeholder="Not set" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Per unit. Receiving a purchase order updates this to the weighted average cost.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end gap-3 pt-4">
               <Button
                 type="button"
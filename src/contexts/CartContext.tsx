@@ -0,0 +1,395 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { supabase, Product, ProductVariant } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { formatWeight, isSoldByWeight, MIN_LOOSE_WEIGHT_GRAMS, priceForWeight } from '@/lib/pricing';
+import { productImageSrc } from '@/lib/product-images';
+
+const CART_STORAGE_KEY = 'shreeji-cart';
+
+export interface CartItem {
+  lineId: string; // the variant id, plus the weight for loose items
+  variantId: string;
+  productId: string;
+  productName: string;
+  imageUrl: string | null;
+  variantType: ProductVariant['variant_type'];
+  variantValue: string;
+  sku: string;
+  unitPrice: number;
+  quantity: number;
+  weightGrams: number | null; // weight of each unit for items sold per kg
+  stock: number;
+}
+
+// Latest known state of a variant, as reported by a fetch or a realtime payload
+type VariantSnapshot = {
+  price?: number;
+  quantity?: number;
+  pricingMode?: ProductVariant['pricing_mode'];
+  isVisible?: boolean;
+  deleted?: boolean;
+};
+
+interface CartContextType {
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  isOpen: boolean;
+  setOpen: (open: boolean) => void;
+  addItem: (product: Product, variant: ProductVariant, quantity: number, weightGrams?: number | null) => number;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  removeItem: (lineId: string) => void;
+  clearCart: () => void;
+  getQuantity: (variantId: string) => number;
+  getMaxQuantity: (lineId: string) => number;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+const loadStoredCart = (): CartItem[] => {
+  try {
+    if (typeof window === 'undefined') return [];
+    const stored = localStorage.getItem(CART_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    // Carts saved before loose items have neither a line id nor a weight
+    return (parsed as CartItem[]).map((item) => ({
+      ...item,
+      lineId: item.lineId ?? item.variantId,
+      weightGrams: item.weightGrams ?? null,
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const cartLineId = (variantId: string, weightGrams: number | null) =>
+  weightGrams ? `${variantId}:${weightGrams}` : variantId;
+
+// Stock is compared in thousandths so grams of loose stock add up exactly
+const toMilli = (quantity: number) => Math.round(quantity * 1000);
+
+const stockPerUnit = (item: Pick<CartItem, 'weightGrams'>) => item.weightGrams ?? 1000;
+
+const heldStock = (items: CartItem[], variantId: string, exceptLineId?: string) =>
+  items
+    .filter((item) => item.variantId === variantId && item.lineId !== exceptLineId)
+    .reduce((sum, item) => sum + item.quantity * stockPerUnit(item), 0);
+
+// Most units a line can hold once the variant's other lines are accounted for
+const lineCapacity = (
+  items: CartItem[],
+  line: Pick<CartItem, 'lineId' | 'variantId' | 'weightGrams'>,
+  stock: number
+) =>
+  Math.max(Math.floor((toMilli(stock) - heldStock(items, line.variantId, line.lineId)) / stockPerUnit(line)), 0);
+
+const describeLine = (item: CartItem) =>
+  `${item.productName} (${item.weightGrams ? formatWeight(item.weightGrams) : item.variantValue})`;
+
+// Apply the latest variant state to the cart, returning the new lines plus
+// a customer-facing note for every line that changed.
+const reconcileItems = (items: CartItem[], snapshots: Map<string, VariantSnapshot>) => {
+  const notices: string[] = [];
+  const next: CartItem[] = [];
+
+  items.forEach((item) => {
+    const snapshot = snapshots.get(item.variantId);
+    if (!snapshot) {
+      next.push(item);
+      return;
+    }
+
+    const label = describeLine(item);
+
+    if (snapshot.deleted || snapshot.isVisible === false) {
+      notices.push(`${label} is no longer available and was removed.`);
+      return;
+    }
+
+    if (snapshot.pricingMode && (snapshot.pricingMode === 'per_kg') !== (item.weightGrams !== null)) {
+      notices.push(`${label} is now sold differently and was removed.`);
+      return;
+    }
+
+    let updated = item;
+
+    if (typeof snapshot.price === 'number') {
+      const unitPrice = item.weightGrams ? priceForWeight(snapshot.price, item.weightGrams) : snapshot.price;
+      if (unitPrice !== item.unitPrice) {
+        notices.push(
+          item.weightGrams
+            ? `The rate of ${item.productName} changed to ₹${snapshot.price}/kg.`
+            : `The price of ${label} changed to ₹${snapshot.price}.`
+        );
+        updated = { ...updated, unitPrice };
+      }
+    }
+
+    if (typeof snapshot.quantity === 'number') {
+      const stock = Math.max(snapshot.quantity, 0);
+      const capacity = lineCapacity(next, updated, stock);
+      if (capacity === 0) {
+        notices.push(`${label} is out of stock and was removed.`);
+        return;
+      }
+      if (updated.quantity > capacity) {
+        notices.push(`Only ${capacity} of ${label} left; your cart was updated.`);
+        updated = { ...updated, quantity: capacity };
+      }
+      if (updated.stock !== stock) {
+        updated = { ...updated, stock };
+      }
+    }
+
+    next.push(updated);
+  });
+
+  return { next, notices };
+};
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = useState<CartItem[]>(loadStoredCart);
+  const [isOpen, setOpen] = useState(false);
+  const itemsRef = useRef(items);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    itemsRef.current = items;
+    try {
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+    } catch {
+      // ignore
+    }
+  }, [items]);
+
+  const applySnapshots = useCallback(
+    (snapshots: Map<string, VariantSnapshot>) => {
+      const { next, notices } = reconcileItems(itemsRef.current, snapshots);
+      if (notices.length === 0 && next.every((item, index) => item === itemsRef.current[index])) {
+        return;
+      }
+
+      itemsRef.current = next;
+      setItems(next);
+
+      if (notices.length > 0) {
+        toast({
+          title: 'Cart updated',
+          description: notices.join(' '),
+        });
+      }
+    },
+    [toast]
+  );
+
+  // Validate the stored cart against the catalog once on load
+  useEffect(() => {
+    const variantIds = itemsRef.current.map((item) => item.variantId);
+    if (variantIds.length === 0) return;
+
+    const validateCart = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('product_variants')
+          .select('id, price, quantity, pricing_mode, product(is_visible)')
+          .in('id', variantIds);
+
+        if (error) throw error;
+
+        const rows = (data ?? []) as unknown as {
+          id: string;
+          price: number;
+          quantity: number;
+          pricing_mode: ProductVariant['pricing_mode'];
+          product: { is_visible: boolean } | null;
+        }[];
+        const snapshots = new Map<string, VariantSnapshot>();
+        variantIds.forEach((id) => snapshots.set(id, { deleted: true }));
+        rows.forEach((row) => {
+          snapshots.set(row.id, {
+            price: row.price,
+            quantity: row.quantity,
+            pricingMode: row.pricing_mode,
+            isVisible: row.product?.is_visible ?? false,
+          });
+        });
+
+        applySnapshots(snapshots);
+      } catch (error) {
+        console.error('Failed to validate cart:', error);
+      }
+    };
+
+    validateCart();
+  }, [applySnapshots]);
+
+  useEffect(() => {
+    const cartChannel = supabase
+      .channel('cart_changes_public')
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'product_variants' },
+        (payload) => {
+          const next = (payload.new as Partial<ProductVariant>) || {};
+          if (!next.id) return;
+          applySnapshots(
+            new Map([[next.id, { price: next.price, quantity: next.quantity, pricingMode: next.pricing_mode }]])
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'product_variants' },
+        (payload) => {
+          const previous = (payload.old as { id?: string }) || {};
+          if (!previous.id) return;
+          applySnapshots(new Map([[previous.id, { deleted: true }]]));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product' },
+        (payload) => {
+          const isDelete = payload.eventType === 'DELETE';
+          const row = ((isDelete ? payload.old : payload.new) as { id?: string; is_visible?: boolean }) || {};
+          if (!row.id || (!isDelete && row.is_visible !== false)) return;
+
+          const snapshots = new Map<string, VariantSnapshot>();
+          itemsRef.current
+            .filter((item) => item.productId === row.id)
+            .forEach((item) => snapshots.set(item.variantId, { isVisible: false }));
+
+          if (snapshots.size > 0) {
+            applySnapshots(snapshots);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cartChannel.unsubscribe();
+    };
+  }, [applySnapshots]);
+
+  // Stock held in the cart for a variant, in its stock unit (kg for loose items)
+  const getQuantity = useCallback(
+    (variantId: string) => heldStock(items, variantId) / 1000,
+    [items]
+  );
+
+  const getMaxQuantity = useCallback(
+    (lineId: string) => {
+      const item = items.find((line) => line.lineId === lineId);
+      return item ? lineCapacity(items, item, item.stock) : 0;
+    },
+    [items]
+  );
+
+  // Returns how many units were actually added after capping by stock
+  const addItem = useCallback(
+    (product: Product, variant: ProductVariant, quantity: number, weightGrams: number | null = null) => {
+      const weight = isSoldByWeight(variant) ? weightGrams : null;
+      if (isSoldByWeight(variant) && (!weight || weight < MIN_LOOSE_WEIGHT_GRAMS)) {
+        return 0;
+      }
+
+      const lineId = cartLineId(variant.id, weight);
+      const current = itemsRef.current.find((item) => item.lineId === lineId);
+      const inCart = current?.quantity ?? 0;
+      const stock = Math.max(variant.quantity, 0);
+      const capacity = lineCapacity(itemsRef.current, { lineId, variantId: variant.id, weightGrams: weight }, stock);
+      const nextQuantity = Math.min(inCart + Math.max(quantity, 0), capacity);
+      const added = nextQuantity - inCart;
+
+      if (added <= 0) {
+        return 0;
+      }
+
+      const unitPrice = weight ? priceForWeight(variant.price, weight) : variant.price;
+      const nextItems = current
+        ? itemsRef.current.map((item) =>
+          item.lineId === lineId
+            ? { ...item, quantity: nextQuantity, unitPrice, stock }
+            : item
+        )
+        : [
+          ...itemsRef.current,
+          {
+            lineId,
+            variantId: variant.id,
+            productId: product.id,
+            productName: product.name,
+            imageUrl: productImageSrc(product, 'thumb'),
+            variantType: variant.variant_type,
+            variantValue: variant.variant_value,
+            sku: variant.sku,
+            unitPrice,
+            quantity: nextQuantity,
+            weightGrams: weight,
+            stock,
+          },
+        ];
+
+      itemsRef.current = nextItems;
+      setItems(nextItems);
+      return added;
+    },
+    []
+  );
+
+  const updateQuantity = useCallback((lineId: string, quantity: number) => {
+    setItems((prev) =>
+      prev
+        .map((item) =>
+          item.lineId === lineId
+            ? { ...item, quantity: Math.min(Math.max(Math.floor(quantity), 0), lineCapacity(prev, item, item.stock)) }
+            : item
+        )
+        .filter((item) => item.quantity > 0)
+    );
+  }, []);
+
+  const removeItem = useCallback((lineId: string) => {
+    setItems((prev) => prev.filter((item) => item.lineId !== lineId));
+  }, []);
+
+  const clearCart = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  const itemCount = useMemo(() => items.reduce((sum, item) => sum + item.quantity, 0), [items]);
+  const subtotal = useMemo(
+    () => items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+    [items]
+  );
+
+  return (
+    <CartContext.Provider
+      value={{
+        items,
+        itemCount,
+        subtotal,
+        isOpen,
+        setOpen,
+        addItem,
+        updateQuantity,
+        removeItem,
+        clearCart,
+        getQuantity,
+        getMaxQuantity,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+}
+
+export function useCart() {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+}
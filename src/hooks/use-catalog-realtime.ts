@@ -0,0 +1,97 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Product } from '@/lib/supabase';
+import { applyCatalogChanges, CatalogChange, CatalogTable } from '@/lib/catalog-sync';
+import { PRODUCTS_QUERY_KEY } from '@/hooks/use-products';
+
+// Events arriving within this window are applied as one cache update
+const FLUSH_DELAY_MS = 250;
+
+// Full refetch now and then, in case an event was dropped
+const RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Patches the cached catalog from realtime payloads instead of refetching on every event
+export function useCatalogRealtime(
+  channelName: string,
+  { onFlush }: { onFlush?: (changes: CatalogChange[]) => void } = {}
+) {
+  const queryClient = useQueryClient();
+  const onFlushRef = useRef(onFlush);
+
+  useEffect(() => {
+    onFlushRef.current = onFlush;
+  }, [onFlush]);
+
+  useEffect(() => {
+    let pending: CatalogChange[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let subscribedBefore = false;
+
+    const resync = () => queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+
+    const flush = () => {
+      flushTimer = null;
+      const changes = pending;
+      pending = [];
+
+      const cached = queryClient.getQueryData<Product[]>(PRODUCTS_QUERY_KEY);
+
+      // A fetch still in flight may predate these events, so start it over instead
+      if (!cached || queryClient.isFetching({ queryKey: PRODUCTS_QUERY_KEY }) > 0) {
+        resync();
+      } else {
+        const { products, complete } = applyCatalogChanges(cached, changes);
+        queryClient.setQueryData<Product[]>(PRODUCTS_QUERY_KEY, products);
+
+        if (!complete) {
+          resync();
+        }
+      }
+
+      onFlushRef.current?.(changes);
+    };
+
+    // The window is not extended by later events, so a long bulk edit still shows progress
+    const enqueue = (table: CatalogTable) => (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+      pending.push({ table, eventType: payload.eventType, new: payload.new, old: payload.old });
+
+      if (flushTimer === null) {
+        flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+      }
+    };
+
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'product' }, enqueue('product'))
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_variants' },
+        enqueue('product_variants')
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_images' },
+        enqueue('product_images')
+      )
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+
+        // Events sent while the socket was down are lost, so catch up after a reconnect
+        if (subscribedBefore) {
+          resync();
+        }
+        subscribedBefore = true;
+      });
+
+    const resyncInterval = setInterval(resync, RESYNC_INTERVAL_MS);
+
+    return () => {
+      if (flushTimer !== null) {
+        clearTimeout(flushTimer);
+      }
+      clearInterval(resyncInterval);
+      channel.unsubscribe();
+    };
+  }, [channelName, queryClient]);
+}
@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, Category } from '@/lib/supabase';
+import type { TablesInsert } from '@/lib/database.types';
+import { PRODUCTS_QUERY_KEY } from '@/hooks/use-products';
+
+export const CATEGORIES_QUERY_KEY = ['categories'] as const;
+
+const fetchCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('category')
+    .select('id, name, description')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []) as Category[];
+};
+
+export function useCategories() {
+  return useQuery({
+    queryKey: CATEGORIES_QUERY_KEY,
+    queryFn: fetchCategories,
+    meta: { errorMessage: 'Failed to load categories' },
+  });
+}
+
+export function useCreateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, description }: { name: string; description?: string | null }) => {
+      // Category names are stored lowercase
+      const { data, error } = await supabase
+        .from('category')
+        .insert([{ name: name.toLowerCase(), description } satisfies TablesInsert<'category'>])
+        .select('id, name, description')
+        .single();
+
+      if (error) throw error;
+
+      return data as Category;
+    },
+    onSuccess: (category) => {
+      queryClient.setQueryData<Category[]>(CATEGORIES_QUERY_KEY, (categories) =>
+        categories
+          ? [...categories, category].sort((a, b) => a.name.localeCompare(b.name))
+          : categories
+      );
+    },
+  });
+}
+
+// Products in a deleted category are left uncategorised, so the catalog is reloaded too
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (category: Category) => {
+      const { error } = await supabase.from('category').delete().eq('id', category.id);
+
+      if (error) throw error;
+    },
+    onMutate: async (category) => {
+      await queryClient.cancelQueries({ queryKey: CATEGORIES_QUERY_KEY });
+      const previous = queryClient.getQueryData<Category[]>(CATEGORIES_QUERY_KEY);
+      queryClient.setQueryData<Category[]>(CATEGORIES_QUERY_KEY, (categories) =>
+        categories?.filter((existing) => existing.id !== category.id)
+      );
+      return { previous };
+    },
+    onError: (_error, _category, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(CATEGORIES_QUERY_KEY, context.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, PriceList } from '@/lib/supabase';
+import { PRODUCTS_QUERY_KEY } from '@/hooks/use-products';
+
+export const PRICE_LISTS_QUERY_KEY = ['price-lists'] as const;
+export const ACTIVE_PRICE_LIST_QUERY_KEY = ['price-lists', 'active'] as const;
+
+// Admins only; customers can read just the live list
+export function usePriceLists({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: PRICE_LISTS_QUERY_KEY,
+    queryFn: async (): Promise<PriceList[]> => {
+      const { data, error } = await supabase
+        .from('price_lists')
+        .select('*, price_list_items(*)')
+        .order('starts_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data ?? []) as PriceList[];
+    },
+    enabled,
+    meta: { errorMessage: 'Failed to load price lists' },
+  });
+}
+
+// The list whose prices are live in the catalog, for the storefront banner
+export function useActivePriceList({ refetchInterval }: { refetchInterval?: number } = {}) {
+  return useQuery({
+    queryKey: ACTIVE_PRICE_LIST_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('price_lists')
+        .select('id, name, starts_at, ends_at')
+        .eq('is_applied', true)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data;
+    },
+    refetchInterval,
+    meta: { errorMessage: 'Failed to load festival prices' },
+  });
+}
+
+// Saving can switch prices straight away, so the catalog is reloaded too
+export function useSavePriceList() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      name,
+      startsAt,
+      endsAt,
+      prices,
+    }: {
+      id: string | null;
+      name: string;
+      startsAt: string;
+      endsAt: string;
+      prices: { variant_id: string; price: number }[];
+    }) => {
+      const { data, error } = await supabase.rpc('save_price_list', {
+        p_price_list_id: id,
+        p_name: name,
+        p_starts_at: startsAt,
+        p_ends_at: endsAt,
+        p_items: prices,
+      });
+
+      if (error) throw error;
+
+      return data as PriceList;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_LISTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+    },
+  });
+}
+
+// Deleting a live list puts the regular prices back (see the festival_price_lists migration)
+export function useDeletePriceList() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (list: PriceList) => {
+      const { error } = await supabase.from('price_lists').delete().eq('id', list.id);
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_LISTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,331 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, PriceChangeMode, Product, ProductImage, ProductVariant } from '@/lib/supabase';
+import type { TablesUpdate } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { CATALOG_SELECT, sortCatalog } from '@/lib/catalog-sync';
+import { removeProductImageFiles } from '@/lib/product-images';
+import { adjustPrice } from '@/lib/pricing';
+import { STOCK_MOVED_ERROR_CODE } from '@/lib/stock';
+
+// Admin and storefront pages share one copy of the catalog
+export const PRODUCTS_QUERY_KEY = ['products'] as const;
+
+type RawProduct = Omit<Product, 'variants' | 'images'> & {
+  product_variants: ProductVariant[] | null;
+  product_images: ProductImage[] | null;
+};
+
+const fetchProducts = async (): Promise<Product[]> => {
+  const { data, error } = await supabase.from('product').select(CATALOG_SELECT);
+
+  if (error) throw error;
+
+  return sortCatalog(
+    ((data ?? []) as RawProduct[]).map(({ product_variants, product_images, ...item }) => ({
+      ...item,
+      variants: Array.isArray(product_variants) ? product_variants : [],
+      images: Array.isArray(product_images) ? product_images : [],
+    }))
+  );
+};
+
+const selectVisibleProducts = (products: Product[]) => products.filter((product) => product.is_visible);
+
+export function useProducts({ visibleOnly = false }: { visibleOnly?: boolean } = {}) {
+  return useQuery({
+    queryKey: PRODUCTS_QUERY_KEY,
+    queryFn: fetchProducts,
+    select: visibleOnly ? selectVisibleProducts : undefined,
+    meta: { errorMessage: 'Failed to fetch items' },
+  });
+}
+
+// Snapshot, patch and roll back the cached catalog around a mutation
+const useOptimisticProducts = () => {
+  const queryClient = useQueryClient();
+
+  const patch = async (update: (products: Product[]) => Product[]) => {
+    await queryClient.cancelQueries({ queryKey: PRODUCTS_QUERY_KEY });
+    const previous = queryClient.getQueryData<Product[]>(PRODUCTS_QUERY_KEY);
+    queryClient.setQueryData<Product[]>(PRODUCTS_QUERY_KEY, (products) => (products ? update(products) : products));
+    return { previous };
+  };
+
+  const rollback = (context?: { previous?: Product[] }) => {
+    if (context?.previous) {
+      queryClient.setQueryData(PRODUCTS_QUERY_KEY, context.previous);
+    }
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+
+  return { patch, rollback, invalidate };
+};
+
+// Only the toggled row changes, so the cache is patched instead of refetched
+export function useSetProductVisibility() {
+  const { profile } = useAuth();
+  const { patch, rollback } = useOptimisticProducts();
+
+  return useMutation({
+    mutationFn: async ({ product, isVisible }: { product: Product; isVisible: boolean }) => {
+      const { error } = await supabase
+        .from('product')
+        .update({
+          is_visible: isVisible,
+          updated_by: profile?.id ?? null,
+        } satisfies TablesUpdate<'product'>)
+        .eq('id', product.id);
+
+      if (error) throw error;
+    },
+    onMutate: ({ product, isVisible }) =>
+      patch((products) =>
+        products.map((existing) => (existing.id === product.id ? { ...existing, is_visible: isVisible } : existing))
+      ),
+    onError: (_error, _variables, context) => rollback(context),
+  });
+}
+
+export function useDeleteProduct() {
+  const { patch, rollback, invalidate } = useOptimisticProducts();
+
+  return useMutation({
+    mutationFn: async (product: Product) => {
+      const { error } = await supabase.from('product').delete().eq('id', product.id);
+
+      if (error) throw error;
+
+      // Image rows cascade with the product; a failed file cleanup only leaves orphans behind
+      await removeProductImageFiles(product.images).catch((cleanupError) =>
+        console.error('Failed to remove product image files:', cleanupError)
+      );
+    },
+    onMutate: (product) => patch((products) => products.filter((existing) => existing.id !== product.id)),
+    onError: (_error, _product, context) => rollback(context),
+    onSettled: () => invalidate(),
+  });
+}
+
+export function useDeleteVariant() {
+  const { patch, rollback, invalidate } = useOptimisticProducts();
+
+  return useMutation({
+    mutationFn: async (variant: ProductVariant) => {
+      const { error } = await supabase.from('product_variants').delete().eq('id', variant.id);
+
+      if (error) throw error;
+    },
+    onMutate: (variant) =>
+      patch((products) =>
+        products.map((product) =>
+          product.id === variant.product_id
+            ? { ...product, variants: product.variants.filter((existing) => existing.id !== variant.id) }
+            : product
+        )
+      ),
+    onError: (_error, _variant, context) => rollback(context),
+    onSettled: () => invalidate(),
+  });
+}
+
+export type BulkProductAction =
+  | { type: 'category'; category: string | null }
+  | { type: 'visibility'; isVisible: boolean }
+  | { type: 'price'; mode: PriceChangeMode; amount: number }
+  | { type: 'delete' };
+
+const runBulkAction = async (products: Product[], action: BulkProductAction) => {
+  const productIds = products.map((product) => product.id);
+
+  switch (action.type) {
+    case 'category':
+      return supabase.rpc('bulk_set_product_category', {
+        p_product_ids: productIds,
+        p_category: action.category,
+      });
+    case 'visibility':
+      return supabase.rpc('bulk_set_product_visibility', {
+        p_product_ids: productIds,
+        p_is_visible: action.isVisible,
+      });
+    case 'price':
+      return supabase.rpc('bulk_adjust_variant_prices', {
+        p_variant_ids: products.flatMap((product) => product.variants.map((variant) => variant.id)),
+        p_mode: action.mode,
+        p_amount: action.amount,
+      });
+    case 'delete':
+      return supabase.rpc('bulk_delete_products', { p_product_ids: productIds });
+  }
+};
+
+const applyBulkAction = (product: Product, action: BulkProductAction): Product => {
+  switch (action.type) {
+    case 'category':
+      return { ...product, category: action.category };
+    case 'visibility':
+      return { ...product, is_visible: action.isVisible };
+    case 'price':
+      return {
+        ...product,
+        variants: product.variants.map((variant) => ({
+          ...variant,
+          price: adjustPrice(variant.price, action.mode, action.amount),
+        })),
+      };
+    case 'delete':
+      return product;
+  }
+};
+
+// Applies one action to every selected product in a single RPC and resolves to the
+// number of rows it changed. Price changes apply to all variants of the products.
+export function useBulkProductAction() {
+  const { patch, rollback, invalidate } = useOptimisticProducts();
+
+  return useMutation({
+    mutationFn: async ({ products, action }: { products: Product[]; action: BulkProductAction }) => {
+      const { data, error } = await runBulkAction(products, action);
+
+      if (error) throw error;
+
+      if (action.type === 'delete') {
+        await removeProductImageFiles(products.flatMap((product) => product.images)).catch((cleanupError) =>
+          console.error('Failed to remove product image files:', cleanupError)
+        );
+      }
+
+      return data ?? 0;
+    },
+    onMutate: ({ products, action }) => {
+      const selected = new Set(products.map((product) => product.id));
+
+      return patch((existing) =>
+        action.type === 'delete'
+          ? existing.filter((product) => !selected.has(product.id))
+          : existing.map((product) => (selected.has(product.id) ? applyBulkAction(product, action) : product))
+      );
+    },
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: () => invalidate(),
+  });
+}
+
+export interface VariantEdit {
+  variant: ProductVariant;
+  price?: number;
+  quantity?: number;
+  // Stock shown when the quantity was first edited; defaults to variant.quantity
+  expectedQuantity?: number;
+}
+
+export type VariantEditField = 'price' | 'quantity';
+
+// One entry per field, so a row can keep its saved price when its quantity is refused
+export interface VariantEditsResult {
+  saved: { variantId: string; field: VariantEditField }[];
+  // stockMoved: the quantity changed (a sale, another adjustment) after it was first edited
+  failed: { variantId: string; field: VariantEditField; message: string; stockMoved: boolean }[];
+}
+
+const VARIANT_EDITS_BATCH_SIZE = 25;
+
+// Saves each field on its own, so one bad cell doesn't hold back the rest.
+// Quantities go through adjust_variant_stock as corrections and are refused if the
+// stock moved since it was first edited, so concurrent sales are never written over.
+export function useSaveVariantEdits() {
+  const { profile } = useAuth();
+  const { patch, invalidate } = useOptimisticProducts();
+
+  const saveQuantity = async (variant: ProductVariant, quantity: number, expectedQuantity: number) => {
+    const { error } = await supabase.rpc('adjust_variant_stock', {
+      p_variant_id: variant.id,
+      p_mode: 'set',
+      p_quantity: quantity,
+      p_reason: 'correction',
+      p_note: 'Grid edit',
+      p_expected_quantity: expectedQuantity,
+    });
+
+    if (error) throw error;
+  };
+
+  const savePrice = async (variant: ProductVariant, price: number) => {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .update({ price, updated_by: profile?.id ?? null } satisfies TablesUpdate<'product_variants'>)
+      .eq('id', variant.id)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) throw new Error('This variant no longer exists');
+  };
+
+  return useMutation({
+    mutationFn: async (edits: VariantEdit[]): Promise<VariantEditsResult> => {
+      const tasks = edits.flatMap(({ variant, price, quantity, expectedQuantity }) => [
+        ...(quantity !== undefined
+          ? [
+              {
+                variantId: variant.id,
+                field: 'quantity' as const,
+                run: () => saveQuantity(variant, quantity, expectedQuantity ?? variant.quantity),
+              },
+            ]
+          : []),
+        ...(price !== undefined
+          ? [{ variantId: variant.id, field: 'price' as const, run: () => savePrice(variant, price) }]
+          : []),
+      ]);
+      const result: VariantEditsResult = { saved: [], failed: [] };
+
+      for (let start = 0; start < tasks.length; start += VARIANT_EDITS_BATCH_SIZE) {
+        const batch = tasks.slice(start, start + VARIANT_EDITS_BATCH_SIZE);
+        const outcomes = await Promise.allSettled(batch.map((task) => task.run()));
+
+        outcomes.forEach((outcome, index) => {
+          const { variantId, field } = batch[index];
+
+          if (outcome.status === 'fulfilled') {
+            result.saved.push({ variantId, field });
+          } else {
+            result.failed.push({
+              variantId,
+              field,
+              message: outcome.reason?.message || 'Failed to save',
+              stockMoved: outcome.reason?.code === STOCK_MOVED_ERROR_CODE,
+            });
+          }
+        });
+      }
+
+      return result;
+    },
+    // Show saved values straight away instead of flashing the old ones until the refetch lands
+    onSuccess: ({ saved }, edits) => {
+      const editsById = new Map(edits.map((edit) => [edit.variant.id, edit]));
+      const savedValues = new Map<string, Partial<Pick<ProductVariant, VariantEditField>>>();
+
+      saved.forEach(({ variantId, field }) => {
+        savedValues.set(variantId, { ...savedValues.get(variantId), [field]: editsById.get(variantId)?.[field] });
+      });
+
+      return patch((products) =>
+        products.map((product) => ({
+          ...product,
+          variants: product.variants.map((variant) =>
+            savedValues.has(variant.id) ? { ...variant, ...savedValues.get(variant.id) } : variant
+          ),
+        }))
+      );
+    },
+    onSettled: () => invalidate(),
+  });
+}
+
+// For forms that save through several requests and only need the catalog reloaded afterwards
+export function useInvalidateProducts() {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+}
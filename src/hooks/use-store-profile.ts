@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase, StoreHours, StoreProfile } from '@/lib/supabase';
+import { summarizeWeeklyHours } from '@/lib/store-hours';
+
+// Shown until the store_profile row loads (and if it cannot be read)
+export const DEFAULT_STORE_PROFILE: StoreProfile = {
+  name: 'Shreeji Foods',
+  tagline: null,
+  address: null,
+  email: null,
+  phone: null,
+  map_url: null,
+  updated_at: '',
+  updated_by: null,
+};
+
+type WeeklyHours = Pick<StoreHours, 'weekday' | 'is_closed' | 'open_time' | 'close_time'>;
+
+export function useStoreProfile() {
+  const [profile, setProfile] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  const [hours, setHours] = useState<WeeklyHours[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [profileResult, hoursResult] = await Promise.all([
+        supabase.from('store_profile').select('*').limit(1).maybeSingle(),
+        supabase
+          .from('store_hours')
+          .select('weekday, is_closed, open_time, close_time')
+          .order('weekday', { ascending: true }),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (hoursResult.error) throw hoursResult.error;
+
+      if (profileResult.data) {
+        setProfile(profileResult.data as StoreProfile);
+      }
+      setHours((hoursResult.data ?? []) as WeeklyHours[]);
+    } catch (error) {
+      console.error('Failed to load store profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const hoursSummary = useMemo(() => summarizeWeeklyHours(hours), [hours]);
+  const addressLines = useMemo(
+    () => (profile.address ?? '').split('\n').map((line) => line.trim()).filter(Boolean),
+    [profile.address]
+  );
+
+  return { profile, hours, hoursSummary, addressLines, loading, refresh };
+}
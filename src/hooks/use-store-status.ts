@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, StoreStatus, StoreStatusDetails } from '@/lib/supabase';
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type StoreStatusRow = Pick<StoreStatus, 'id' | 'is_open'>;
+
+export const STORE_STATUS_QUERY_KEY = ['store-status'] as const;
+export const STORE_STATUS_DETAILS_QUERY_KEY = ['store-status', 'details'] as const;
+
+// Latest row wins; null until an admin first opens or closes the store
+const fetchStoreStatus = async (): Promise<StoreStatusRow | null> => {
+  const { data, error } = await supabase
+    .from('store_status')
+    .select('id, is_open')
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+
+  return data && data.length > 0 ? (data[0] as StoreStatusRow) : null;
+};
+
+export function useStoreStatus({ refetchInterval }: { refetchInterval?: number } = {}) {
+  return useQuery({
+    queryKey: STORE_STATUS_QUERY_KEY,
+    queryFn: fetchStoreStatus,
+    refetchInterval,
+    meta: { errorMessage: 'Failed to load store status' },
+  });
+}
+
+// Closure note and next opening time shown with the Open/Closed badge
+export function useStoreStatusDetails({ refetchInterval }: { refetchInterval?: number } = {}) {
+  return useQuery({
+    queryKey: STORE_STATUS_DETAILS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_store_status_details');
+
+      if (error) throw error;
+
+      return (data as StoreStatusDetails | null) ?? null;
+    },
+    refetchInterval,
+    meta: { errorMessage: 'Failed to load store hours' },
+  });
+}
+
+export function useSetStoreStatus() {
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+
+  return useMutation({
+    mutationFn: async (isOpen: boolean) => {
+      const current = queryClient.getQueryData<StoreStatusRow | null>(STORE_STATUS_QUERY_KEY);
+      const query = current?.id
+        ? supabase
+          .from('store_status')
+          .update({
+            is_open: isOpen,
+            updated_by: profile?.id ?? null,
+          } satisfies TablesUpdate<'store_status'>)
+          .eq('id', current.id)
+        : supabase
+          .from('store_status')
+          .insert({
+            is_open: isOpen,
+            updated_by: profile?.id ?? null,
+          } satisfies TablesInsert<'store_status'>);
+
+      const { data, error } = await query.select('id, is_open').single();
+
+      if (error) throw error;
+
+      return data as StoreStatusRow;
+    },
+    onMutate: async (isOpen) => {
+      await queryClient.cancelQueries({ queryKey: STORE_STATUS_QUERY_KEY, exact: true });
+      const previous = queryClient.getQueryData<StoreStatusRow | null>(STORE_STATUS_QUERY_KEY);
+      queryClient.setQueryData<StoreStatusRow | null>(STORE_STATUS_QUERY_KEY, (status) =>
+        status ? { ...status, is_open: isOpen } : status
+      );
+      return { previous };
+    },
+    onError: (_error, _isOpen, context) => {
+      if (context?.previous !== undefined) {
+        queryClient.setQueryData(STORE_STATUS_QUERY_KEY, context.previous);
+      }
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(STORE_STATUS_QUERY_KEY, status);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: STORE_STATUS_DETAILS_QUERY_KEY });
+    },
+  });
+}
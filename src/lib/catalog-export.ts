@@ -0,0 +1,101 @@
+import type { Product, ProductVariant } from '@/lib/supabase';
+import { sortVariants } from '@/lib/catalog';
+
+export const CATALOG_BACKUP_VERSION = 1;
+
+type BackupVariant = Pick<
+  ProductVariant,
+  'sku' | 'variant_type' | 'variant_value' | 'price' | 'stock_unit' | 'pricing_mode' | 'quantity'
+>;
+
+// Products and variants only; images, costs and stock history are not part of a backup
+export interface CatalogBackup {
+  version: typeof CATALOG_BACKUP_VERSION;
+  exported_at: string;
+  products: (Pick<Product, 'name' | 'description' | 'category' | 'is_visible'> & { variants: BackupVariant[] })[];
+}
+
+// Headers match the importer's field labels, so an export can be imported unchanged
+const CATALOG_COLUMNS: {
+  header: string;
+  value: (product: CatalogBackup['products'][number], variant: BackupVariant) => string | number;
+}[] = [
+  { header: 'Product name', value: (product) => product.name },
+  { header: 'Description', value: (product) => product.description ?? '' },
+  { header: 'Category', value: (product) => product.category ?? '' },
+  { header: 'Visible', value: (product) => (product.is_visible ? 'yes' : 'no') },
+  { header: 'SKU', value: (_product, variant) => variant.sku },
+  { header: 'Variant type', value: (_product, variant) => variant.variant_type },
+  { header: 'Variant value', value: (_product, variant) => variant.variant_value },
+  { header: 'Price', value: (_product, variant) => variant.price },
+  { header: 'Stock unit', value: (_product, variant) => variant.stock_unit },
+  { header: 'Pricing mode', value: (_product, variant) => variant.pricing_mode },
+  { header: 'Quantity', value: (_product, variant) => variant.quantity },
+];
+
+export const toCatalogBackup = (products: Product[]): CatalogBackup => ({
+  version: CATALOG_BACKUP_VERSION,
+  exported_at: new Date().toISOString(),
+  products: products.map((product) => ({
+    name: product.name,
+    description: product.description,
+    category: product.category,
+    is_visible: product.is_visible,
+    variants: sortVariants(product.variants).map((variant) => ({
+      sku: variant.sku,
+      variant_type: variant.variant_type,
+      variant_value: variant.variant_value,
+      price: variant.price,
+      stock_unit: variant.stock_unit,
+      pricing_mode: variant.pricing_mode,
+      quantity: variant.quantity,
+    })),
+  })),
+});
+
+// Header row, then one row per variant
+export const catalogTable = (backup: CatalogBackup): string[][] => [
+  CATALOG_COLUMNS.map((column) => column.header),
+  ...backup.products.flatMap((product) =>
+    product.variants.map((variant) => CATALOG_COLUMNS.map((column) => String(column.value(product, variant))))
+  ),
+];
+
+export const parseCatalogBackup = (text: string): CatalogBackup => {
+  let backup: Partial<CatalogBackup> | null = null;
+
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (backup?.version !== CATALOG_BACKUP_VERSION || !Array.isArray(backup.products)) {
+    throw new Error('The file is not a catalog backup from this app');
+  }
+
+  return {
+    ...(backup as CatalogBackup),
+    products: backup.products.map((product) => ({
+      ...product,
+      variants: Array.isArray(product.variants) ? product.variants : [],
+    })),
+  };
+};
+
+const escapeCsvField = (value: string) => (/[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Starts with a BOM so Excel reads it as UTF-8 instead of mangling non-ASCII names
+export const toCsv = (rows: string[][]) =>
+  `\uFEFF${rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n')}\r\n`;
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
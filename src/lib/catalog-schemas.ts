@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { isWholeStockUnit } from '@/lib/stock';
+
+// Variant fields every form edits; forms extend them and then apply checkVariantRules
+export const variantFieldsSchema = z.object({
+  variant_type: z.enum(['weight', 'pcs', 'price', 'flavor', 'size'], {
+    errorMap: () => ({ message: 'Please select a variant type' }),
+  }),
+  variant_value: z.string().trim().min(1, 'Variant value is required'),
+  price: z.coerce.number().min(0, 'Price must be 0 or greater'),
+  stock_unit: z.enum(['pack', 'piece', 'kg']),
+  pricing_mode: z.enum(['fixed', 'per_kg']),
+  quantity: z.coerce.number().min(0, 'Quantity must be 0 or greater'),
+});
+
+type CountField = 'quantity' | 'reorder_level' | 'reorder_quantity';
+
+// Per kg pricing needs stock in kilograms, and packs and pieces are counted whole
+export const checkVariantRules = (
+  variant: Pick<z.infer<typeof variantFieldsSchema>, 'stock_unit' | 'pricing_mode'> &
+    Partial<Record<CountField, number>>,
+  ctx: z.RefinementCtx
+) => {
+  if (variant.pricing_mode === 'per_kg' && variant.stock_unit !== 'kg') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pricing_mode'],
+      message: 'Per kg pricing needs stock counted in kilograms',
+    });
+  }
+
+  if (!isWholeStockUnit(variant.stock_unit)) return;
+
+  (['quantity', 'reorder_level', 'reorder_quantity'] as const).forEach((field) => {
+    const value = variant[field];
+    if (value !== undefined && !Number.isInteger(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `Use a whole number of ${variant.stock_unit}s`,
+      });
+    }
+  });
+};
+
+export const variantSchema = variantFieldsSchema.superRefine(checkVariantRules);
+
+export const productFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z
+    .string()
+    .max(1000, 'Description must be less than 1000 characters')
+    .optional()
+    .or(z.literal('')),
+  category: z
+    .string()
+    .max(120, 'Category name must be less than 120 characters')
+    .nullable()
+    .optional(),
+  is_visible: z.boolean().default(true),
+});
+
+export const productSchema = productFieldsSchema.extend({
+  variants: z.array(variantSchema).min(1, 'At least one variant is required'),
+});
+
+export type VariantFields = z.infer<typeof variantFieldsSchema>;
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { Product, ProductImage, ProductVariant } from '@/lib/supabase';
+import { applyCatalogChanges, CatalogChange, sortCatalog } from '@/lib/catalog-sync';
+
+const product = (id: string, name: string, changes: Partial<Product> = {}): Product => ({
+  id,
+  name,
+  description: null,
+  category: 'sweets',
+  is_visible: true,
+  image_url: null,
+  last_updated: '2026-10-01T10:00:00+00:00',
+  updated_by: null,
+  variants: [],
+  images: [],
+  ...changes,
+});
+
+const variant = (id: string, productId: string, value: string, changes: Partial<ProductVariant> = {}): ProductVariant => ({
+  id,
+  product_id: productId,
+  sku: id.toUpperCase(),
+  variant_type: 'weight',
+  variant_value: value,
+  price: 100,
+  quantity: 10,
+  stock_unit: 'pack',
+  pricing_mode: 'fixed',
+  reorder_level: 0,
+  reorder_quantity: null,
+  last_updated: '2026-10-01T10:00:00+00:00',
+  updated_by: null,
+  ...changes,
+});
+
+const image = (id: string, productId: string, position: number): ProductImage => ({
+  id,
+  product_id: productId,
+  storage_path: `${productId}/${id}`,
+  position,
+  is_primary: position === 0,
+  width: 800,
+  height: 800,
+  created_at: '2026-10-01T10:00:00+00:00',
+  created_by: null,
+});
+
+// Realtime rows are flat, without the nested collections
+const productRow = (row: Product) =>
+  Object.fromEntries(Object.entries(row).filter(([column]) => column !== 'variants' && column !== 'images'));
+
+const change = (
+  table: CatalogChange['table'],
+  eventType: CatalogChange['eventType'],
+  row: object
+): CatalogChange => ({
+  table,
+  eventType,
+  new: eventType === 'DELETE' ? {} : (row as Record<string, unknown>),
+  old: eventType === 'DELETE' ? { id: (row as { id: string }).id } : {},
+});
+
+const kajuKatli = product('p-kaju', 'Kaju Katli', {
+  variants: [variant('v-kaju-250', 'p-kaju', '250g'), variant('v-kaju-500', 'p-kaju', '500g', { price: 380 })],
+  images: [image('i-kaju-0', 'p-kaju', 0)],
+});
+const ladoo = product('p-ladoo', 'Besan Ladoo', {
+  variants: [variant('v-ladoo-1kg', 'p-ladoo', '1kg', { price: 520 })],
+});
+
+const initial = sortCatalog([kajuKatli, ladoo]);
+
+const chivda = product('p-chivda', 'Poha Chivda');
+const chivda200 = variant('v-chivda-200', 'p-chivda', '200g', { price: 60 });
+const chivdaImage = image('i-chivda-0', 'p-chivda', 0);
+const kaju250Repriced = { ...variant('v-kaju-250', 'p-kaju', '250g'), price: 210, quantity: 7 };
+const kaju500Moved = { ...variant('v-kaju-500', 'p-kaju', '500g', { price: 380 }), product_id: 'p-ladoo' };
+const kajuRenamed = { ...kajuKatli, name: 'Kaju Katli Special', category: 'festival' };
+
+const burst: CatalogChange[] = [
+  change('product', 'INSERT', productRow(chivda)),
+  change('product_variants', 'INSERT', chivda200),
+  change('product_images', 'INSERT', chivdaImage),
+  change('product_variants', 'UPDATE', { ...kaju250Repriced, price: 200 }),
+  change('product_variants', 'UPDATE', kaju250Repriced),
+  change('product_variants', 'UPDATE', kaju500Moved),
+  change('product_variants', 'DELETE', ladoo.variants[0]),
+  change('product_images', 'DELETE', kajuKatli.images[0]),
+  change('product', 'UPDATE', productRow(kajuRenamed)),
+];
+
+// What a full fetch returns once every event in the burst has landed
+const finalRows: Product[] = [
+  { ...kajuRenamed, variants: [kaju250Repriced], images: [] },
+  { ...ladoo, variants: [kaju500Moved] },
+  { ...chivda, variants: [chivda200], images: [chivdaImage] },
+];
+
+describe('applyCatalogChanges', () => {
+  it('ends a burst of inserts, updates, moves and deletes in the same state as a full fetch', () => {
+    const result = applyCatalogChanges(initial, burst);
+
+    expect(result.products).toEqual(sortCatalog(finalRows));
+    expect(result.complete).toBe(true);
+  });
+
+  it('gives the same state when the burst arrives one event at a time', () => {
+    const products = burst.reduce(
+      (catalog, event) => applyCatalogChanges(catalog, [event]).products,
+      initial
+    );
+
+    expect(products).toEqual(sortCatalog(finalRows));
+  });
+
+  it('removes a deleted product with its variants and images', () => {
+    const result = applyCatalogChanges(initial, [change('product', 'DELETE', kajuKatli)]);
+
+    expect(result.products).toEqual(sortCatalog([ladoo]));
+    expect(result.complete).toBe(true);
+  });
+
+  it('flags an update for a product the cache has never seen', () => {
+    const hidden = product('p-hidden', 'Mohanthal', { is_visible: false });
+    const result = applyCatalogChanges(initial, [
+      ...burst,
+      change('product', 'UPDATE', productRow({ ...hidden, is_visible: true })),
+    ]);
+
+    expect(result.complete).toBe(false);
+    // Everything that could be placed still is
+    expect(result.products).toEqual(sortCatalog(finalRows));
+  });
+
+  it('flags a variant whose product is not in the cache', () => {
+    const result = applyCatalogChanges(initial, [
+      change('product_variants', 'INSERT', variant('v-orphan', 'p-missing', '100g')),
+    ]);
+
+    expect(result.complete).toBe(false);
+    expect(result.products).toEqual(initial);
+  });
+});
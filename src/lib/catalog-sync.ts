@@ -0,0 +1,129 @@
+import type { Product, ProductImage, ProductVariant } from '@/lib/supabase';
+
+// Product columns the catalog carries; realtime rows are trimmed to the same shape
+const PRODUCT_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'category',
+  'is_visible',
+  'image_url',
+  'last_updated',
+  'updated_by',
+] as const;
+
+// Spelled out rather than joined from PRODUCT_COLUMNS so supabase-js can type the rows
+export const CATALOG_SELECT =
+  'id, name, description, category, is_visible, image_url, last_updated, updated_by, product_variants(*), product_images(*)';
+
+export type CatalogTable = 'product' | 'product_variants' | 'product_images';
+
+// One postgres_changes event; deletes only carry the primary key in `old`
+export interface CatalogChange {
+  table: CatalogTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+}
+
+export interface CatalogPatchResult {
+  products: Product[];
+  // False when an event referenced a row the cache cannot place, so a full fetch is needed
+  complete: boolean;
+}
+
+type ProductRow = Omit<Product, 'variants' | 'images'>;
+
+const toProductRow = (record: Record<string, unknown>) =>
+  Object.fromEntries(PRODUCT_COLUMNS.map((column) => [column, record[column] ?? null])) as ProductRow;
+
+// Name then id, so patched and freshly fetched catalogs always list the same order
+const compareProducts = (a: Product, b: Product) =>
+  a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+
+const compareVariants = (a: ProductVariant, b: ProductVariant) =>
+  a.variant_value.localeCompare(b.variant_value) || a.id.localeCompare(b.id);
+
+const compareImages = (a: ProductImage, b: ProductImage) =>
+  a.position - b.position || a.id.localeCompare(b.id);
+
+export const sortCatalog = (products: Product[]) =>
+  products
+    .map((product) => ({
+      ...product,
+      variants: [...product.variants].sort(compareVariants),
+      images: [...product.images].sort(compareImages),
+    }))
+    .sort(compareProducts);
+
+type ChildRow = { id: string; product_id: string };
+
+// Tables whose rows hang off a product, and where they sit in Product
+const CHILD_COLLECTIONS: Record<
+  Exclude<CatalogTable, 'product'>,
+  { key: 'variants' | 'images'; compare: (a: ChildRow, b: ChildRow) => number }
+> = {
+  product_variants: { key: 'variants', compare: compareVariants as (a: ChildRow, b: ChildRow) => number },
+  product_images: { key: 'images', compare: compareImages as (a: ChildRow, b: ChildRow) => number },
+};
+
+// Applies a batch of realtime events in arrival order without touching the network
+export const applyCatalogChanges = (products: Product[], changes: CatalogChange[]): CatalogPatchResult => {
+  const byId = new Map(products.map((product) => [product.id, product]));
+  let complete = true;
+
+  changes.forEach((change) => {
+    if (change.table === 'product') {
+      if (change.eventType === 'DELETE') {
+        byId.delete(change.old.id as string);
+        return;
+      }
+
+      const row = toProductRow(change.new);
+      const existing = byId.get(row.id);
+
+      if (existing) {
+        byId.set(row.id, { ...row, variants: existing.variants, images: existing.images });
+      } else if (change.eventType === 'INSERT') {
+        byId.set(row.id, { ...row, variants: [], images: [] });
+      } else {
+        // A product that just became readable; its variants were never sent
+        complete = false;
+      }
+      return;
+    }
+
+    const { key, compare } = CHILD_COLLECTIONS[change.table];
+    const childId = (change.eventType === 'DELETE' ? change.old.id : change.new.id) as string;
+    const childrenOf = (product: Product): ChildRow[] => product[key];
+
+    // Deletes do not say which product held the row, and updates may move it
+    byId.forEach((product, productId) => {
+      if (childrenOf(product).some((child) => child.id === childId)) {
+        byId.set(productId, {
+          ...product,
+          [key]: childrenOf(product).filter((child) => child.id !== childId),
+        });
+      }
+    });
+
+    if (change.eventType === 'DELETE') {
+      return;
+    }
+
+    const child = change.new as unknown as ChildRow;
+    const parent = byId.get(child.product_id);
+
+    if (!parent) {
+      complete = false;
+      return;
+    }
+
+    byId.set(parent.id, {
+      ...parent,
+      [key]: [...childrenOf(parent), child].sort(compare),
+    });
+  });
+
+  return { products: Array.from(byId.values()).sort(compareProducts), complete };
+};
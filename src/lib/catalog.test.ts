@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductVariant } from '@/lib/supabase';
+import { formatTimestamp, parseNumericValue, parseWeightInGrams, sortVariants, toTitleCase } from '@/lib/catalog';
+
+type SortableVariant = Pick<ProductVariant, 'variant_type' | 'variant_value' | 'price'>;
+
+const weight = (variant_value: string, price = 100): SortableVariant => ({
+  variant_type: 'weight',
+  variant_value,
+  price,
+});
+
+describe('parseWeightInGrams', () => {
+  it.each([
+    ['500mg', 0.5],
+    ['1.5 kg', 1500],
+    ['1 kilogram', 1000],
+    ['2 kgs', 2000],
+    ['250 gms', 250],
+    ['250g', 250],
+    ['100 grams', 100],
+    ['1 lb', 453.592],
+  ])('reads %s as %d g', (value, grams) => {
+    expect(parseWeightInGrams(value)).toBeCloseTo(grams);
+  });
+
+  it('tells milligrams and kilograms apart from grams', () => {
+    expect(parseWeightInGrams('500mg')).not.toBe(parseWeightInGrams('500g'));
+    expect(parseWeightInGrams('5kg')).toBe(1000 * (parseWeightInGrams('5g') as number));
+  });
+
+  it('returns a bare number as is', () => {
+    expect(parseWeightInGrams('750')).toBe(750);
+  });
+
+  it('returns null without a number', () => {
+    expect(parseWeightInGrams('Assorted')).toBeNull();
+  });
+});
+
+describe('parseNumericValue', () => {
+  it('reads the first number', () => {
+    expect(parseNumericValue('12 pcs')).toBe(12);
+    expect(parseNumericValue('Pack of 2.5')).toBe(2.5);
+    expect(parseNumericValue('Mango')).toBeNull();
+  });
+});
+
+describe('sortVariants', () => {
+  it('orders weights in mixed units by grams', () => {
+    const sorted = sortVariants([weight('1kg'), weight('250 gms'), weight('500mg'), weight('1.5 kg'), weight('750g')]);
+
+    expect(sorted.map((variant) => variant.variant_value)).toEqual(['500mg', '250 gms', '750g', '1kg', '1.5 kg']);
+  });
+
+  it('puts values without a number last, cheapest first', () => {
+    const sorted = sortVariants([weight('Family pack', 900), weight('500g'), weight('Assorted', 300), weight('100g')]);
+
+    expect(sorted.map((variant) => variant.variant_value)).toEqual(['100g', '500g', 'Assorted', 'Family pack']);
+  });
+
+  it('falls back to the value when number and price tie', () => {
+    const sorted = sortVariants<SortableVariant>([
+      { variant_type: 'flavor', variant_value: 'Rose', price: 200 },
+      { variant_type: 'flavor', variant_value: 'kesar', price: 200 },
+    ]);
+
+    expect(sorted.map((variant) => variant.variant_value)).toEqual(['kesar', 'Rose']);
+  });
+
+  it('orders pieces by count and leaves the input untouched', () => {
+    const variants: SortableVariant[] = [
+      { variant_type: 'pcs', variant_value: '12 pcs', price: 240 },
+      { variant_type: 'pcs', variant_value: '6 pcs', price: 130 },
+    ];
+
+    expect(sortVariants(variants).map((variant) => variant.variant_value)).toEqual(['6 pcs', '12 pcs']);
+    expect(variants[0].variant_value).toBe('12 pcs');
+  });
+});
+
+describe('toTitleCase', () => {
+  it('capitalises each word, including after a bracket or hyphen', () => {
+    expect(toTitleCase('kaju katli (special)')).toBe('Kaju Katli (Special)');
+    expect(toTitleCase('DRY-FRUIT barfi')).toBe('Dry-Fruit Barfi');
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('formats in IST', () => {
+    expect(formatTimestamp('2025-10-22T03:00:00Z')).toBe('Oct 22, 2025 • 8:30 AM');
+    expect(formatTimestamp('2025-10-22T20:15:00Z')).toBe('Oct 23, 2025 • 1:45 AM');
+  });
+
+  it('shows a dash for missing or invalid values', () => {
+    expect(formatTimestamp(null)).toBe('—');
+    expect(formatTimestamp('not a date')).toBe('—');
+  });
+});
@@ -0,0 +1,123 @@
+import type { ProductVariant } from '@/lib/supabase';
+
+export const VARIANT_TYPE_LABELS: Record<ProductVariant['variant_type'], string> = {
+  weight: 'Weight',
+  pcs: 'Pieces',
+  price: 'Price',
+  flavor: 'Flavor',
+  size: 'Size',
+};
+
+// Product names are stored in title case: 'kaju katli (special)' -> 'Kaju Katli (Special)'
+export const toTitleCase = (value: string) =>
+  value.toLowerCase().replace(/(?:^|\s|-|\()([a-z])/g, (match) => match.toUpperCase());
+
+// First number in the value: '12 pcs' -> 12, 'Pack of 2.5' -> 2.5
+export const parseNumericValue = (value: string): number | null => {
+  const match = value.match(/\d+(?:\.\d+)?/);
+  if (!match) {
+    return null;
+  }
+
+  const numeric = Number.parseFloat(match[0]);
+  return Number.isNaN(numeric) ? null : numeric;
+};
+
+const GRAMS_PER_UNIT: Record<'mg' | 'g' | 'kg' | 'lb' | 'oz', number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  lb: 453.592,
+  oz: 28.3495,
+};
+
+// The unit has to follow the number, so 'mg' is never read as 'g' and 'kg' never as 'g'
+const WEIGHT_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(mg|milligrams?|kgs?|kilos?|kilograms?|lbs?|pounds?|oz|ounces?|gms?|grams?|g)?/i;
+
+const toWeightUnit = (unit: string): keyof typeof GRAMS_PER_UNIT => {
+  const lower = unit.toLowerCase();
+  if (lower.startsWith('m')) return 'mg';
+  if (lower.startsWith('k')) return 'kg';
+  if (lower.startsWith('l') || lower.startsWith('p')) return 'lb';
+  if (lower.startsWith('o')) return 'oz';
+  return 'g';
+};
+
+// '250g' -> 250, '1.5 kg' -> 1500, '500mg' -> 0.5; a bare number is returned as is
+export const parseWeightInGrams = (value: string): number | null => {
+  const match = value.match(WEIGHT_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const num = Number.parseFloat(match[1]);
+  if (Number.isNaN(num)) {
+    return null;
+  }
+
+  return match[2] ? num * GRAMS_PER_UNIT[toWeightUnit(match[2])] : num;
+};
+
+// Smallest first: weights by grams, other types by their number, then by price and name
+export const sortVariants = <T extends Pick<ProductVariant, 'variant_type' | 'variant_value' | 'price'>>(
+  variants: T[]
+) => {
+  return [...variants].sort((a, b) => {
+    const isWeightVariant = a.variant_type === 'weight' || b.variant_type === 'weight';
+    const parse = isWeightVariant ? parseWeightInGrams : parseNumericValue;
+    const aValue = parse(a.variant_value);
+    const bValue = parse(b.variant_value);
+
+    if (aValue !== null && bValue !== null && aValue !== bValue) {
+      return aValue - bValue;
+    }
+
+    if (aValue !== null && bValue === null) {
+      return -1;
+    }
+
+    if (aValue === null && bValue !== null) {
+      return 1;
+    }
+
+    if (aValue === null && bValue === null && a.price !== b.price) {
+      return a.price - b.price;
+    }
+
+    return a.variant_value.localeCompare(b.variant_value, undefined, { sensitivity: 'base' });
+  });
+};
+
+export const formatCurrency = (value: number | null | undefined) =>
+  new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+  }).format(value ?? 0);
+
+const IST_TIMESTAMP_FORMAT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+  hour12: true,
+  timeZone: 'Asia/Kolkata',
+});
+
+// '2025-10-22T03:00:00Z' -> 'Oct 22, 2025 • 8:30 AM', in IST whatever the browser's time zone
+export const formatTimestamp = (timestamp?: string | null) => {
+  if (!timestamp) {
+    return '—';
+  }
+
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    return '—';
+  }
+
+  const parts = Object.fromEntries(
+    IST_TIMESTAMP_FORMAT.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return `${parts.month} ${parts.day}, ${parts.year} • ${parts.hour}:${parts.minute} ${parts.dayPeriod.toUpperCase()}`;
+};
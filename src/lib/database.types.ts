@@ -0,0 +1,1070 @@
+// Schema of the public tables, views and functions, following supabase/migrations.
+// Laid out like `supabase gen types typescript` output so createClient<Database>
+// can type-check every .from() and .rpc() call. Update it alongside each migration.
+// Text columns limited by a check constraint are typed with their allowed values.
+// insert/update/upsert accept extra keys through their generic parameter, so write
+// payloads are checked with `satisfies TablesInsert<...>` / `TablesUpdate<...>`.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type VariantType = 'weight' | 'pcs' | 'price' | 'flavor' | 'size';
+
+export type StockUnit = 'pack' | 'piece' | 'kg';
+
+export type PricingMode = 'fixed' | 'per_kg';
+
+export type PriceChangeMode = 'percent' | 'flat';
+
+export type OrderStatus =
+  | 'placed'
+  | 'confirmed'
+  | 'packed'
+  | 'ready_for_pickup'
+  | 'completed'
+  | 'cancelled';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export type StockMovementReason = 'purchase' | 'sale' | 'wastage' | 'correction' | 'return';
+
+export type Database = {
+  public: {
+    Tables: {
+      admin_users: {
+        Row: {
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      category: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+        };
+        Relationships: [];
+      };
+      order_items: {
+        Row: {
+          id: string;
+          order_id: string;
+          variant_id: string | null;
+          product_name: string;
+          variant_value: string;
+          sku: string;
+          unit_price: number;
+          quantity: number;
+          line_total: number;
+          weight_grams: number | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          variant_id?: string | null;
+          product_name: string;
+          variant_value: string;
+          sku: string;
+          unit_price: number;
+          quantity: number;
+          line_total: number;
+          weight_grams?: number | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          variant_id?: string | null;
+          product_name?: string;
+          variant_value?: string;
+          sku?: string;
+          unit_price?: number;
+          quantity?: number;
+          line_total?: number;
+          weight_grams?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'order_items_order_id_fkey';
+            columns: ['order_id'];
+            isOneToOne: false;
+            referencedRelation: 'orders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'order_items_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      orders: {
+        Row: {
+          id: string;
+          order_number: string;
+          user_id: string | null;
+          customer_name: string;
+          customer_phone: string;
+          notes: string | null;
+          status: OrderStatus;
+          total: number;
+          created_at: string;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_number: string;
+          user_id?: string | null;
+          customer_name: string;
+          customer_phone: string;
+          notes?: string | null;
+          status?: OrderStatus;
+          total?: number;
+          created_at?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_number?: string;
+          user_id?: string | null;
+          customer_name?: string;
+          customer_phone?: string;
+          notes?: string | null;
+          status?: OrderStatus;
+          total?: number;
+          created_at?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      price_list_items: {
+        Row: {
+          price_list_id: string;
+          variant_id: string;
+          price: number;
+          regular_price: number | null;
+        };
+        Insert: {
+          price_list_id: string;
+          variant_id: string;
+          price: number;
+          regular_price?: number | null;
+        };
+        Update: {
+          price_list_id?: string;
+          variant_id?: string;
+          price?: number;
+          regular_price?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'price_list_items_price_list_id_fkey';
+            columns: ['price_list_id'];
+            isOneToOne: false;
+            referencedRelation: 'price_lists';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'price_list_items_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      price_lists: {
+        Row: {
+          id: string;
+          name: string;
+          starts_at: string;
+          ends_at: string;
+          is_applied: boolean;
+          created_at: string;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          starts_at: string;
+          ends_at: string;
+          is_applied?: boolean;
+          created_at?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          starts_at?: string;
+          ends_at?: string;
+          is_applied?: boolean;
+          created_at?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      product: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          category: string | null;
+          is_visible: boolean;
+          image_url: string | null;
+          last_updated: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          category?: string | null;
+          is_visible?: boolean;
+          image_url?: string | null;
+          last_updated?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          category?: string | null;
+          is_visible?: boolean;
+          image_url?: string | null;
+          last_updated?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'product_category_fkey';
+            columns: ['category'];
+            isOneToOne: false;
+            referencedRelation: 'category';
+            referencedColumns: ['name'];
+          },
+        ];
+      };
+      product_batches: {
+        Row: {
+          id: string;
+          variant_id: string;
+          batch_code: string;
+          manufactured_on: string;
+          best_before: string | null;
+          received_quantity: number;
+          quantity: number;
+          created_at: string;
+          created_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          variant_id: string;
+          batch_code: string;
+          manufactured_on?: string;
+          best_before?: string | null;
+          received_quantity: number;
+          quantity: number;
+          created_at?: string;
+          created_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          variant_id?: string;
+          batch_code?: string;
+          manufactured_on?: string;
+          best_before?: string | null;
+          received_quantity?: number;
+          quantity?: number;
+          created_at?: string;
+          created_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'product_batches_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      product_images: {
+        Row: {
+          id: string;
+          product_id: string;
+          storage_path: string;
+          position: number;
+          is_primary: boolean;
+          width: number | null;
+          height: number | null;
+          created_at: string;
+          created_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          storage_path: string;
+          position?: number;
+          is_primary?: boolean;
+          width?: number | null;
+          height?: number | null;
+          created_at?: string;
+          created_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          storage_path?: string;
+          position?: number;
+          is_primary?: boolean;
+          width?: number | null;
+          height?: number | null;
+          created_at?: string;
+          created_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'product_images_product_id_fkey';
+            columns: ['product_id'];
+            isOneToOne: false;
+            referencedRelation: 'product';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      product_variants: {
+        Row: {
+          id: string;
+          product_id: string;
+          sku: string;
+          variant_type: VariantType;
+          variant_value: string;
+          price: number;
+          quantity: number;
+          stock_unit: StockUnit;
+          pricing_mode: PricingMode;
+          reorder_level: number;
+          reorder_quantity: number | null;
+          last_updated: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          sku: string;
+          variant_type: VariantType;
+          variant_value: string;
+          price?: number;
+          quantity?: number;
+          stock_unit?: StockUnit;
+          pricing_mode?: PricingMode;
+          reorder_level?: number;
+          reorder_quantity?: number | null;
+          last_updated?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          sku?: string;
+          variant_type?: VariantType;
+          variant_value?: string;
+          price?: number;
+          quantity?: number;
+          stock_unit?: StockUnit;
+          pricing_mode?: PricingMode;
+          reorder_level?: number;
+          reorder_quantity?: number | null;
+          last_updated?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'product_variants_product_id_fkey';
+            columns: ['product_id'];
+            isOneToOne: false;
+            referencedRelation: 'product';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      purchase_order_lines: {
+        Row: {
+          id: string;
+          purchase_order_id: string;
+          variant_id: string | null;
+          product_name: string;
+          variant_value: string;
+          sku: string;
+          quantity_ordered: number;
+          quantity_received: number;
+          unit_cost: number;
+        };
+        Insert: {
+          id?: string;
+          purchase_order_id: string;
+          variant_id?: string | null;
+          product_name: string;
+          variant_value: string;
+          sku: string;
+          quantity_ordered: number;
+          quantity_received?: number;
+          unit_cost?: number;
+        };
+        Update: {
+          id?: string;
+          purchase_order_id?: string;
+          variant_id?: string | null;
+          product_name?: string;
+          variant_value?: string;
+          sku?: string;
+          quantity_ordered?: number;
+          quantity_received?: number;
+          unit_cost?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'purchase_order_lines_purchase_order_id_fkey';
+            columns: ['purchase_order_id'];
+            isOneToOne: false;
+            referencedRelation: 'purchase_orders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'purchase_order_lines_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      purchase_orders: {
+        Row: {
+          id: string;
+          po_number: string;
+          supplier_id: string;
+          status: PurchaseOrderStatus;
+          expected_on: string | null;
+          notes: string | null;
+          total: number;
+          sent_at: string | null;
+          created_at: string;
+          updated_at: string;
+          created_by: string | null;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          po_number: string;
+          supplier_id: string;
+          status?: PurchaseOrderStatus;
+          expected_on?: string | null;
+          notes?: string | null;
+          total?: number;
+          sent_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          created_by?: string | null;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          po_number?: string;
+          supplier_id?: string;
+          status?: PurchaseOrderStatus;
+          expected_on?: string | null;
+          notes?: string | null;
+          total?: number;
+          sent_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+          created_by?: string | null;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'purchase_orders_supplier_id_fkey';
+            columns: ['supplier_id'];
+            isOneToOne: false;
+            referencedRelation: 'suppliers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      purchase_receipt_lines: {
+        Row: {
+          id: string;
+          receipt_id: string;
+          purchase_order_line_id: string;
+          variant_id: string | null;
+          quantity: number;
+          unit_cost: number;
+          batch_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          receipt_id: string;
+          purchase_order_line_id: string;
+          variant_id?: string | null;
+          quantity: number;
+          unit_cost: number;
+          batch_id?: string | null;
+        };
+        Update: {
+          id?: string;
+          receipt_id?: string;
+          purchase_order_line_id?: string;
+          variant_id?: string | null;
+          quantity?: number;
+          unit_cost?: number;
+          batch_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'purchase_receipt_lines_receipt_id_fkey';
+            columns: ['receipt_id'];
+            isOneToOne: false;
+            referencedRelation: 'purchase_receipts';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'purchase_receipt_lines_purchase_order_line_id_fkey';
+            columns: ['purchase_order_line_id'];
+            isOneToOne: false;
+            referencedRelation: 'purchase_order_lines';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'purchase_receipt_lines_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'purchase_receipt_lines_batch_id_fkey';
+            columns: ['batch_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_batches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      purchase_receipts: {
+        Row: {
+          id: string;
+          purchase_order_id: string;
+          note: string | null;
+          received_at: string;
+          received_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          purchase_order_id: string;
+          note?: string | null;
+          received_at?: string;
+          received_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          purchase_order_id?: string;
+          note?: string | null;
+          received_at?: string;
+          received_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'purchase_receipts_purchase_order_id_fkey';
+            columns: ['purchase_order_id'];
+            isOneToOne: false;
+            referencedRelation: 'purchase_orders';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      stock_movements: {
+        Row: {
+          id: string;
+          variant_id: string | null;
+          sku: string | null;
+          delta: number;
+          quantity_after: number;
+          reason: StockMovementReason;
+          note: string | null;
+          order_id: string | null;
+          created_at: string;
+          created_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          variant_id?: string | null;
+          sku?: string | null;
+          delta: number;
+          quantity_after: number;
+          reason: StockMovementReason;
+          note?: string | null;
+          order_id?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          variant_id?: string | null;
+          sku?: string | null;
+          delta?: number;
+          quantity_after?: number;
+          reason?: StockMovementReason;
+          note?: string | null;
+          order_id?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'stock_movements_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: false;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'stock_movements_order_id_fkey';
+            columns: ['order_id'];
+            isOneToOne: false;
+            referencedRelation: 'orders';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      store_hours: {
+        Row: {
+          weekday: number;
+          is_closed: boolean;
+          open_time: string;
+          close_time: string;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          weekday: number;
+          is_closed?: boolean;
+          open_time?: string;
+          close_time?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          weekday?: number;
+          is_closed?: boolean;
+          open_time?: string;
+          close_time?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      store_hours_exceptions: {
+        Row: {
+          exception_date: string;
+          is_closed: boolean;
+          open_time: string | null;
+          close_time: string | null;
+          note: string | null;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          exception_date: string;
+          is_closed?: boolean;
+          open_time?: string | null;
+          close_time?: string | null;
+          note?: string | null;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          exception_date?: string;
+          is_closed?: boolean;
+          open_time?: string | null;
+          close_time?: string | null;
+          note?: string | null;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      store_profile: {
+        Row: {
+          id: boolean;
+          name: string;
+          tagline: string | null;
+          address: string | null;
+          email: string | null;
+          phone: string | null;
+          map_url: string | null;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: boolean;
+          name?: string;
+          tagline?: string | null;
+          address?: string | null;
+          email?: string | null;
+          phone?: string | null;
+          map_url?: string | null;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: boolean;
+          name?: string;
+          tagline?: string | null;
+          address?: string | null;
+          email?: string | null;
+          phone?: string | null;
+          map_url?: string | null;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      store_status: {
+        Row: {
+          id: string;
+          is_open: boolean;
+          scheduled_state: boolean | null;
+          updated_at: string | null;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          is_open?: boolean;
+          scheduled_state?: boolean | null;
+          updated_at?: string | null;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          is_open?: boolean;
+          scheduled_state?: boolean | null;
+          updated_at?: string | null;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      suppliers: {
+        Row: {
+          id: string;
+          name: string;
+          contact_name: string | null;
+          phone: string | null;
+          email: string | null;
+          address: string | null;
+          gstin: string | null;
+          notes: string | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          contact_name?: string | null;
+          phone?: string | null;
+          email?: string | null;
+          address?: string | null;
+          gstin?: string | null;
+          notes?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          contact_name?: string | null;
+          phone?: string | null;
+          email?: string | null;
+          address?: string | null;
+          gstin?: string | null;
+          notes?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      variant_costs: {
+        Row: {
+          variant_id: string;
+          cost_price: number;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          variant_id: string;
+          cost_price: number;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          variant_id?: string;
+          cost_price?: number;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'variant_costs_variant_id_fkey';
+            columns: ['variant_id'];
+            isOneToOne: true;
+            referencedRelation: 'product_variants';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      expiring_batches: {
+        Row: {
+          id: string;
+          variant_id: string;
+          batch_code: string;
+          manufactured_on: string;
+          best_before: string;
+          quantity: number;
+          sku: string;
+          variant_value: string;
+          stock_unit: StockUnit;
+          product_id: string;
+          product_name: string;
+          days_left: number;
+        };
+        Relationships: [];
+      };
+      inventory_valuation: {
+        Row: {
+          variant_id: string;
+          product_id: string;
+          product_name: string;
+          category: string | null;
+          variant_value: string;
+          sku: string;
+          quantity: number;
+          stock_unit: StockUnit;
+          price: number;
+          cost_price: number | null;
+          stock_value_cost: number | null;
+          stock_value_retail: number;
+          unit_margin: number | null;
+          margin_percent: number | null;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      add_product_batch: {
+        Args: {
+          p_variant_id: string;
+          p_batch_code: string;
+          p_manufactured_on: string | null;
+          p_best_before: string | null;
+          p_quantity: number;
+          p_note?: string | null;
+        };
+        Returns: Database['public']['Tables']['product_batches']['Row'];
+      };
+      adjust_variant_stock: {
+        Args: {
+          p_variant_id: string;
+          p_mode: 'add' | 'remove' | 'set';
+          p_quantity: number;
+          p_reason: StockMovementReason;
+          p_note?: string | null;
+          p_expected_quantity?: number | null;
+        };
+        Returns: Database['public']['Tables']['product_variants']['Row'];
+      };
+      apply_price_lists: {
+        Args: Record<PropertyKey, never>;
+        Returns: string | null;
+      };
+      apply_store_schedule: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      bulk_adjust_variant_prices: {
+        Args: {
+          p_variant_ids: string[];
+          p_mode: PriceChangeMode;
+          p_amount: number;
+        };
+        Returns: number;
+      };
+      bulk_delete_products: {
+        Args: {
+          p_product_ids: string[];
+        };
+        Returns: number;
+      };
+      bulk_set_product_category: {
+        Args: {
+          p_product_ids: string[];
+          p_category: string | null;
+        };
+        Returns: number;
+      };
+      bulk_set_product_visibility: {
+        Args: {
+          p_product_ids: string[];
+          p_is_visible: boolean;
+        };
+        Returns: number;
+      };
+      generate_sku: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      get_store_hours_for_date: {
+        Args: {
+          p_date: string;
+        };
+        Returns: {
+          is_closed: boolean;
+          open_time: string | null;
+          close_time: string | null;
+          note: string | null;
+        }[];
+      };
+      get_store_status_details: {
+        Args: Record<PropertyKey, never>;
+        Returns: Json;
+      };
+      get_variant_made_on: {
+        Args: {
+          p_variant_ids: string[];
+        };
+        Returns: {
+          variant_id: string;
+          manufactured_on: string;
+        }[];
+      };
+      is_admin: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      next_store_opening: {
+        Args: {
+          p_from?: string;
+        };
+        Returns: string | null;
+      };
+      place_order: {
+        Args: {
+          p_customer_name: string;
+          p_customer_phone: string;
+          p_notes: string;
+          p_items: Json;
+        };
+        Returns: Database['public']['Tables']['orders']['Row'];
+      };
+      receive_purchase_order: {
+        Args: {
+          p_purchase_order_id: string;
+          p_lines: Json;
+          p_note?: string | null;
+        };
+        Returns: Database['public']['Tables']['purchase_orders']['Row'];
+      };
+      save_price_list: {
+        Args: {
+          p_price_list_id: string | null;
+          p_name: string;
+          p_starts_at: string;
+          p_ends_at: string;
+          p_items: Json;
+        };
+        Returns: Database['public']['Tables']['price_lists']['Row'];
+      };
+      save_purchase_order: {
+        Args: {
+          p_purchase_order_id: string | null;
+          p_supplier_id: string;
+          p_expected_on: string | null;
+          p_notes: string | null;
+          p_lines: Json;
+        };
+        Returns: Database['public']['Tables']['purchase_orders']['Row'];
+      };
+      set_stock_context: {
+        Args: {
+          p_reason: StockMovementReason;
+          p_note?: string | null;
+          p_order_id?: string | null;
+        };
+        Returns: undefined;
+      };
+      store_should_be_open: {
+        Args: {
+          p_at?: string;
+        };
+        Returns: boolean;
+      };
+      update_order_status: {
+        Args: {
+          p_order_id: string;
+          p_status: OrderStatus;
+        };
+        Returns: Database['public']['Tables']['orders']['Row'];
+      };
+      write_off_batch: {
+        Args: {
+          p_batch_id: string;
+        };
+        Returns: Database['public']['Tables']['product_batches']['Row'];
+      };
+    };
+    Enums: Record<string, never>;
+    CompositeTypes: Record<string, never>;
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
+
+export type Views<T extends keyof PublicSchema['Views']> = PublicSchema['Views'][T]['Row'];
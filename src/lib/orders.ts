@@ -0,0 +1,41 @@
+import type { OrderStatus } from '@/lib/supabase';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'placed',
+  'confirmed',
+  'packed',
+  'ready_for_pickup',
+  'completed',
+  'cancelled',
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  placed: 'Placed',
+  confirmed: 'Confirmed',
+  packed: 'Packed',
+  ready_for_pickup: 'Ready for Pickup',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const ORDER_STATUS_BADGE_VARIANTS: Record<
+  OrderStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  placed: 'default',
+  confirmed: 'outline',
+  packed: 'outline',
+  ready_for_pickup: 'default',
+  completed: 'secondary',
+  cancelled: 'destructive',
+};
+
+// Mirrors the transitions enforced by public.update_order_status()
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  placed: ['confirmed', 'cancelled'],
+  confirmed: ['packed', 'cancelled'],
+  packed: ['ready_for_pickup', 'cancelled'],
+  ready_for_pickup: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
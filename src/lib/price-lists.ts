@@ -0,0 +1,75 @@
+import type { PriceList, PriceListItem, Product } from '@/lib/supabase';
+
+export type PriceListStatus = 'scheduled' | 'live' | 'ended';
+
+export const PRICE_LIST_STATUS_LABELS: Record<PriceListStatus, string> = {
+  scheduled: 'Scheduled',
+  live: 'Live',
+  ended: 'Ended',
+};
+
+export const PRICE_LIST_STATUS_BADGE_VARIANTS: Record<
+  PriceListStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  scheduled: 'outline',
+  live: 'default',
+  ended: 'secondary',
+};
+
+// By the clock, so a list shows as live before the scheduler's next run switches it
+export const getPriceListStatus = (
+  list: Pick<PriceList, 'starts_at' | 'ends_at'>,
+  now: Date = new Date()
+): PriceListStatus => {
+  if (now < new Date(list.starts_at)) return 'scheduled';
+  if (now >= new Date(list.ends_at)) return 'ended';
+  return 'live';
+};
+
+const STORE_DATE_TIME_PARTS = new Intl.DateTimeFormat('en-CA', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+  timeZone: 'Asia/Kolkata',
+});
+
+// ISO instant -> 'yyyy-MM-ddTHH:mm' in store time, for <input type="datetime-local">
+export const toStoreDateTimeInput = (value: string) => {
+  const parts = Object.fromEntries(
+    STORE_DATE_TIME_PARTS.formatToParts(new Date(value)).map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+};
+
+// 'yyyy-MM-ddTHH:mm' in store time -> ISO instant; India has no daylight saving
+export const fromStoreDateTimeInput = (value: string) => new Date(`${value}:00+05:30`).toISOString();
+
+// '2026-10-20T00:30:00Z' -> '20 Oct 2026, 6:00 AM'
+export const formatPriceListDateTime = (value: string) =>
+  new Intl.DateTimeFormat('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: 'Asia/Kolkata',
+  })
+    .format(new Date(value))
+    .replace(/am|pm/, (suffix) => suffix.toUpperCase());
+
+// The catalog as it will look while the list is live, for admin previews
+export const applyPriceListPrices = (products: Product[], items: Pick<PriceListItem, 'variant_id' | 'price'>[]) => {
+  const prices = new Map(items.map((item) => [item.variant_id, item.price]));
+
+  return products.map((product) => ({
+    ...product,
+    variants: product.variants.map((variant) =>
+      prices.has(variant.id) ? { ...variant, price: prices.get(variant.id) as number } : variant
+    ),
+  }));
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_LOOSE_WEIGHT_GRAMS, parseLooseWeight, priceForWeight } from '@/lib/pricing';
+
+describe('parseLooseWeight', () => {
+  it('reads grams and kilograms as whole grams', () => {
+    expect(parseLooseWeight('750')).toBe(750);
+    expect(parseLooseWeight(' 1.5 kg ')).toBe(1500);
+  });
+
+  it('rejects weights below the minimum place_order accepts', () => {
+    expect(parseLooseWeight('1g')).toBeNull();
+    expect(parseLooseWeight(`${MIN_LOOSE_WEIGHT_GRAMS - 1}g`)).toBeNull();
+    expect(parseLooseWeight(`${MIN_LOOSE_WEIGHT_GRAMS}g`)).toBe(MIN_LOOSE_WEIGHT_GRAMS);
+  });
+});
+
+describe('priceForWeight', () => {
+  it('never prices the smallest weight at nothing', () => {
+    expect(priceForWeight(400, MIN_LOOSE_WEIGHT_GRAMS)).toBe(20);
+  });
+});
@@ -0,0 +1,46 @@
+import type { PriceChangeMode, PricingMode, ProductVariant } from '@/lib/supabase';
+import { parseWeightInGrams } from '@/lib/catalog';
+
+export const PRICING_MODES: PricingMode[] = ['fixed', 'per_kg'];
+
+export const PRICING_MODE_LABELS: Record<PricingMode, string> = {
+  fixed: 'Fixed price',
+  per_kg: 'Per kg (any weight)',
+};
+
+// Quick picks offered to customers for loose items
+export const LOOSE_WEIGHT_PRESETS = [250, 500, 1000];
+
+// Smallest weight place_order accepts, so a unit never rounds down to ₹0
+export const MIN_LOOSE_WEIGHT_GRAMS = 50;
+
+export const isSoldByWeight = (variant: Pick<ProductVariant, 'pricing_mode'>) =>
+  variant.pricing_mode === 'per_kg';
+
+// Whole grams from what the customer typed; a bare number is read as grams
+export const parseLooseWeight = (value: string): number | null => {
+  const grams = parseWeightInGrams(value.trim());
+  if (grams === null) return null;
+
+  const rounded = Math.round(grams);
+  return rounded >= MIN_LOOSE_WEIGHT_GRAMS ? rounded : null;
+};
+
+// Rounded to the rupee the same way place_order does, so the cart matches the bill
+export const priceForWeight = (ratePerKg: number, weightGrams: number) =>
+  Math.round((ratePerKg * weightGrams) / 1000);
+
+// '250 g' / '1.5 kg'
+export const formatWeight = (weightGrams: number) =>
+  weightGrams >= 1000
+    ? `${new Intl.NumberFormat('en-IN', { maximumFractionDigits: 3 }).format(weightGrams / 1000)} kg`
+    : `${weightGrams} g`;
+
+export const PRICE_CHANGE_MODE_LABELS: Record<PriceChangeMode, string> = {
+  percent: 'By percentage',
+  flat: 'By amount (₹)',
+};
+
+// Same arithmetic and rounding as bulk_adjust_variant_prices, for previews
+export const adjustPrice = (price: number, mode: PriceChangeMode, amount: number) =>
+  Math.round(mode === 'percent' ? price * (1 + amount / 100) : price + amount);
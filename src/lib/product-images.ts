@@ -0,0 +1,224 @@
+import { supabase, Product, ProductImage } from '@/lib/supabase';
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types';
+
+export const PRODUCT_IMAGE_BUCKET = 'product-images';
+
+// Longest edge of each WebP rendition, in pixels
+export const IMAGE_RENDITIONS = {
+  thumb: 320,
+  medium: 800,
+  large: 1600,
+} as const;
+
+export type ImageRendition = keyof typeof IMAGE_RENDITIONS;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Larger photos are rejected before decoding rather than left to stall the tab
+export const MAX_SOURCE_IMAGE_BYTES = 15 * 1024 * 1024;
+
+const WEBP_QUALITY = 0.82;
+
+const renditionPath = (storagePath: string, rendition: ImageRendition) => `${storagePath}/${rendition}.webp`;
+
+export const productImageUrl = (image: Pick<ProductImage, 'storage_path'>, rendition: ImageRendition) =>
+  supabase.storage.from(PRODUCT_IMAGE_BUCKET).getPublicUrl(renditionPath(image.storage_path, rendition)).data
+    .publicUrl;
+
+// '<thumb> 320w, <medium> 800w, <large> 1600w' for <img srcSet>
+export const productImageSrcSet = (image: Pick<ProductImage, 'storage_path'>) =>
+  (Object.keys(IMAGE_RENDITIONS) as ImageRendition[])
+    .map((rendition) => `${productImageUrl(image, rendition)} ${IMAGE_RENDITIONS[rendition]}w`)
+    .join(', ');
+
+// Flagged primary first, otherwise the first in order
+export const primaryProductImage = (product: Pick<Product, 'images'>) =>
+  product.images.find((image) => image.is_primary) ?? product.images[0] ?? null;
+
+// Uploaded primary image, or the external image_url products had before uploads
+export const productImageSrc = (product: Pick<Product, 'images' | 'image_url'>, rendition: ImageRendition) => {
+  const primary = primaryProductImage(product);
+  return primary ? productImageUrl(primary, rendition) : product.image_url;
+};
+
+export const validateImageFile = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name} is not a JPEG, PNG or WebP image.`;
+  }
+
+  if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+    return `${file.name} is larger than 15 MB.`;
+  }
+
+  return null;
+};
+
+const toWebp = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('This browser cannot encode WebP images'))),
+      'image/webp',
+      WEBP_QUALITY
+    );
+  });
+
+// Scaled down to fit the longest edge (never up), then encoded as WebP
+const renderRendition = async (bitmap: ImageBitmap, longestEdge: number) => {
+  const scale = Math.min(1, longestEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not prepare the image for upload');
+  }
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  return { blob: await toWebp(canvas), width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Resizes a photo into every rendition, uploads them and records the image.
+ * Uploaded files are removed again if recording the row fails.
+ */
+export const uploadProductImage = async ({
+  productId,
+  file,
+  position,
+  isPrimary,
+  userId,
+}: {
+  productId: string;
+  file: File;
+  position: number;
+  isPrimary: boolean;
+  userId: string | null;
+}) => {
+  const bitmap = await createImageBitmap(file);
+  const storagePath = `${productId}/${crypto.randomUUID()}`;
+  const uploaded: string[] = [];
+
+  try {
+    let largest = { width: bitmap.width, height: bitmap.height };
+
+    for (const rendition of Object.keys(IMAGE_RENDITIONS) as ImageRendition[]) {
+      const { blob, width, height } = await renderRendition(bitmap, IMAGE_RENDITIONS[rendition]);
+      const path = renditionPath(storagePath, rendition);
+
+      const { error } = await supabase.storage.from(PRODUCT_IMAGE_BUCKET).upload(path, blob, {
+        contentType: 'image/webp',
+        cacheControl: '31536000',
+      });
+
+      if (error) throw error;
+
+      uploaded.push(path);
+      largest = { width, height };
+    }
+
+    const { data, error } = await supabase
+      .from('product_images')
+      .insert({
+        product_id: productId,
+        storage_path: storagePath,
+        position,
+        is_primary: isPrimary,
+        width: largest.width,
+        height: largest.height,
+        created_by: userId,
+      } satisfies TablesInsert<'product_images'>)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    if (uploaded.length > 0) {
+      await supabase.storage.from(PRODUCT_IMAGE_BUCKET).remove(uploaded);
+    }
+    throw error;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Deletes the files of the given images; their rows go with the product or separately
+export const removeProductImageFiles = async (images: Pick<ProductImage, 'storage_path'>[]) => {
+  if (images.length === 0) return;
+
+  const paths = images.flatMap((image) =>
+    (Object.keys(IMAGE_RENDITIONS) as ImageRendition[]).map((rendition) => renditionPath(image.storage_path, rendition))
+  );
+
+  const { error } = await supabase.storage.from(PRODUCT_IMAGE_BUCKET).remove(paths);
+
+  if (error) throw error;
+};
+
+// An image in the product form: already uploaded, or a picked file waiting for save
+export type ProductImageDraft =
+  | { key: string; kind: 'existing'; image: ProductImage }
+  | { key: string; kind: 'new'; file: File; previewUrl: string };
+
+/**
+ * Brings a product's images in line with the form: removed images are deleted,
+ * the rest take their position from the list and new files are uploaded.
+ */
+export const saveProductImages = async ({
+  productId,
+  original,
+  drafts,
+  primaryKey,
+  userId,
+}: {
+  productId: string;
+  original: ProductImage[];
+  drafts: ProductImageDraft[];
+  primaryKey: string | null;
+  userId: string | null;
+}) => {
+  const keptIds = new Set(drafts.flatMap((draft) => (draft.kind === 'existing' ? [draft.image.id] : [])));
+  const removed = original.filter((image) => !keptIds.has(image.id));
+  // The first image is primary unless another was picked
+  const resolvedPrimaryKey = drafts.some((draft) => draft.key === primaryKey) ? primaryKey : drafts[0]?.key ?? null;
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('product_images')
+      .delete()
+      .in('id', removed.map((image) => image.id));
+
+    if (error) throw error;
+
+    await removeProductImageFiles(removed);
+  }
+
+  // Only one primary may exist at a time, so clear the old one before setting the new
+  const { error: clearError } = await supabase
+    .from('product_images')
+    .update({ is_primary: false } satisfies TablesUpdate<'product_images'>)
+    .eq('product_id', productId)
+    .eq('is_primary', true);
+
+  if (clearError) throw clearError;
+
+  for (const [position, draft] of drafts.entries()) {
+    const isPrimary = draft.key === resolvedPrimaryKey;
+
+    if (draft.kind === 'new') {
+      await uploadProductImage({ productId, file: draft.file, position, isPrimary, userId });
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('product_images')
+      .update({ position, is_primary: isPrimary } satisfies TablesUpdate<'product_images'>)
+      .eq('id', draft.image.id);
+
+    if (error) throw error;
+  }
+};
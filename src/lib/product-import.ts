@@ -0,0 +1,611 @@
+import { readSheet } from 'read-excel-file/browser';
+import { z } from 'zod';
+import { supabase, Product, ProductVariant } from '@/lib/supabase';
+import type { TablesInsert, TablesUpdate } from '@/lib/database.types';
+import { VARIANT_TYPE_LABELS, toTitleCase } from '@/lib/catalog';
+import { checkVariantRules, productFieldsSchema, variantFieldsSchema } from '@/lib/catalog-schemas';
+import { STOCK_MOVED_ERROR_CODE, STOCK_UNIT_LABELS } from '@/lib/stock';
+import { PRICING_MODE_LABELS } from '@/lib/pricing';
+import { catalogTable, parseCatalogBackup } from '@/lib/catalog-export';
+
+export const IMPORT_FILE_TYPES = '.csv,.xlsx,.json';
+
+// Rows written concurrently; each batch waits for the previous one
+export const IMPORT_BATCH_SIZE = 25;
+
+export const IMPORT_FIELDS = [
+  { key: 'name', label: 'Product name', aliases: ['product', 'item', 'item name'] },
+  { key: 'description', label: 'Description', aliases: [] },
+  { key: 'category', label: 'Category', aliases: [] },
+  { key: 'is_visible', label: 'Visible', aliases: ['visibility', 'is visible'] },
+  { key: 'sku', label: 'SKU', aliases: ['sku code'] },
+  { key: 'variant_type', label: 'Variant type', aliases: ['type'] },
+  { key: 'variant_value', label: 'Variant value', aliases: ['variant'] },
+  { key: 'price', label: 'Price', aliases: ['mrp', 'selling price', 'rate'] },
+  { key: 'stock_unit', label: 'Stock unit', aliases: ['unit'] },
+  { key: 'pricing_mode', label: 'Pricing mode', aliases: ['pricing'] },
+  { key: 'quantity', label: 'Quantity', aliases: ['qty', 'stock'] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['key'];
+
+// Column index each field is read from, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// New variants cannot be created without these
+const CREATE_REQUIRED_FIELDS: ImportField[] = ['name', 'variant_type', 'variant_value', 'price'];
+
+const FIELD_LABELS = Object.fromEntries(IMPORT_FIELDS.map((field) => [field.key, field.label])) as Record<
+  ImportField,
+  string
+>;
+
+// Standard CSV: quoted fields may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const readCellTable = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return (await readSheet(file)).map((row) => row.map((cell) => (cell === null ? '' : String(cell))));
+  }
+
+  // JSON backups from the catalog export are laid out like its CSV
+  if (/\.json$/i.test(file.name)) {
+    return catalogTable(parseCatalogBackup(await file.text()));
+  }
+
+  return parseCsv(await file.text());
+};
+
+// The first row names the columns; blank rows are dropped
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  const cells = await readCellTable(file);
+
+  const [headerRow, ...rows] = cells.filter((row) => row.some((cell) => cell.trim() !== ''));
+
+  if (!headerRow || rows.length === 0) {
+    throw new Error('The file needs a header row and at least one product row');
+  }
+
+  return { headers: headerRow.map((header) => header.trim()), rows };
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Matches headers like 'Product Name', 'variant_value' or 'Qty'; each column is used once
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return Object.fromEntries(
+    IMPORT_FIELDS.map((field) => {
+      const names = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+      const index = normalized.findIndex((header, column) => !used.has(column) && names.includes(header));
+
+      if (index === -1) return [field.key, null];
+
+      used.add(index);
+      return [field.key, index];
+    })
+  ) as ColumnMapping;
+};
+
+// Same rules as ProductForm and VariantForm, applied to one spreadsheet row
+const importRowSchema = productFieldsSchema
+  .pick({ name: true, description: true, category: true, is_visible: true })
+  .merge(variantFieldsSchema)
+  .superRefine(checkVariantRules);
+
+export type ImportRowValues = z.infer<typeof importRowSchema>;
+
+interface ImportRowBase {
+  // Spreadsheet row number, counting the header as row 1
+  line: number;
+  name: string;
+  variantValue: string;
+  sku: string | null;
+}
+
+export type ImportPlanRow =
+  | (ImportRowBase & { action: 'create'; values: ImportRowValues; productId: string | null })
+  | (ImportRowBase & {
+      action: 'update';
+      values: ImportRowValues;
+      variantId: string;
+      productId: string;
+      // Readable 'Price: 120 → 135' lines for the review table
+      changes: string[];
+      // Only the fields the row changes, so columns edited elsewhere are left alone
+      variantChanges: TablesUpdate<'product_variants'>;
+      productChanges: TablesUpdate<'product'>;
+      // New quantity and the stock it was planned against, for adjust_variant_stock
+      stock: { expected: number; quantity: number } | null;
+    })
+  | (ImportRowBase & { action: 'skip'; reasons: string[] });
+
+export type ImportAction = ImportPlanRow['action'];
+
+export interface ImportPlan {
+  rows: ImportPlanRow[];
+  // Categories the file uses that do not exist yet; product.category must name one
+  newCategories: string[];
+}
+
+// 'Per kg' or 'per_kg' -> 'per_kg'; unknown values are left for the schema to reject
+const matchChoice = <T extends string>(value: string, labels: Record<T, string>) => {
+  const lower = value.toLowerCase();
+  const key = (Object.keys(labels) as T[]).find(
+    (option) => option === lower.replace(/\s+/g, '_') || labels[option].toLowerCase() === lower
+  );
+  return key ?? value;
+};
+
+// '₹1,250' -> '1250'
+const toNumberText = (value: string) => value.replace(/[₹,\s]/g, '');
+
+const VISIBILITY_WORDS: Record<string, boolean> = {
+  yes: true,
+  true: true,
+  '1': true,
+  visible: true,
+  no: false,
+  false: false,
+  '0': false,
+  hidden: false,
+};
+
+// 'yes' -> true, 'Hidden' -> false; unknown words are left for the schema to reject
+const parseVisibility = (value: string | undefined) =>
+  value === undefined ? undefined : VISIBILITY_WORDS[value.toLowerCase()] ?? value;
+
+const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+const normalizeCategory = (value: string | null | undefined) => {
+  const trimmed = value?.trim().toLowerCase() ?? '';
+  return trimmed === '' ? null : trimmed;
+};
+
+const variantKey = (productName: string, type: string, value: string) =>
+  `${productName.toLowerCase()}|${type}|${value.toLowerCase()}`;
+
+const readCells = (row: string[], mapping: ColumnMapping) => {
+  const cells: Partial<Record<ImportField, string>> = {};
+
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const column = mapping[key];
+    const value = column === null ? '' : (row[column] ?? '').trim();
+    if (value === '') return;
+
+    if (key === 'variant_type') cells[key] = matchChoice(value, VARIANT_TYPE_LABELS);
+    else if (key === 'stock_unit') cells[key] = matchChoice(value, STOCK_UNIT_LABELS);
+    else if (key === 'pricing_mode') cells[key] = matchChoice(value, PRICING_MODE_LABELS);
+    else if (key === 'price' || key === 'quantity') cells[key] = toNumberText(value);
+    else cells[key] = value;
+  });
+
+  return cells;
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => {
+    const field = issue.path[0] as ImportField | undefined;
+    return field && FIELD_LABELS[field] ? `${FIELD_LABELS[field]}: ${issue.message}` : issue.message;
+  });
+
+const VARIANT_CHANGE_FIELDS = ['variant_type', 'variant_value', 'price', 'stock_unit', 'pricing_mode', 'quantity'] as const;
+
+const describeChange = (field: ImportField, from: unknown, to: unknown) =>
+  `${FIELD_LABELS[field]}: ${from === null || from === '' ? '—' : from} → ${to === null || to === '' ? '—' : to}`;
+
+/**
+ * Works out what importing the sheet would do without writing anything.
+ * Rows with a known SKU update that variant; other complete rows create a variant
+ * (and its product when the name is new), keeping an unknown SKU as a restored
+ * backup needs. Anything else is skipped with a reason.
+ */
+export const planImport = ({
+  sheet,
+  mapping,
+  products,
+  categories,
+}: {
+  sheet: ImportSheet;
+  mapping: ColumnMapping;
+  products: Product[];
+  categories: string[];
+}): ImportPlan => {
+  const bySku = new Map<string, { product: Product; variant: ProductVariant }>();
+  products.forEach((product) =>
+    product.variants.forEach((variant) => bySku.set(variant.sku.toLowerCase(), { product, variant }))
+  );
+  const productsByName = new Map(products.map((product) => [product.name.toLowerCase(), product]));
+  const knownCategories = new Set(categories.map((name) => name.toLowerCase()));
+  const newCategories = new Set<string>();
+  const seenSkus = new Set<string>();
+  const seenVariants = new Set<string>();
+
+  const rows = sheet.rows.map((row, index): ImportPlanRow => {
+    const cells = readCells(row, mapping);
+    const base: ImportRowBase = {
+      line: index + 2,
+      name: cells.name ?? '',
+      variantValue: cells.variant_value ?? '',
+      sku: cells.sku ?? null,
+    };
+    const skip = (...reasons: string[]): ImportPlanRow => ({ ...base, action: 'skip', reasons });
+
+    const skuKey = cells.sku?.toLowerCase() ?? null;
+    const match = skuKey ? bySku.get(skuKey) : undefined;
+
+    if (match) {
+      base.name = match.product.name;
+      base.variantValue = cells.variant_value ?? match.variant.variant_value;
+      base.sku = match.variant.sku;
+    }
+
+    if (skuKey) {
+      if (seenSkus.has(skuKey)) return skip(`SKU ${base.sku} appears earlier in the file`);
+      seenSkus.add(skuKey);
+    }
+
+    if (match) {
+      const { product, variant } = match;
+
+      if (cells.name && cells.name.toLowerCase() !== product.name.toLowerCase()) {
+        return skip(`SKU ${variant.sku} belongs to ${product.name}`);
+      }
+
+      // Blank cells keep the variant's current values
+      const parsed = importRowSchema.safeParse({
+        name: product.name,
+        description: cells.description ?? product.description ?? '',
+        category: cells.category ?? product.category,
+        is_visible: parseVisibility(cells.is_visible) ?? product.is_visible,
+        variant_type: cells.variant_type ?? variant.variant_type,
+        variant_value: cells.variant_value ?? variant.variant_value,
+        price: cells.price ?? variant.price,
+        stock_unit: cells.stock_unit ?? variant.stock_unit,
+        pricing_mode: cells.pricing_mode ?? variant.pricing_mode,
+        quantity: cells.quantity ?? variant.quantity,
+      });
+
+      if (!parsed.success) return skip(...describeIssues(parsed.error));
+
+      const values = parsed.data;
+      const key = variantKey(product.name, values.variant_type, values.variant_value);
+      const clashes = product.variants.some(
+        (other) =>
+          other.id !== variant.id &&
+          variantKey(product.name, other.variant_type, other.variant_value) === key
+      );
+
+      if (clashes || seenVariants.has(key)) {
+        return skip(`${product.name} already has a ${values.variant_value} variant`);
+      }
+      seenVariants.add(key);
+
+      const changedFields = VARIANT_CHANGE_FIELDS.filter((field) => values[field] !== variant[field]);
+      const changes = changedFields.map((field) => describeChange(field, variant[field], values[field]));
+      const variantChanges: TablesUpdate<'product_variants'> = Object.fromEntries(
+        changedFields.filter((field) => field !== 'quantity').map((field) => [field, values[field]])
+      );
+      const stock = changedFields.includes('quantity')
+        ? { expected: variant.quantity, quantity: values.quantity }
+        : null;
+      const productChanges: TablesUpdate<'product'> = {};
+      const description = values.description?.trim() || null;
+      const category = normalizeCategory(values.category);
+
+      if (cells.description && description !== product.description) {
+        productChanges.description = description;
+        changes.push(describeChange('description', product.description, description));
+      }
+      if (cells.category && category !== product.category) {
+        productChanges.category = category;
+        changes.push(describeChange('category', product.category, category));
+        if (category && !knownCategories.has(category)) newCategories.add(category);
+      }
+
+      if (cells.is_visible && values.is_visible !== product.is_visible) {
+        productChanges.is_visible = values.is_visible;
+        changes.push(describeChange('is_visible', yesNo(product.is_visible), yesNo(values.is_visible)));
+      }
+
+      if (changes.length === 0) return skip('Already up to date');
+
+      return {
+        ...base,
+        action: 'update',
+        values,
+        variantId: variant.id,
+        productId: product.id,
+        changes,
+        variantChanges,
+        productChanges,
+        stock,
+      };
+    }
+
+    const missing = CREATE_REQUIRED_FIELDS.filter((field) => !cells[field]);
+    if (missing.length > 0) {
+      const missingText = `Missing ${missing.map((field) => FIELD_LABELS[field].toLowerCase()).join(', ')}`;
+      return cells.sku ? skip(`No variant has SKU ${cells.sku}`, missingText) : skip(missingText);
+    }
+
+    const parsed = importRowSchema.safeParse({
+      name: cells.name,
+      description: cells.description ?? '',
+      category: cells.category ?? null,
+      is_visible: parseVisibility(cells.is_visible),
+      variant_type: cells.variant_type,
+      variant_value: cells.variant_value,
+      price: cells.price,
+      stock_unit: cells.stock_unit ?? 'pack',
+      pricing_mode: cells.pricing_mode ?? 'fixed',
+      quantity: cells.quantity ?? 0,
+    });
+
+    if (!parsed.success) return skip(...describeIssues(parsed.error));
+
+    const values = parsed.data;
+    const product = productsByName.get(values.name.toLowerCase()) ?? null;
+    const key = variantKey(values.name, values.variant_type, values.variant_value);
+    const existing = product?.variants.find(
+      (variant) => variantKey(values.name, variant.variant_type, variant.variant_value) === key
+    );
+
+    if (existing) return skip(`Already in the catalog as ${existing.sku}; add the SKU to update it`);
+    if (seenVariants.has(key)) return skip('The same variant appears earlier in the file');
+    seenVariants.add(key);
+
+    const category = normalizeCategory(values.category);
+    if (!product && category && !knownCategories.has(category)) newCategories.add(category);
+
+    base.name = product?.name ?? toTitleCase(values.name);
+    return { ...base, action: 'create', values, productId: product?.id ?? null };
+  });
+
+  return { rows, newCategories: Array.from(newCategories).sort() };
+};
+
+export interface ImportResult {
+  applied: number;
+  failed: { line: number; message: string }[];
+}
+
+// Exported for the schema regression test, which checks every key is a product column
+export const productPayload = (values: ImportRowValues, userId: string | null) =>
+  ({
+    name: toTitleCase(values.name),
+    description: values.description?.trim() || null,
+    category: normalizeCategory(values.category),
+    is_visible: values.is_visible,
+    updated_by: userId,
+  }) satisfies TablesInsert<'product'>;
+
+const variantPayload = (values: ImportRowValues, userId: string | null) => ({
+  variant_type: values.variant_type,
+  variant_value: values.variant_value,
+  price: values.price,
+  stock_unit: values.stock_unit,
+  pricing_mode: values.pricing_mode,
+  quantity: values.quantity,
+  updated_by: userId,
+});
+
+// Keeps the row's SKU when it has one, otherwise takes the next from generate_sku
+const insertVariant = async (productId: string, row: ImportPlanRow & { action: 'create' }, userId: string | null) => {
+  let sku = row.sku;
+
+  if (!sku) {
+    const { data, error: skuError } = await supabase.rpc('generate_sku');
+
+    if (skuError) throw skuError;
+
+    sku = data;
+  }
+
+  const { error } = await supabase
+    .from('product_variants')
+    .insert({ product_id: productId, sku, ...variantPayload(row.values, userId) } satisfies TablesInsert<'product_variants'>);
+
+  if (error) throw error;
+};
+
+// A new product comes with a default variant, which takes the first row like ProductForm does
+const createProduct = async (
+  rows: (ImportPlanRow & { action: 'create' })[],
+  userId: string | null
+) => {
+  const [first, ...rest] = rows;
+  const { data: product, error: productError } = await supabase
+    .from('product')
+    .insert(productPayload(first.values, userId))
+    .select('id')
+    .single();
+
+  if (productError) throw productError;
+
+  const { data: defaultVariant, error: fetchError } = await supabase
+    .from('product_variants')
+    .select('id')
+    .eq('product_id', product.id)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const { error: updateError } = await supabase
+    .from('product_variants')
+    .update({
+      ...variantPayload(first.values, userId),
+      ...(first.sku ? { sku: first.sku } : {}),
+    } satisfies TablesUpdate<'product_variants'>)
+    .eq('id', defaultVariant.id);
+
+  if (updateError) throw updateError;
+
+  for (const row of rest) {
+    await insertVariant(product.id, row, userId);
+  }
+};
+
+// Quantities are set as corrections and refused if the stock moved since the file was checked
+const updateStock = async (row: ImportPlanRow & { action: 'update' }) => {
+  if (!row.stock) return;
+
+  const { error } = await supabase.rpc('adjust_variant_stock', {
+    p_variant_id: row.variantId,
+    p_mode: 'set',
+    p_quantity: row.stock.quantity,
+    p_reason: 'correction',
+    p_note: 'Product import',
+    p_expected_quantity: row.stock.expected,
+  });
+
+  if (error?.code === STOCK_MOVED_ERROR_CODE) {
+    throw new Error(`Quantity not imported: ${error.message}. Check the stock and import the row again.`);
+  }
+  if (error) throw error;
+};
+
+const updateVariant = async (row: ImportPlanRow & { action: 'update' }, userId: string | null) => {
+  // Fractional stock can only be set once the variant counts in kg
+  const stockFirst = row.variantChanges.stock_unit !== 'kg';
+
+  if (stockFirst) await updateStock(row);
+
+  if (Object.keys(row.variantChanges).length > 0) {
+    const { error } = await supabase
+      .from('product_variants')
+      .update({ ...row.variantChanges, updated_by: userId } satisfies TablesUpdate<'product_variants'>)
+      .eq('id', row.variantId);
+
+    if (error) throw error;
+  }
+
+  if (!stockFirst) await updateStock(row);
+
+  if (Object.keys(row.productChanges).length > 0) {
+    const { error: productError } = await supabase
+      .from('product')
+      .update({ ...row.productChanges, updated_by: userId } satisfies TablesUpdate<'product'>)
+      .eq('id', row.productId);
+
+    if (productError) throw productError;
+  }
+};
+
+/**
+ * Writes a plan from planImport in batches. Missing categories are created first;
+ * after that a failing row is reported and the rest of the import carries on.
+ */
+export const applyImport = async ({
+  plan,
+  userId,
+  onProgress,
+}: {
+  plan: ImportPlan;
+  userId: string | null;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<ImportResult> => {
+  if (plan.newCategories.length > 0) {
+    const { error } = await supabase
+      .from('category')
+      .upsert(plan.newCategories.map((name) => ({ name }) satisfies TablesInsert<'category'>), {
+        onConflict: 'name',
+        ignoreDuplicates: true,
+      });
+
+    if (error) throw error;
+  }
+
+  // One task per row, except that all rows of a new product are created together
+  const tasks: { lines: number[]; run: () => Promise<void> }[] = [];
+  const newProducts = new Map<string, (ImportPlanRow & { action: 'create' })[]>();
+
+  plan.rows.forEach((row) => {
+    if (row.action === 'update') {
+      tasks.push({ lines: [row.line], run: () => updateVariant(row, userId) });
+    } else if (row.action === 'create' && row.productId) {
+      const productId = row.productId;
+      tasks.push({ lines: [row.line], run: () => insertVariant(productId, row, userId) });
+    } else if (row.action === 'create') {
+      const key = row.values.name.toLowerCase();
+      newProducts.set(key, [...(newProducts.get(key) ?? []), row]);
+    }
+  });
+
+  newProducts.forEach((rows) => {
+    tasks.push({ lines: rows.map((row) => row.line), run: () => createProduct(rows, userId) });
+  });
+
+  const total = tasks.reduce((sum, task) => sum + task.lines.length, 0);
+  const result: ImportResult = { applied: 0, failed: [] };
+  let done = 0;
+
+  for (let start = 0; start < tasks.length; start += IMPORT_BATCH_SIZE) {
+    const batch = tasks.slice(start, start + IMPORT_BATCH_SIZE);
+    const outcomes = await Promise.allSettled(batch.map((task) => task.run()));
+
+    outcomes.forEach((outcome, index) => {
+      const { lines } = batch[index];
+      done += lines.length;
+
+      if (outcome.status === 'fulfilled') {
+        result.applied += lines.length;
+      } else {
+        const message = (outcome.reason as { message?: string })?.message || 'Failed to import row';
+        lines.forEach((line) => result.failed.push({ line, message }));
+      }
+    });
+
+    onProgress?.(done, total);
+  }
+
+  return result;
+};
@@ -0,0 +1,183 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import type { Product } from '@/lib/supabase';
+import { CATALOG_SELECT } from '@/lib/catalog-sync';
+import { guessColumnMapping, planImport, productPayload } from '@/lib/product-import';
+
+// planImport never touches the network; this only keeps the client from reading env vars
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+// Regression guard for the legacy has_variants/price/quantity/sku product columns:
+// every write to product, from the app or from SQL, must name a column the
+// migrations actually leave on the table. Direct client writes are covered by
+// `npm run typecheck` against the Database types, which this file ties to the migrations.
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../supabase/migrations');
+
+const migrations = readdirSync(MIGRATIONS_DIR)
+  .filter((file) => file.endsWith('.sql'))
+  // The baseline schema has no timestamp and is applied first
+  .sort((a, b) => Number(/^\d/.test(a)) - Number(/^\d/.test(b)) || a.localeCompare(b))
+  .map((file) => ({ file, sql: readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8').replace(/--.*$/gm, '') }));
+
+const productColumnsFromMigrations = () => {
+  const columns = new Set<string>();
+
+  migrations.forEach(({ sql }) => {
+    const created = sql.match(/create table (?:if not exists )?public\.product \(([\s\S]*?)\n\);/i);
+    created?.[1]
+      .split('\n')
+      .map((line) => line.trim().split(/\s+/)[0])
+      .filter((name) => /^[a-z_]+$/.test(name) && !['constraint', 'primary', 'unique', 'check'].includes(name))
+      .forEach((name) => columns.add(name));
+
+    for (const [, body] of sql.matchAll(/alter table (?:if exists )?public\.product\s([^;]*);/gi)) {
+      for (const [, name] of body.matchAll(/add column (?:if not exists )?(\w+)/gi)) columns.add(name);
+      for (const [, name] of body.matchAll(/drop column (?:if exists )?(\w+)/gi)) columns.delete(name);
+    }
+  });
+
+  return columns;
+};
+
+const PRODUCT_COLUMNS = productColumnsFromMigrations();
+
+const expectProductColumns = (keys: string[]) => {
+  expect(keys.filter((key) => !PRODUCT_COLUMNS.has(key))).toEqual([]);
+};
+
+describe('product columns', () => {
+  it('are the ones the migrations leave after dropping the legacy columns', () => {
+    expect([...PRODUCT_COLUMNS].sort()).toEqual(
+      ['category', 'description', 'id', 'image_url', 'is_visible', 'last_updated', 'name', 'updated_by'].sort()
+    );
+  });
+
+  it('match the Database types the client writes are checked against', () => {
+    const types = readFileSync(path.resolve(__dirname, 'database.types.ts'), 'utf8');
+    const block = types.match(/\n {6}product: \{\n {8}Row: \{([\s\S]*?)\n {8}\};/);
+
+    expect(block).not.toBeNull();
+    expect([...(block?.[1].matchAll(/^\s+(\w+)\??:/gm) ?? [])].map(([, name]) => name).sort()).toEqual(
+      [...PRODUCT_COLUMNS].sort()
+    );
+  });
+
+  it('cover what the catalog selects', () => {
+    expectProductColumns(CATALOG_SELECT.split(',').map((part) => part.trim()).filter((part) => !part.includes('(')));
+  });
+});
+
+describe('SQL writes to product', () => {
+  const writes = migrations.flatMap(({ file, sql }) => [
+    ...[...sql.matchAll(/update public\.product\s+set\s([\s\S]*?)\bwhere\b/gi)].map(([, assignments]) => ({
+      file,
+      columns: [...assignments.matchAll(/(?:^|,)\s*(\w+)\s*=/g)].map(([, name]) => name),
+    })),
+    ...[...sql.matchAll(/insert into public\.product\s*\(([^)]*)\)/gi)].map(([, list]) => ({
+      file,
+      columns: list.split(',').map((name) => name.trim()),
+    })),
+  ]);
+
+  it('include the bulk category and visibility RPCs', () => {
+    const bulk = writes.filter(({ file }) => file.endsWith('bulk_product_actions.sql'));
+
+    expect(bulk.map(({ columns }) => columns)).toEqual([
+      ['category', 'updated_by'],
+      ['is_visible', 'updated_by'],
+    ]);
+  });
+
+  it('only set existing columns', () => {
+    writes.forEach(({ columns }) => expectProductColumns(columns));
+  });
+});
+
+describe('importer writes to product', () => {
+  const existing: Product = {
+    id: 'p-kaju',
+    name: 'Kaju Katli',
+    description: null,
+    category: 'sweets',
+    is_visible: true,
+    image_url: null,
+    last_updated: '2026-10-01T10:00:00+00:00',
+    updated_by: null,
+    variants: [
+      {
+        id: 'v-kaju-250',
+        product_id: 'p-kaju',
+        sku: 'SF0001',
+        variant_type: 'weight',
+        variant_value: '250g',
+        price: 200,
+        quantity: 10,
+        stock_unit: 'pack',
+        pricing_mode: 'fixed',
+        reorder_level: 0,
+        reorder_quantity: null,
+        last_updated: '2026-10-01T10:00:00+00:00',
+        updated_by: null,
+      },
+    ],
+    images: [],
+  };
+
+  const headers = ['Product name', 'Description', 'Category', 'Visible', 'SKU', 'Variant type', 'Variant value', 'Price', 'Quantity'];
+  const plan = planImport({
+    sheet: {
+      headers,
+      rows: [
+        ['', 'Made with pure ghee', 'Festival', 'no', 'SF0001', '', '', '210', ''],
+        ['Besan Ladoo', 'Roasted gram flour', 'sweets', 'yes', '', 'weight', '500g', '260', '12'],
+      ],
+    },
+    mapping: guessColumnMapping(headers),
+    products: [existing],
+    categories: ['sweets'],
+  });
+
+  it('only change existing columns on updated products', () => {
+    const update = plan.rows.find((row) => row.action === 'update');
+
+    expect(update?.action).toBe('update');
+    if (update?.action !== 'update') return;
+
+    expect(Object.keys(update.productChanges).sort()).toEqual(['category', 'description', 'is_visible']);
+    expectProductColumns(Object.keys(update.productChanges));
+  });
+
+  it('leave variant columns the row does not change, including stock', () => {
+    const update = plan.rows.find((row) => row.action === 'update');
+
+    if (update?.action !== 'update') throw new Error('Expected an update row');
+
+    expect(update.variantChanges).toEqual({ price: 210 });
+    expect(update.stock).toBeNull();
+  });
+
+  it('set a new quantity against the stock the file was checked with', () => {
+    const [row] = planImport({
+      sheet: { headers: ['SKU', 'Quantity'], rows: [['SF0001', '4']] },
+      mapping: guessColumnMapping(['SKU', 'Quantity']),
+      products: [existing],
+      categories: ['sweets'],
+    }).rows;
+
+    if (row.action !== 'update') throw new Error('Expected an update row');
+
+    expect(row.variantChanges).toEqual({});
+    expect(row.stock).toEqual({ expected: 10, quantity: 4 });
+  });
+
+  it('only insert existing columns for new products', () => {
+    const create = plan.rows.find((row) => row.action === 'create');
+
+    expect(create?.action).toBe('create');
+    if (create?.action !== 'create') return;
+
+    expectProductColumns(Object.keys(productPayload(create.values, 'admin-1')));
+  });
+});
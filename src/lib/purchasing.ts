@@ -0,0 +1,36 @@
+import type { PurchaseOrderStatus } from '@/lib/supabase';
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  'draft',
+  'sent',
+  'partially_received',
+  'received',
+  'cancelled',
+];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const PURCHASE_ORDER_STATUS_BADGE_VARIANTS: Record<
+  PurchaseOrderStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  draft: 'outline',
+  sent: 'default',
+  partially_received: 'default',
+  received: 'secondary',
+  cancelled: 'destructive',
+};
+
+// Costs keep paise, unlike the whole-rupee selling prices
+export const formatCost = (value: number | string | null | undefined) =>
+  new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(Number(value ?? 0));
@@ -0,0 +1,77 @@
+import type { ProductVariant, StockMovementReason, StockUnit } from '@/lib/supabase';
+
+export const STOCK_MOVEMENT_REASONS: StockMovementReason[] = [
+  'purchase',
+  'sale',
+  'wastage',
+  'correction',
+  'return',
+];
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  purchase: 'Purchase',
+  sale: 'Sale',
+  wastage: 'Wastage',
+  correction: 'Correction',
+  return: 'Return',
+};
+
+export const STOCK_MOVEMENT_REASON_BADGE_VARIANTS: Record<
+  StockMovementReason,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  purchase: 'default',
+  sale: 'secondary',
+  wastage: 'destructive',
+  correction: 'outline',
+  return: 'outline',
+};
+
+export const STOCK_UNITS: StockUnit[] = ['pack', 'piece', 'kg'];
+
+export const STOCK_UNIT_LABELS: Record<StockUnit, string> = {
+  pack: 'Packs',
+  piece: 'Pieces',
+  kg: 'Kilograms (loose)',
+};
+
+// Raised by adjust_variant_stock when p_expected_quantity no longer matches
+export const STOCK_MOVED_ERROR_CODE = '40001';
+
+// Only loose stock sold by weight can hold part of a unit
+export const isWholeStockUnit = (unit: StockUnit) => unit !== 'kg';
+
+export const stockQuantityStep = (unit: StockUnit) => (isWholeStockUnit(unit) ? '1' : '0.001');
+
+export const isValidStockQuantity = (quantity: number, unit: StockUnit) =>
+  Number.isFinite(quantity) && (!isWholeStockUnit(unit) || Number.isInteger(quantity));
+
+// '12 packs' / '1 piece' / '2.75 kg'
+export const formatStockQuantity = (quantity: number, unit: StockUnit = 'pack') => {
+  const amount = new Intl.NumberFormat('en-IN', { maximumFractionDigits: 3 }).format(quantity);
+  if (unit === 'kg') return `${amount} kg`;
+  return `${amount} ${quantity === 1 ? unit : `${unit}s`}`;
+};
+
+// Stock on hand per unit, since packs and kilograms cannot be added together
+export const summarizeStockByUnit = (variants: Pick<ProductVariant, 'quantity' | 'stock_unit'>[]) =>
+  variants.reduce<Record<StockUnit, number>>(
+    (totals, variant) => {
+      const unit = variant.stock_unit ?? 'pack';
+      totals[unit] += Math.max(variant.quantity, 0);
+      return totals;
+    },
+    { pack: 0, piece: 0, kg: 0 }
+  );
+
+// Sold-out variants always count as low, even without a reorder level
+export const isLowStock = (variant: Pick<ProductVariant, 'quantity' | 'reorder_level'>) =>
+  variant.quantity <= Math.max(variant.reorder_level ?? 0, 0);
+
+// 'Expired' / 'Expires today' / 'Expires in 3 days'
+export const describeExpiry = (daysLeft: number) => {
+  if (daysLeft < 0) return 'Expired';
+  if (daysLeft === 0) return 'Expires today';
+  if (daysLeft === 1) return 'Expires tomorrow';
+  return `Expires in ${daysLeft} days`;
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getStoreDayBounds, getStoreMonthBounds } from '@/lib/store-hours';
+
+describe('getStoreDayBounds', () => {
+  it('covers a single day from IST midnight to the next', () => {
+    expect(getStoreDayBounds('2026-10-19')).toEqual({
+      from: '2026-10-18T18:30:00.000Z',
+      to: '2026-10-19T18:30:00.000Z',
+    });
+  });
+
+  it('includes the last day of a range', () => {
+    expect(getStoreDayBounds('2026-12-30', '2026-12-31')).toEqual({
+      from: '2026-12-29T18:30:00.000Z',
+      to: '2026-12-31T18:30:00.000Z',
+    });
+  });
+});
+
+describe('getStoreMonthBounds', () => {
+  it('rolls December over into the next year', () => {
+    expect(getStoreMonthBounds('2026-12')).toEqual({
+      from: '2026-11-30T18:30:00.000Z',
+      to: '2026-12-31T18:30:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { StoreHours } from '@/lib/supabase';
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday-first order for editors and listings; weekday numbers stay Sunday = 0
+export const WEEKDAY_DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// '21:30:00' -> '9:30 PM'
+export const formatStoreTime = (value: string | null | undefined) => {
+  if (!value) {
+    return '—';
+  }
+
+  const [hourPart, minutePart = '00'] = value.split(':');
+  const hour = Number.parseInt(hourPart, 10);
+  if (Number.isNaN(hour)) {
+    return value;
+  }
+
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${minutePart.padStart(2, '0')} ${suffix}`;
+};
+
+export const formatHoursRange = (hours: Pick<StoreHours, 'is_closed' | 'open_time' | 'close_time'>) =>
+  hours.is_closed ? 'Closed' : `${formatStoreTime(hours.open_time)} - ${formatStoreTime(hours.close_time)}`;
+
+// Current weekday in the store's time zone (Asia/Kolkata)
+export const getStoreWeekday = (date: Date = new Date()) => {
+  const weekday = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: 'Asia/Kolkata' }).format(date);
+  return WEEKDAY_LABELS.indexOf(weekday);
+};
+
+const STORE_DATE_FORMAT = new Intl.DateTimeFormat('en-CA', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  timeZone: 'Asia/Kolkata',
+});
+
+// Calendar date in the store's time zone as 'yyyy-MM-dd'
+export const getStoreDateKey = (date: Date = new Date()) => STORE_DATE_FORMAT.format(date);
+
+// 'yyyy-MM' -> the month's first and next month's first instants in store time, as ISO
+// strings; India has no daylight saving, so the offset is fixed
+export const getStoreMonthBounds = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const next = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+
+  return {
+    from: new Date(`${month}-01T00:00:00+05:30`).toISOString(),
+    to: new Date(`${next}-01T00:00:00+05:30`).toISOString(),
+  };
+};
+
+// 'yyyy-MM-dd' days, both included -> the first day's start and the instant after the
+// last day in store time, as ISO strings
+export const getStoreDayBounds = (fromDay: string, toDay: string = fromDay) => {
+  const lastDayStart = new Date(`${toDay}T00:00:00+05:30`);
+
+  return {
+    from: new Date(`${fromDay}T00:00:00+05:30`).toISOString(),
+    to: new Date(lastDayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+  };
+};
+
+// '2025-10-22T03:00:00Z' -> 'today at 8:30 AM' / 'tomorrow at 8:30 AM' / 'Thu, 23 Oct at 8:30 AM'
+export const formatNextOpening = (value: string | null | undefined, now: Date = new Date()) => {
+  if (!value) {
+    return null;
+  }
+
+  const openAt = new Date(value);
+  if (Number.isNaN(openAt.getTime())) {
+    return null;
+  }
+
+  const time = new Intl.DateTimeFormat('en-IN', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: 'Asia/Kolkata',
+  })
+    .format(openAt)
+    .toUpperCase();
+
+  const openKey = getStoreDateKey(openAt);
+  if (openKey === getStoreDateKey(now)) {
+    return `today at ${time}`;
+  }
+  if (openKey === getStoreDateKey(new Date(now.getTime() + 24 * 60 * 60 * 1000))) {
+    return `tomorrow at ${time}`;
+  }
+
+  const day = new Intl.DateTimeFormat('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'Asia/Kolkata',
+  }).format(openAt);
+
+  return `${day} at ${time}`;
+};
+
+// Groups consecutive days with the same hours: [{ label: 'Mon - Sat', value: '8:30 AM - 9:30 PM' }, ...]
+export const summarizeWeeklyHours = (
+  hours: Pick<StoreHours, 'weekday' | 'is_closed' | 'open_time' | 'close_time'>[]
+) => {
+  const groups: { days: number[]; value: string }[] = [];
+
+  WEEKDAY_DISPLAY_ORDER.forEach((weekday) => {
+    const row = hours.find((entry) => entry.weekday === weekday);
+    if (!row) return;
+
+    const value = formatHoursRange(row);
+    const last = groups[groups.length - 1];
+    if (last && last.value === value) {
+      last.days.push(weekday);
+    } else {
+      groups.push({ days: [weekday], value });
+    }
+  });
+
+  if (groups.length === 1 && groups[0].days.length === 7) {
+    return [{ label: 'Open daily', value: groups[0].value }];
+  }
+
+  return groups.map(({ days, value }) => {
+    const first = WEEKDAY_LABELS[days[0]].slice(0, 3);
+    const last = WEEKDAY_LABELS[days[days.length - 1]].slice(0, 3);
+    return { label: days.length === 1 ? first : `${first} - ${last}`, value };
+  });
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database, Tables, Views } from '@/lib/database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,7 +8,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
 export interface Profile {
   id: string;
@@ -15,39 +16,90 @@ export interface Profile {
   isAdmin: boolean;
 }
 
-export interface Product {
-  id: string;
-  name: string;
-  description: string | null;
-  category: string | null;
-  is_visible: boolean;
-  image_url: string | null;
-  last_updated: string | null;
-  updated_by: string | null;
+export type {
+  OrderStatus,
+  PriceChangeMode,
+  PricingMode,
+  PurchaseOrderStatus,
+  StockMovementReason,
+  StockUnit,
+  VariantType,
+} from '@/lib/database.types';
+
+export type Product = Tables<'product'> & {
   variants: ProductVariant[];
-}
+  images: ProductImage[];
+};
 
-// Legacy type alias for backward compatibility during migration
-export type InventoryItem = Product;
+// name is lowercase; products reference categories by name
+export type Category = Tables<'category'>;
 
-export interface ProductVariant {
-  id: string;
-  product_id: string;
-  sku: string;
-  variant_type: 'weight' | 'pcs' | 'price' | 'flavor' | 'size';
-  variant_value: string;
-  price: number;
-  quantity: number;
-  last_updated: string;
-  updated_by: string | null;
-}
+// price is the rate per kg when pricing_mode is 'per_kg'; quantity is in
+// stock_unit (fractional only for 'kg') and is low once <= reorder_level
+export type ProductVariant = Tables<'product_variants'>;
 
-// Legacy type alias for backward compatibility during migration
-export type ItemVariant = ProductVariant;
+// Uploaded photo; storage_path is the folder holding its WebP renditions
+export type ProductImage = Tables<'product_images'>;
 
-export interface StoreStatus {
-  id: string;
+export type StoreStatus = Tables<'store_status'>;
+
+export type Order = Tables<'orders'> & {
+  order_items?: OrderItem[];
+};
+
+// weight_grams is the weight of each unit for per_kg variants
+export type OrderItem = Tables<'order_items'>;
+
+export type Supplier = Tables<'suppliers'>;
+
+export type PurchaseOrder = Tables<'purchase_orders'> & {
+  suppliers?: Supplier | null;
+  purchase_order_lines?: PurchaseOrderLine[];
+};
+
+export type PurchaseOrderLine = Tables<'purchase_order_lines'> & {
+  product_variants?: Pick<ProductVariant, 'stock_unit'> | null;
+};
+
+// cost_price is the weighted average of receipts, or set by hand
+export type VariantCost = Tables<'variant_costs'>;
+
+export type InventoryValuation = Views<'inventory_valuation'>;
+
+// manufactured_on is 'yyyy-MM-dd'; quantity is what remains of the batch
+export type ProductBatch = Tables<'product_batches'>;
+
+// Row of the expiring_batches view
+export type ExpiringBatch = Views<'expiring_batches'>;
+
+export type StockMovement = Tables<'stock_movements'> & {
+  orders?: Pick<Order, 'order_number'> | null;
+};
+
+// weekday 0 = Sunday; times are 'HH:MM:SS', Asia/Kolkata
+export type StoreHours = Tables<'store_hours'>;
+
+// Single-row store details shown on Landing, About and the footer
+export type StoreProfile = Omit<Tables<'store_profile'>, 'id'>;
+
+// Dated override of the weekly schedule (holidays, festival hours), keyed by
+// its 'yyyy-MM-dd' Asia/Kolkata date
+export type StoreHoursException = Tables<'store_hours_exceptions'>;
+
+// Festival prices for a time window; is_applied while its prices are live
+export type PriceList = Tables<'price_lists'> & {
+  price_list_items?: PriceListItem[];
+};
+
+// regular_price is the variant's price when the list last went live
+export type PriceListItem = Tables<'price_list_items'>;
+
+// Shape returned by the get_store_status_details RPC
+export interface StoreStatusDetails {
   is_open: boolean;
-  updated_at: string | null;
-  updated_by: string | null;
+  note: string | null;
+  today_is_closed: boolean;
+  today_open_time: string | null;
+  today_close_time: string | null;
+  next_open_at: string | null;
 }
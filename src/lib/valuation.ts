@@ -0,0 +1,56 @@
+import type { InventoryValuation } from '@/lib/supabase';
+
+export type ValuationSummary = {
+  costValue: number;
+  retailValue: number;
+  margin: number; // on stock that has a cost price
+  marginPercent: number | null;
+  variantCount: number;
+  missingCostCount: number;
+};
+
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+
+// Variants without a cost price count towards retail value only, so they never inflate the margin
+export const summarizeValuation = (rows: InventoryValuation[]): ValuationSummary => {
+  let costValue = 0;
+  let retailValue = 0;
+  let costedRetailValue = 0;
+  let missingCostCount = 0;
+
+  rows.forEach((row) => {
+    const retail = Number(row.stock_value_retail ?? 0);
+    retailValue += retail;
+
+    if (row.cost_price == null) {
+      missingCostCount += 1;
+      return;
+    }
+
+    costValue += Number(row.stock_value_cost ?? 0);
+    costedRetailValue += retail;
+  });
+
+  const margin = costedRetailValue - costValue;
+
+  return {
+    costValue,
+    retailValue,
+    margin,
+    marginPercent: costedRetailValue > 0 ? (margin / costedRetailValue) * 100 : null,
+    variantCount: rows.length,
+    missingCostCount,
+  };
+};
+
+export const summarizeValuationByCategory = (rows: InventoryValuation[]) => {
+  const groups = new Map<string, InventoryValuation[]>();
+  rows.forEach((row) => {
+    const category = row.category || UNCATEGORIZED_LABEL;
+    groups.set(category, [...(groups.get(category) ?? []), row]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([category, categoryRows]) => ({ category, ...summarizeValuation(categoryRows) }))
+    .sort((a, b) => b.retailValue - a.retailValue);
+};
@@ -1,26 +1,39 @@
 import Header from '@/components/Header';
 import FadeContent from '@/components/FadeContent';
 import { Card, CardContent } from '@/components/ui/card';
+import { useStoreProfile } from '@/hooks/use-store-profile';
 
-const contactDetails = [
-  {
-    label: 'Address',
-    value:
-      'Shreeji Foods, Shop No. 11, Mahavir Nagar, Panchsheel Garden, Siddhivinayak Nagar, Kandivali West, Mumbai, Maharashtra 400067',
-    href: 'https://www.google.com/maps/search/?api=1&query=Shreeji+Foods%2C+Shop+No.+11%2C+Mahavir+Nagar%2C+Panchsheel+Garden%2C+Siddhivinayak+Nagar%2C+Kandivali+West%2C+Mumbai%2C+Maharashtra+400067',
-  },
-  {
-    label: 'Timings',
-    value: 'Open daily from 8:30 AM to 9:30 PM',
-  },
-  {
-    label: 'Email',
-    value: 'shreejifoods1999@gmail.com',
-    href: 'mailto:shreejifoods1999@gmail.com',
-  },
-];
+type ContactDetail = {
+  label: string;
+  value: string;
+  href?: string;
+};
 
 export default function About() {
+  const { profile, hoursSummary, addressLines } = useStoreProfile();
+
+  const contactDetails: ContactDetail[] = [
+    {
+      label: 'Address',
+      value: addressLines.length > 0 ? [profile.name, ...addressLines].join(', ') : '',
+      href: profile.map_url ?? undefined,
+    },
+    {
+      label: 'Timings',
+      value: hoursSummary.map((entry) => `${entry.label}: ${entry.value}`).join(' • '),
+    },
+    {
+      label: 'Phone',
+      value: profile.phone ?? '',
+      href: profile.phone ? `tel:${profile.phone.replace(/\s+/g, '')}` : undefined,
+    },
+    {
+      label: 'Email',
+      value: profile.email ?? '',
+      href: profile.email ? `mailto:${profile.email}` : undefined,
+    },
+  ].filter((detail) => detail.value);
+
   return (
     <div className="min-h-screen bg-background">
       <Header subtitle="About Us" />
@@ -1,5 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { supabase, Product, ProductVariant } from '@/lib/supabase';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase, InventoryValuation, Product, ProductVariant } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
 import { Button } from '@/components/ui/button';
@@ -40,6 +42,7 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import {
   AlertDialog,
@@ -52,116 +55,50 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Package, Search, MoreVertical, CircleMinus, RefreshCw, Check, ChevronDown, Pencil } from 'lucide-react';
-import { format } from 'date-fns';
+import { useCatalogRealtime } from '@/hooks/use-catalog-realtime';
+import {
+  useDeleteProduct,
+  useDeleteVariant,
+  useInvalidateProducts,
+  useProducts,
+  useSetProductVisibility,
+} from '@/hooks/use-products';
+import { CATEGORIES_QUERY_KEY, useCategories, useDeleteCategory } from '@/hooks/use-categories';
+import {
+  STORE_STATUS_QUERY_KEY,
+  StoreStatusRow,
+  useSetStoreStatus,
+  useStoreStatus,
+} from '@/hooks/use-store-status';
+import { Plus, Package, Search, MoreVertical, CircleMinus, RefreshCw, Check, ChevronDown, Pencil, Clock, CalendarDays, Upload, Download, X, Grid3x3 } from 'lucide-react';
 import ProductForm from '@/components/ProductForm';
 import CategoryForm from '@/components/CategoryForm';
+import ProductImportDialog from '@/components/ProductImportDialog';
+import BulkActionDialog, { BulkActionKind } from '@/components/BulkActionDialog';
+import InventoryGrid from '@/components/InventoryGrid';
 import VariantForm from '@/components/VariantForm';
+import RecentOrders from '@/components/RecentOrders';
+import StoreHoursEditor from '@/components/StoreHoursEditor';
+import StoreExceptionsEditor from '@/components/StoreExceptionsEditor';
+import StockHistoryDialog from '@/components/StockHistoryDialog';
+import StockAdjustmentDialog from '@/components/StockAdjustmentDialog';
+import StockAlertsFeed from '@/components/StockAlertsFeed';
+import BatchesDialog from '@/components/BatchesDialog';
+import ExpiringBatches from '@/components/ExpiringBatches';
+import { STOCK_UNITS, formatStockQuantity, isLowStock, summarizeStockByUnit } from '@/lib/stock';
+import { isSoldByWeight } from '@/lib/pricing';
+import { summarizeValuation, ValuationSummary } from '@/lib/valuation';
+import { catalogTable, downloadFile, toCatalogBackup, toCsv } from '@/lib/catalog-export';
+import { VARIANT_TYPE_LABELS, formatCurrency, formatTimestamp, sortVariants } from '@/lib/catalog';
 
-const VARIANT_TYPE_LABELS: Record<ProductVariant['variant_type'], string> = {
-  weight: 'Weight',
-  pcs: 'Pieces',
-  price: 'Price',
-  flavor: 'Flavor',
-  size: 'Size',
-};
-
-type RawProduct = Omit<Product, 'variants'> & {
-  product_variants: ProductVariant[] | null;
-};
-
-type CategoryOption = {
-  id: string;
-  name: string;
-};
-
-const parseNumericValue = (value: string): number | null => {
-  const match = value.match(/[^\d]*(\d+(?:\.\d+)?)/);
-  if (!match) {
-    return null;
-  }
-
-  const numeric = Number.parseFloat(match[1]);
-  return Number.isNaN(numeric) ? null : numeric;
-};
-
-// Convert weight to grams for proper sorting
-const parseWeightInGrams = (value: string): number | null => {
-  const lowerValue = value.toLowerCase();
-  const numMatch = lowerValue.match(/(\d+(?:\.\d+)?)/);
-
-  if (!numMatch) {
-    return null;
-  }
-
-  const num = Number.parseFloat(numMatch[1]);
-  if (Number.isNaN(num)) {
-    return null;
-  }
-
-  // Convert to grams based on unit
-  if (lowerValue.includes('kg')) {
-    return num * 1000; // kg to grams
-  } else if (lowerValue.includes('g') && !lowerValue.includes('kg')) {
-    return num; // already in grams
-  } else if (lowerValue.includes('mg')) {
-    return num / 1000; // mg to grams
-  } else if (lowerValue.includes('lb') || lowerValue.includes('pound')) {
-    return num * 453.592; // pounds to grams
-  } else if (lowerValue.includes('oz') || lowerValue.includes('ounce')) {
-    return num * 28.3495; // ounces to grams
-  }
-
-  // If no unit found, treat as the raw number
-  return num;
-};
-
-const sortVariants = (variants: ProductVariant[]) => {
-  return [...variants].sort((a, b) => {
-    // Check if this is a weight-based variant
-    const isWeightVariant = a.variant_type === 'weight' || b.variant_type === 'weight';
-
-    let aValue: number | null;
-    let bValue: number | null;
-
-    if (isWeightVariant) {
-      // Use weight-aware parsing for weight variants
-      aValue = parseWeightInGrams(a.variant_value);
-      bValue = parseWeightInGrams(b.variant_value);
-    } else {
-      // Use simple numeric parsing for other variants
-      aValue = parseNumericValue(a.variant_value);
-      bValue = parseNumericValue(b.variant_value);
-    }
-
-    if (aValue !== null && bValue !== null && aValue !== bValue) {
-      return aValue - bValue;
-    }
-
-    if (aValue !== null && bValue === null) {
-      return -1;
-    }
-
-    if (aValue === null && bValue !== null) {
-      return 1;
-    }
-
-    if (aValue === null && bValue === null && a.price !== b.price) {
-      return a.price - b.price;
-    }
-
-    return a.variant_value.localeCompare(b.variant_value, undefined, { sensitivity: 'base' });
-  });
-};
 
 export default function AdminDashboard() {
   const { profile } = useAuth();
-  const [items, setItems] = useState<Product[]>([]);
-  const [filteredItems, setFilteredItems] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [lowStockOnly, setLowStockOnly] = useState(false);
   const [formOpen, setFormOpen] = useState(false);
   const [categoryFormOpen, setCategoryFormOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<Product | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<Product | null>(null);
@@ -172,134 +109,83 @@ export default function AdminDashboard() {
   const [variantToDelete, setVariantToDelete] = useState<ProductVariant | null>(null);
   const [variantParentItemName, setVariantParentItemName] = useState<string>('');
   const [selectedVariantsMap, setSelectedVariantsMap] = useState<Record<string, string>>({});
-  const [storeStatus, setStoreStatus] = useState<boolean | null>(null);
-  const [storeStatusId, setStoreStatusId] = useState<string | null>(null);
-  const [storeStatusLoading, setStoreStatusLoading] = useState(true);
-  const [updatingStoreStatus, setUpdatingStoreStatus] = useState(false);
+  const [storeHoursOpen, setStoreHoursOpen] = useState(false);
+  const [storeExceptionsOpen, setStoreExceptionsOpen] = useState(false);
   const [removeCategoryOpen, setRemoveCategoryOpen] = useState(false);
-  const [availableCategories, setAvailableCategories] = useState<CategoryOption[]>([]);
   const [selectedCategoryId, setSelectedCategoryId] = useState<string>('');
-  const [categoriesLoading, setCategoriesLoading] = useState(false);
-  const [removingCategory, setRemovingCategory] = useState(false);
   const [categoryPickerOpen, setCategoryPickerOpen] = useState(false);
   const [categoryPickerSearch, setCategoryPickerSearch] = useState('');
-  const [categoryCount, setCategoryCount] = useState(0);
-  const [categoryCountLoading, setCategoryCountLoading] = useState(true);
-  const [quantityDialogOpen, setQuantityDialogOpen] = useState(false);
-  const [quantityEditItem, setQuantityEditItem] = useState<{ item: Product; variant: ProductVariant | null } | null>(null);
-  const [newQuantity, setNewQuantity] = useState<string>('');
-  const [updatingQuantity, setUpdatingQuantity] = useState(false);
+  const [stockValue, setStockValue] = useState<ValuationSummary | null>(null);
+  const [stockAdjustTarget, setStockAdjustTarget] = useState<{ item: Product; variant: ProductVariant } | null>(null);
+  const [stockHistoryTarget, setStockHistoryTarget] = useState<{ item: Product; variant: ProductVariant } | null>(null);
+  const [batchesTarget, setBatchesTarget] = useState<{ item: Product; variant: ProductVariant } | null>(null);
+  const [selectedProductIds, setSelectedProductIds] = useState<Set<string>>(new Set());
+  const [gridMode, setGridMode] = useState(false);
+  const [bulkAction, setBulkAction] = useState<{ kind: BulkActionKind; products: Product[] } | null>(null);
   const { toast } = useToast();
+  const navigate = useNavigate();
   const categoryPickerRef = useRef<HTMLDivElement | null>(null);
-
-  const fetchStoreStatus = async () => {
-    setStoreStatusLoading(true);
+  const queryClient = useQueryClient();
+  const productsQuery = useProducts();
+  const categoriesQuery = useCategories();
+  const { data: storeStatusRow, isLoading: storeStatusLoading } = useStoreStatus();
+  const setProductVisibility = useSetProductVisibility();
+  const deleteProduct = useDeleteProduct();
+  const deleteVariant = useDeleteVariant();
+  const deleteCategory = useDeleteCategory();
+  const setStoreStatus = useSetStoreStatus();
+  const invalidateProducts = useInvalidateProducts();
+
+  const items = useMemo(() => productsQuery.data ?? [], [productsQuery.data]);
+  const loading = productsQuery.isLoading;
+  const availableCategories = useMemo(() => categoriesQuery.data ?? [], [categoriesQuery.data]);
+  const categoryCount = availableCategories.length;
+  const categoriesLoading = categoriesQuery.isLoading;
+  const storeStatus = storeStatusRow ? storeStatusRow.is_open : null;
+  const updatingStoreStatus = setStoreStatus.isPending;
+  const removingCategory = deleteCategory.isPending;
+
+  const fetchStockValue = async () => {
     try {
       const { data, error } = await supabase
-        .from('store_status')
-        .select('id, is_open')
-        .order('updated_at', { ascending: false })
-        .limit(1);
+        .from('inventory_valuation')
+        .select('*');
 
       if (error) throw error;
 
-      if (data && data.length > 0) {
-        setStoreStatusId(data[0].id);
-        setStoreStatus(data[0].is_open);
-      } else {
-        const { data: inserted, error: insertError } = await supabase
-          .from('store_status')
-          .insert({ is_open: true, updated_by: profile?.id ?? null })
-          .select('id, is_open')
-          .single();
-
-        if (insertError) throw insertError;
-
-        if (inserted) {
-          setStoreStatusId(inserted.id);
-          setStoreStatus(inserted.is_open);
-        }
-      }
+      setStockValue(summarizeValuation((data ?? []) as InventoryValuation[]));
     } catch (error: any) {
       console.error(error);
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to load store status',
-      });
-    } finally {
-      setStoreStatusLoading(false);
     }
   };
 
-  const fetchCategoryCount = async (withLoading = false) => {
-    if (withLoading) {
-      setCategoryCountLoading(true);
-    }
-
-    try {
-      const { count, error } = await supabase
-        .from('category')
-        .select('id', { count: 'exact', head: true });
-
-      if (error) throw error;
-
-      setCategoryCount(count ?? 0);
-    } catch (error: any) {
-      console.error(error);
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to load category count.',
-      });
-    } finally {
-      if (withLoading) {
-        setCategoryCountLoading(false);
-      }
-    }
+  const handleStoreStatusToggle = (nextState: boolean) => {
+    setStoreStatus.mutate(nextState, {
+      onSuccess: () => {
+        toast({
+          title: 'Store status updated',
+          description: `Store is now ${nextState ? 'open' : 'closed'}.`,
+        });
+      },
+      onError: (error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to update store status',
+        });
+      },
+    });
   };
 
-  const handleStoreStatusToggle = async (nextState: boolean) => {
-    const previousState = storeStatus ?? false;
-    setStoreStatus(nextState);
-    setUpdatingStoreStatus(true);
-
-    try {
-      if (storeStatusId) {
-        const { error } = await supabase
-          .from('store_status')
-          .update({ is_open: nextState, updated_by: profile?.id ?? null })
-          .eq('id', storeStatusId);
-
-        if (error) throw error;
-      } else {
-        const { data, error } = await supabase
-          .from('store_status')
-          .insert({ is_open: nextState, updated_by: profile?.id ?? null })
-          .select('id, is_open')
-          .single();
-
-        if (error) throw error;
+  // The JSON file doubles as a backup the importer can restore
+  const exportCatalog = (fileType: 'csv' | 'json') => {
+    const backup = toCatalogBackup(items);
+    const fileName = `catalog-${backup.exported_at.slice(0, 10)}.${fileType}`;
 
-        if (data) {
-          setStoreStatusId(data.id);
-          setStoreStatus(data.is_open);
-        }
-      }
-
-      toast({
-        title: 'Store status updated',
-        description: `Store is now ${nextState ? 'open' : 'closed'}.`,
-      });
-    } catch (error: any) {
-      setStoreStatus(previousState);
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to update store status',
-      });
-    } finally {
-      setUpdatingStoreStatus(false);
+    if (fileType === 'csv') {
+      downloadFile(fileName, toCsv(catalogTable(backup)), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(fileName, JSON.stringify(backup, null, 2), 'application/json');
     }
   };
 
@@ -318,109 +204,25 @@ export default function AdminDashboard() {
     return { sortedVariants, selectedVariant };
   };
 
-  // Store automation: Open at 8:35 AM, Close at 9:35 PM (IST - Testing)
-  useEffect(() => {
-    const scheduleStoreUpdates = () => {
-      const now = new Date();
-      const currentHour = now.getHours();
-      const currentMinute = now.getMinutes();
-
-      // Define open and close times
-      const openHour = 8;
-      const openMinute = 35;
-      const closeHour = 21;
-      const closeMinute = 35;
-
-      // Calculate time until next open (8:35 AM)
-      let msUntilOpen = 0;
-      if (currentHour < openHour || (currentHour === openHour && currentMinute < openMinute)) {
-        // Today's open time hasn't passed yet
-        const targetOpen = new Date(now);
-        targetOpen.setHours(openHour, openMinute, 0, 0);
-        msUntilOpen = targetOpen.getTime() - now.getTime();
-      } else {
-        // Schedule for tomorrow's open time
-        const targetOpen = new Date(now);
-        targetOpen.setDate(targetOpen.getDate() + 1);
-        targetOpen.setHours(openHour, openMinute, 0, 0);
-        msUntilOpen = targetOpen.getTime() - now.getTime();
-      }
-
-      // Calculate time until next close (9:35 PM)
-      let msUntilClose = 0;
-      if (currentHour < closeHour || (currentHour === closeHour && currentMinute < closeMinute)) {
-        // Today's close time hasn't passed yet
-        const targetClose = new Date(now);
-        targetClose.setHours(closeHour, closeMinute, 0, 0);
-        msUntilClose = targetClose.getTime() - now.getTime();
-      } else {
-        // Schedule for tomorrow's close time
-        const targetClose = new Date(now);
-        targetClose.setDate(targetClose.getDate() + 1);
-        targetClose.setHours(closeHour, closeMinute, 0, 0);
-        msUntilClose = targetClose.getTime() - now.getTime();
+  // Stock value only moves with variant changes, and is refetched once per burst
+  useCatalogRealtime('inventory_changes_admin', {
+    onFlush: (changes) => {
+      if (changes.some((change) => change.table === 'product_variants')) {
+        fetchStockValue();
       }
-
-      // Schedule open action
-      const openTimeout = setTimeout(async () => {
-        console.log('Auto-opening store at 8:35 AM');
-        try {
-          if (!storeStatusId) return;
-          await supabase
-            .from('store_status')
-            .update({ is_open: true, updated_by: profile?.id ?? null })
-            .eq('id', storeStatusId);
-        } catch (error) {
-          console.error('Failed to auto-open store:', error);
-        }
-      }, msUntilOpen);
-
-      // Schedule close action
-      const closeTimeout = setTimeout(async () => {
-        console.log('Auto-closing store at 9:35 PM');
-        try {
-          if (!storeStatusId) return;
-          await supabase
-            .from('store_status')
-            .update({ is_open: false, updated_by: profile?.id ?? null })
-            .eq('id', storeStatusId);
-        } catch (error) {
-          console.error('Failed to auto-close store:', error);
-        }
-      }, msUntilClose);
-
-      return { openTimeout, closeTimeout };
-    };
-
-    if (storeStatusId) {
-      const timeouts = scheduleStoreUpdates();
-
-      return () => {
-        clearTimeout(timeouts.openTimeout);
-        clearTimeout(timeouts.closeTimeout);
-      };
-    }
-  }, [storeStatusId, profile?.id]);
+    },
+  });
 
   useEffect(() => {
-    fetchItems();
-    fetchStoreStatus();
-    fetchCategoryCount(true);
+    fetchStockValue();
 
-    const inventoryChannel = supabase
-      .channel('inventory_changes_admin')
+    const costsChannel = supabase
+      .channel('variant_costs_admin')
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'product' },
+        { event: '*', schema: 'public', table: 'variant_costs' },
         () => {
-          fetchItems();
-        }
-      )
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'product_variants' },
-        () => {
-          fetchItems();
+          fetchStockValue();
         }
       )
       .subscribe();
@@ -431,7 +233,7 @@ export default function AdminDashboard() {
         'postgres_changes',
         { event: '*', schema: 'public', table: 'category' },
         () => {
-          fetchCategoryCount();
+          queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
         }
       )
       .subscribe();
@@ -443,54 +245,98 @@ export default function AdminDashboard() {
         { event: '*', schema: 'public', table: 'store_status' },
         (payload) => {
           const next = (payload.new as { id?: string; is_open?: boolean }) || {};
-          if (typeof next.is_open === 'boolean') {
-            setStoreStatus(next.is_open);
-          }
-          if (next.id) {
-            setStoreStatusId(next.id);
+          if (next.id && typeof next.is_open === 'boolean') {
+            queryClient.setQueryData<StoreStatusRow | null>(STORE_STATUS_QUERY_KEY, {
+              id: next.id,
+              is_open: next.is_open,
+            });
           }
         }
       )
       .subscribe();
 
     return () => {
-      inventoryChannel.unsubscribe();
+      costsChannel.unsubscribe();
       categoryChannel.unsubscribe();
       storeChannel.unsubscribe();
     };
   }, []);
 
-  useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredItems(items);
-    } else {
-      const query = searchQuery.toLowerCase();
-      setFilteredItems(
-        items.filter((item) => {
-          const matchesItem =
-            item.name.toLowerCase().includes(query) ||
-            (item.category && item.category.toLowerCase().includes(query)) ||
-            (item.description && item.description.toLowerCase().includes(query));
-
-          const matchesVariant = item.variants.some((variant: ProductVariant) => {
-            const value = variant.variant_value?.toLowerCase() || '';
-            const sku = variant.sku?.toLowerCase() || '';
-            const type = variant.variant_type?.toLowerCase() || '';
-
-            return (
-              value.includes(query) ||
-              sku.includes(query) ||
-              type.includes(query) ||
-              variant.price.toString().includes(query) ||
-              variant.quantity.toString().includes(query)
-            );
-          });
+  const filteredItems = useMemo(() => {
+    const scopedItems = lowStockOnly
+      ? items.filter((item) => item.variants.some((variant: ProductVariant) => isLowStock(variant)))
+      : items;
 
-          return matchesItem || matchesVariant;
-        })
-      );
+    if (searchQuery.trim() === '') {
+      return scopedItems;
     }
-  }, [searchQuery, items]);
+
+    const query = searchQuery.toLowerCase();
+    return scopedItems.filter((item) => {
+      const matchesItem =
+        item.name.toLowerCase().includes(query) ||
+        (item.category && item.category.toLowerCase().includes(query)) ||
+        (item.description && item.description.toLowerCase().includes(query));
+
+      const matchesVariant = item.variants.some((variant: ProductVariant) => {
+        const value = variant.variant_value?.toLowerCase() || '';
+        const sku = variant.sku?.toLowerCase() || '';
+        const type = variant.variant_type?.toLowerCase() || '';
+
+        return (
+          value.includes(query) ||
+          sku.includes(query) ||
+          type.includes(query) ||
+          variant.price.toString().includes(query) ||
+          variant.quantity.toString().includes(query)
+        );
+      });
+
+      return matchesItem || matchesVariant;
+    });
+  }, [searchQuery, items, lowStockOnly]);
+
+  // The selection survives searches, so items picked under different filters can be edited together
+  const selectedProducts = useMemo(
+    () => items.filter((item) => selectedProductIds.has(item.id)),
+    [items, selectedProductIds]
+  );
+  const allFilteredSelected =
+    filteredItems.length > 0 && filteredItems.every((item) => selectedProductIds.has(item.id));
+
+  const toggleProductSelected = (itemId: string, checked: boolean) => {
+    setSelectedProductIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllFilteredSelected = (checked: boolean) => {
+    setSelectedProductIds((prev) => {
+      const next = new Set(prev);
+      filteredItems.forEach((item) => (checked ? next.add(item.id) : next.delete(item.id)));
+      return next;
+    });
+  };
+
+  // The dialog gets a copy so optimistic cache updates don't rewrite its summary mid-save
+  const openBulkAction = (kind: BulkActionKind) => {
+    setBulkAction({ kind, products: selectedProducts });
+  };
+
+  // Drop items deleted elsewhere from the selection
+  useEffect(() => {
+    setSelectedProductIds((prev) => {
+      const itemIds = new Set(items.map((item) => item.id));
+      const next = new Set(Array.from(prev).filter((id) => itemIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [items]);
 
   useEffect(() => {
     setSelectedVariantsMap((prev) => {
@@ -530,45 +376,12 @@ export default function AdminDashboard() {
     });
   }, [items]);
 
+  // Don't auto-select any category - user must choose explicitly
   useEffect(() => {
-    if (!removeCategoryOpen) {
-      setAvailableCategories([]);
-      setSelectedCategoryId('');
-      setCategoriesLoading(false);
-      setRemovingCategory(false);
-      setCategoryPickerOpen(false);
-      setCategoryPickerSearch('');
-      return;
-    }
-
-    const fetchCategories = async () => {
-      setCategoriesLoading(true);
-      try {
-        const { data, error } = await supabase
-          .from('category')
-          .select('id, name')
-          .order('name', { ascending: true });
-
-        if (error) throw error;
-
-        const categoryList = (data ?? []) as CategoryOption[];
-        setAvailableCategories(categoryList);
-        // Don't auto-select any category - user must choose explicitly
-        setSelectedCategoryId('');
-        setCategoryPickerSearch('');
-      } catch (error: any) {
-        toast({
-          variant: 'destructive',
-          title: 'Error',
-          description: error.message || 'Failed to load categories.',
-        });
-      } finally {
-        setCategoriesLoading(false);
-      }
-    };
-
-    fetchCategories();
-  }, [removeCategoryOpen, toast]);
+    setSelectedCategoryId('');
+    setCategoryPickerSearch('');
+    setCategoryPickerOpen(false);
+  }, [removeCategoryOpen]);
 
   useEffect(() => {
     if (availableCategories.length === 0) {
@@ -618,64 +431,31 @@ export default function AdminDashboard() {
     };
   }, [categoryPickerOpen]);
 
-  const fetchItems = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('product')
-        .select(
-          'id, name, description, category, is_visible, image_url, last_updated, updated_by, product_variants(*)'
-        )
-        .order('name', { ascending: true })
-        .order('variant_value', { referencedTable: 'product_variants', ascending: true });
-
-      if (error) throw error;
-      const typedData = ((data || []) as RawProduct[]).map((item) => ({
-        ...item,
-        variants: Array.isArray(item.product_variants) ? item.product_variants : [],
-      }));
-      setItems(typedData);
-      setFilteredItems(typedData);
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to fetch items',
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleEdit = (item: Product) => {
     setSelectedItem(item);
     setFormOpen(true);
   };
 
-  const handleDelete = async () => {
+  const handleDelete = () => {
     if (!itemToDelete) return;
 
-    try {
-      const { error } = await supabase
-        .from('product')
-        .delete()
-        .eq('id', itemToDelete.id);
-
-      if (error) throw error;
-
-      toast({
-        title: 'Success',
-        description: 'Item deleted successfully',
-      });
-      await fetchItems();
-      setDeleteDialogOpen(false);
-      setItemToDelete(null);
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to delete item',
-      });
-    }
+    deleteProduct.mutate(itemToDelete, {
+      onSuccess: () => {
+        toast({
+          title: 'Success',
+          description: 'Item deleted successfully',
+        });
+        setDeleteDialogOpen(false);
+        setItemToDelete(null);
+      },
+      onError: (error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to delete item',
+        });
+      },
+    });
   };
 
   const openDeleteDialog = (item: Product) => {
@@ -683,34 +463,25 @@ export default function AdminDashboard() {
     setDeleteDialogOpen(true);
   };
 
-  const handleVisibilityToggle = async (item: Product, isVisible: boolean) => {
-    try {
-      const { error } = await supabase
-        .from('product')
-        .update({ is_visible: isVisible, updated_by: profile?.id ?? null })
-        .eq('id', item.id);
-
-      if (error) throw error;
-
-      setItems((prev) =>
-        prev.map((existing) =>
-          existing.id === item.id ? { ...existing, is_visible: isVisible } : existing
-        )
-      );
-
-      await fetchItems();
-
-      toast({
-        title: 'Visibility updated',
-        description: `${item.name} is now ${isVisible ? 'visible' : 'hidden'} to customers.`,
-      });
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to update visibility',
-      });
-    }
+  const handleVisibilityToggle = (item: Product, isVisible: boolean) => {
+    setProductVisibility.mutate(
+      { product: item, isVisible },
+      {
+        onSuccess: () => {
+          toast({
+            title: 'Visibility updated',
+            description: `${item.name} is now ${isVisible ? 'visible' : 'hidden'} to customers.`,
+          });
+        },
+        onError: (error) => {
+          toast({
+            variant: 'destructive',
+            title: 'Error',
+            description: error.message || 'Failed to update visibility',
+          });
+        },
+      }
+    );
   };
 
   const openVariantForm = (item: Product, variant?: ProductVariant | null) => {
@@ -726,84 +497,19 @@ export default function AdminDashboard() {
     setVariantDeleteDialogOpen(true);
   };
 
-  const openQuantityDialog = (item: Product, variant: ProductVariant | null) => {
-    setQuantityEditItem({ item, variant });
-    const currentQuantity = variant?.quantity ?? 0;
-    setNewQuantity(currentQuantity.toString());
-    setQuantityDialogOpen(true);
-  };
-
-  const handleQuantityUpdate = async () => {
-    if (!quantityEditItem) return;
-
-    const qty = parseInt(newQuantity, 10);
-    if (isNaN(qty) || qty < 0) {
-      toast({
-        variant: 'destructive',
-        title: 'Invalid quantity',
-        description: 'Please enter a valid quantity (0 or greater).',
-      });
-      return;
-    }
-
-    try {
-      setUpdatingQuantity(true);
-
-      if (quantityEditItem.variant) {
-        // Update variant quantity
-        const { error } = await supabase
-          .from('product_variants')
-          .update({
-            quantity: qty,
-            updated_by: profile?.id ?? null,
-          })
-          .eq('id', quantityEditItem.variant.id);
-
-        if (error) throw error;
-      } else {
-        // Update item quantity (no variants)
-        const { error } = await supabase
-          .from('product')
-          .update({
-            quantity: qty,
-            last_updated: new Date().toISOString(),
-            updated_by: profile?.id ?? null,
-          })
-          .eq('id', quantityEditItem.item.id);
-
-        if (error) throw error;
-      }
-
-      toast({
-        title: 'Quantity updated',
-        description: 'The quantity has been updated successfully.',
-      });
-
-      await fetchItems();
-      setQuantityDialogOpen(false);
-      setQuantityEditItem(null);
-      setNewQuantity('');
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to update quantity.',
-      });
-    } finally {
-      setUpdatingQuantity(false);
-    }
-  };
-
-  const handleVariantDelete = async () => {
+  const handleVariantDelete = () => {
     if (!variantToDelete) return;
 
-    try {
-      const { error } = await supabase
-        .from('product_variants')
-        .delete()
-        .eq('id', variantToDelete.id);
+    const itemName = variantParentItemName;
 
-      if (error) {
+    deleteVariant.mutate(variantToDelete, {
+      onSuccess: () => {
+        toast({
+          title: 'Variant deleted',
+          description: `Removed variant from "${itemName}".`,
+        });
+      },
+      onError: (error) => {
         // Check if this is the "cannot delete last variant" error
         if (error.message?.includes('A product must have at least one variant')) {
           toast({
@@ -811,35 +517,24 @@ export default function AdminDashboard() {
             title: 'Cannot delete last variant',
             description: 'A product must have at least one variant. Add another variant before deleting this one.',
           });
-        } else {
-          throw error;
+          return;
         }
-        return;
-      }
 
-      toast({
-        title: 'Variant deleted',
-        description: `Removed variant from "${variantParentItemName}".`,
-      });
-      await fetchItems();
-      setVariantDeleteDialogOpen(false);
-      setVariantToDelete(null);
-      setVariantParentItemName('');
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to delete variant.',
-      });
-    } finally {
-      setVariantDeleteDialogOpen(false);
-      setVariantToDelete(null);
-      setVariantParentItemName('');
-    }
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to delete variant.',
+        });
+      },
+    });
+
+    setVariantDeleteDialogOpen(false);
+    setVariantToDelete(null);
+    setVariantParentItemName('');
   };
 
-  const handleRemoveCategory = async () => {
-    if (!selectedCategoryId) {
+  const handleRemoveCategory = () => {
+    if (!selectedCategory) {
       toast({
         variant: 'destructive',
         title: 'Select a category',
@@ -850,35 +545,22 @@ export default function AdminDashboard() {
 
     const categoryDetails = selectedCategory;
 
-    try {
-      setRemovingCategory(true);
-
-      const { error } = await supabase
-        .from('category')
-        .delete()
-        .eq('id', selectedCategoryId);
-
-      if (error) throw error;
-
-      toast({
-        title: 'Category removed',
-        description: categoryDetails
-          ? `"${categoryDetails.name}" has been deleted.`
-          : 'Category deleted successfully.',
-      });
-
-      setRemoveCategoryOpen(false);
-      await fetchItems();
-      await fetchCategoryCount();
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to remove category.',
-      });
-    } finally {
-      setRemovingCategory(false);
-    }
+    deleteCategory.mutate(categoryDetails, {
+      onSuccess: () => {
+        toast({
+          title: 'Category removed',
+          description: `"${categoryDetails.name}" has been deleted.`,
+        });
+        setRemoveCategoryOpen(false);
+      },
+      onError: (error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to remove category.',
+        });
+      },
+    });
   };
 
   const handleVariantFormOpenChange = (open: boolean) => {
@@ -898,38 +580,20 @@ export default function AdminDashboard() {
     }
   };
 
-  const totalQuantity = useMemo(
-    () =>
-      items.reduce((sum, item) => {
-        // All products have variants now
-        const variants = Array.isArray(item.variants) ? item.variants : [];
-        const variantTotal = variants.reduce(
-          (variantSum: number, variant: ProductVariant) => variantSum + variant.quantity,
-          0
-        );
-        return sum + variantTotal;
-      }, 0),
+  const stockByUnit = useMemo(
+    () => summarizeStockByUnit(items.flatMap((item) => (Array.isArray(item.variants) ? item.variants : []))),
     [items]
   );
-  const formatCurrency = (value: number | null | undefined) =>
-    new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-    }).format(value ?? 0);
-
-  const formatVariantTimestamp = (timestamp?: string | null) => {
-    if (!timestamp) {
-      return '—';
-    }
 
-    const utcDate = new Date(timestamp);
-    if (Number.isNaN(utcDate.getTime())) {
-      return '—';
-    }
-
-    const istDate = new Date(utcDate.getTime() + 5.5 * 60 * 60 * 1000);
-    return format(istDate, 'MMM d, yyyy • h:mm a');
-  };
+  const lowStockCount = useMemo(
+    () =>
+      items.reduce(
+        (count, item) =>
+          count + (Array.isArray(item.variants) ? item.variants.filter((variant: ProductVariant) => isLowStock(variant)).length : 0),
+        0
+      ),
+    [items]
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -939,7 +603,7 @@ export default function AdminDashboard() {
       />
 
       <div className="container mx-auto px-4 py-8">
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-8">
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-5 mb-8">
           <Card>
             <CardHeader className="pb-6 space-y-3">
               <CardDescription>Store Status</CardDescription>
@@ -964,30 +628,99 @@ export default function AdminDashboard() {
                   aria-label="Toggle store status"
                 />
               </div>
+              <div className="flex flex-wrap gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-fit px-2 text-xs text-muted-foreground"
+                  onClick={() => setStoreHoursOpen(true)}
+                >
+                  <Clock className="mr-1.5 h-3.5 w-3.5" />
+                  Weekly schedule
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-fit px-2 text-xs text-muted-foreground"
+                  onClick={() => setStoreExceptionsOpen(true)}
+                >
+                  <CalendarDays className="mr-1.5 h-3.5 w-3.5" />
+                  Holidays
+                </Button>
+              </div>
             </CardHeader>
           </Card>
           <Card>
             <CardHeader className="pb-6">
               <CardDescription>Total Items</CardDescription>
               <CardTitle className="text-3xl">{loading ? '—' : items.length}</CardTitle>
+              {!loading && (
+                <p className="text-xs text-muted-foreground">
+                  {STOCK_UNITS.filter((unit) => stockByUnit[unit] > 0)
+                    .map((unit) => formatStockQuantity(stockByUnit[unit], unit))
+                    .join(' • ') || 'No stock on hand'}
+                </p>
+              )}
             </CardHeader>
           </Card>
-          <Card>
+          <Card
+            role="button"
+            tabIndex={0}
+            onClick={() => navigate('/admin/valuation')}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                navigate('/admin/valuation');
+              }
+            }}
+            className="cursor-pointer transition-colors hover:border-primary/60"
+            title="Open the valuation report"
+          >
             <CardHeader className="pb-6">
-              <CardDescription>Total Quantity</CardDescription>
-              <CardTitle className="text-3xl">{loading ? '—' : totalQuantity}</CardTitle>
+              <CardDescription>Stock Value at Cost</CardDescription>
+              <CardTitle className="text-3xl">{stockValue ? formatCurrency(stockValue.costValue) : '—'}</CardTitle>
+              {stockValue && (
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(stockValue.retailValue)} at retail
+                  {stockValue.missingCostCount > 0 && ` • ${stockValue.missingCostCount} without cost`}
+                </p>
+              )}
+            </CardHeader>
+          </Card>
+          <Card
+            role="button"
+            tabIndex={0}
+            onClick={() => setLowStockOnly((prev) => !prev)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                setLowStockOnly((prev) => !prev);
+              }
+            }}
+            className={`cursor-pointer transition-colors hover:border-amber-500/60 ${lowStockOnly ? 'border-amber-500' : ''}`}
+            title={lowStockOnly ? 'Show all items' : 'Show low stock items only'}
+          >
+            <CardHeader className="pb-6">
+              <CardDescription>Low Stock</CardDescription>
+              <CardTitle className={`text-3xl ${!loading && lowStockCount > 0 ? 'text-amber-600' : ''}`}>
+                {loading ? '—' : lowStockCount}
+              </CardTitle>
             </CardHeader>
           </Card>
           <Card>
             <CardHeader className="pb-6">
               <CardDescription>Categories</CardDescription>
               <CardTitle className="text-3xl">
-                {categoryCountLoading ? '—' : categoryCount}
+                {categoriesLoading ? '—' : categoryCount}
               </CardTitle>
             </CardHeader>
           </Card>
         </div>
 
+        <RecentOrders />
+
+        <ExpiringBatches />
+
         <Card className="mb-6">
           <CardHeader className="space-y-4">
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -996,6 +729,7 @@ export default function AdminDashboard() {
                 <CardDescription>Manage products and their variants</CardDescription>
               </div>
               <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-3">
+                <StockAlertsFeed />
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
@@ -1017,12 +751,38 @@ export default function AdminDashboard() {
                       <CircleMinus className="mr-2 h-4 w-4" />
                       Remove Category
                     </DropdownMenuItem>
-                    <DropdownMenuItem onSelect={() => fetchItems()}>
+                    <DropdownMenuItem onSelect={() => setImportOpen(true)}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Import Products
+                    </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger disabled={loading}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export Catalog
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        <DropdownMenuItem onSelect={() => exportCatalog('csv')}>CSV</DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => exportCatalog('json')}>JSON Backup</DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => navigate('/admin/price-list')}>
+                          Printable Price List
+                        </DropdownMenuItem>
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                    <DropdownMenuItem onSelect={() => productsQuery.refetch()}>
                       <RefreshCw className="mr-2 h-4 w-4" />
                       Refresh Data
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
+                <Button
+                  variant={gridMode ? 'secondary' : 'outline'}
+                  onClick={() => setGridMode(true)}
+                  disabled={gridMode || loading}
+                  className="w-full rounded-[var(--radius)] border border-border sm:w-auto"
+                >
+                  <Grid3x3 className="w-4 h-4 mr-2" />
+                  Edit Grid
+                </Button>
                 <Button
                   onClick={() => {
                     setSelectedItem(null);
@@ -1052,6 +812,16 @@ export default function AdminDashboard() {
                 className="pl-10"
               />
             </div>
+            {lowStockOnly && (
+              <div className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
+                <Badge variant="outline" className="border-amber-500 text-amber-600">
+                  Low stock only
+                </Badge>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setLowStockOnly(false)}>
+                  Show all
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -1059,6 +829,9 @@ export default function AdminDashboard() {
           <div className="text-center py-12 text-muted-foreground">
             Loading inventory...
           </div>
+        ) : gridMode ? (
+          // Stays mounted through searches that match nothing, so unsaved edits survive
+          <InventoryGrid products={filteredItems} catalog={items} onClose={() => setGridMode(false)} />
         ) : filteredItems.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
@@ -1081,11 +854,50 @@ export default function AdminDashboard() {
           </Card>
         ) : (
           <>
+            {selectedProducts.length > 0 && (
+              <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border border-border bg-muted/40 px-3 py-2">
+                <span className="mr-auto text-sm font-medium">
+                  {selectedProducts.length} selected
+                </span>
+                <Button variant="outline" size="sm" onClick={() => openBulkAction('category')}>
+                  Set Category
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => openBulkAction('show')}>
+                  Show
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => openBulkAction('hide')}>
+                  Hide
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => openBulkAction('price')}>
+                  Change Prices
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => openBulkAction('delete')}>
+                  Delete
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setSelectedProductIds(new Set())}
+                  title="Clear selection"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
             {/* Desktop Table View */}
             <div className="hidden md:block rounded-md border border-border]">
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allFilteredSelected}
+                        onCheckedChange={(checked) => toggleAllFilteredSelected(checked === true)}
+                        aria-label="Select all items"
+                      />
+                    </TableHead>
                     <TableHead>Item</TableHead>
                     <TableHead className="text-center">Category</TableHead>
                     <TableHead className="text-center">SKU</TableHead>
@@ -1113,7 +925,15 @@ export default function AdminDashboard() {
                       <TableRow
                         key={item.id}
                         className={!item.is_visible ? 'bg-muted/40' : undefined}
+                        data-state={selectedProductIds.has(item.id) ? 'selected' : undefined}
                       >
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedProductIds.has(item.id)}
+                            onCheckedChange={(checked) => toggleProductSelected(item.id, checked === true)}
+                            aria-label={`Select ${item.name}`}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="flex flex-col gap-2">
                             <div className="flex flex-wrap items-center gap-2">
@@ -1189,7 +1009,10 @@ export default function AdminDashboard() {
                         </TableCell>
                         <TableCell className="text-center">
                           {displayPrice !== null ? (
-                            <span className="font-medium">{formatCurrency(displayPrice)}</span>
+                            <span className="font-medium">
+                              {formatCurrency(displayPrice)}
+                              {activeVariant && isSoldByWeight(activeVariant) ? '/kg' : ''}
+                            </span>
                           ) : (
                             <span className="text-muted-foreground text-sm">—</span>
                           )}
@@ -1197,8 +1020,12 @@ export default function AdminDashboard() {
                         <TableCell className="text-center">
                           <div className="flex items-center justify-center gap-2">
                             {displayQuantity !== null ? (
-                              <Badge variant={displayQuantity === 0 ? 'destructive' : 'default'}>
-                                {displayQuantity}
+                              <Badge
+                                variant={displayQuantity === 0 ? 'destructive' : activeVariant && isLowStock(activeVariant) ? 'outline' : 'default'}
+                                className={displayQuantity !== 0 && activeVariant && isLowStock(activeVariant) ? 'border-amber-500 text-amber-600' : undefined}
+                                title={activeVariant && activeVariant.reorder_level > 0 ? `Reorder level ${activeVariant.reorder_level}` : undefined}
+                              >
+                                {activeVariant ? formatStockQuantity(displayQuantity, activeVariant.stock_unit) : displayQuantity}
                               </Badge>
                             ) : (
                               <Badge variant="outline">—</Badge>
@@ -1207,8 +1034,9 @@ export default function AdminDashboard() {
                               variant="ghost"
                               size="sm"
                               className="h-7 w-7 p-0"
-                              onClick={() => openQuantityDialog(item, activeVariant)}
-                              title="Update quantity"
+                              onClick={() => activeVariant && setStockAdjustTarget({ item, variant: activeVariant })}
+                              disabled={!activeVariant}
+                              title="Adjust stock"
                             >
                               <Pencil className="h-3.5 w-3.5" />
                             </Button>
@@ -1228,7 +1056,7 @@ export default function AdminDashboard() {
                           </div>
                         </TableCell>
                         <TableCell className="text-center text-sm text-muted-foreground">
-                          {lastUpdatedValue ? formatVariantTimestamp(lastUpdatedValue) : '—'}
+                          {lastUpdatedValue ? formatTimestamp(lastUpdatedValue) : '—'}
                         </TableCell>
                         <TableCell className="text-center">
                           <DropdownMenu>
@@ -1264,6 +1092,16 @@ export default function AdminDashboard() {
                                         >
                                           Edit Variant
                                         </DropdownMenuItem>
+                                        <DropdownMenuItem
+                                          onSelect={() => setStockHistoryTarget({ item, variant })}
+                                        >
+                                          Stock History
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem
+                                          onSelect={() => setBatchesTarget({ item, variant })}
+                                        >
+                                          Batches
+                                        </DropdownMenuItem>
                                         <DropdownMenuItem
                                           className="text-destructive focus:text-destructive"
                                           onSelect={() => openVariantDeleteDialog(item, variant)}
@@ -1309,7 +1147,14 @@ export default function AdminDashboard() {
                   >
                     <CardHeader className="space-y-2 pb-4">
                       <div className="flex flex-wrap items-center justify-between gap-3">
-                        <CardTitle className="text-lg">{item.name}</CardTitle>
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            checked={selectedProductIds.has(item.id)}
+                            onCheckedChange={(checked) => toggleProductSelected(item.id, checked === true)}
+                            aria-label={`Select ${item.name}`}
+                          />
+                          <CardTitle className="text-lg">{item.name}</CardTitle>
+                        </div>
                         {item.category && (
                           <Badge variant="secondary" className="ml-auto">
                             {item.category}
@@ -1369,18 +1214,24 @@ export default function AdminDashboard() {
                                 variant={
                                   displayQuantity !== null && displayQuantity === 0
                                     ? 'destructive'
-                                    : 'default'
+                                    : activeVariant && isLowStock(activeVariant)
+                                      ? 'outline'
+                                      : 'default'
                                 }
-                                className="px-3 py-1"
+                                className={`px-3 py-1 ${displayQuantity !== 0 && activeVariant && isLowStock(activeVariant) ? 'border-amber-500 text-amber-600' : ''}`}
+                                title={activeVariant && activeVariant.reorder_level > 0 ? `Reorder level ${activeVariant.reorder_level}` : undefined}
                               >
-                                {displayQuantity ?? '—'}
+                                {displayQuantity !== null && activeVariant
+                                  ? formatStockQuantity(displayQuantity, activeVariant.stock_unit)
+                                  : '—'}
                               </Badge>
                               <Button
                                 variant="ghost"
                                 size="sm"
                                 className="h-7 w-7 p-0"
-                                onClick={() => openQuantityDialog(item, activeVariant)}
-                                title="Update quantity"
+                                onClick={() => activeVariant && setStockAdjustTarget({ item, variant: activeVariant })}
+                                disabled={!activeVariant}
+                                title="Adjust stock"
                               >
                                 <Pencil className="h-3.5 w-3.5" />
                               </Button>
@@ -1390,13 +1241,14 @@ export default function AdminDashboard() {
                             <p className="text-xs text-muted-foreground mb-1.5">Price</p>
                             <p className="text-base font-semibold">
                               {displayPrice !== null ? formatCurrency(displayPrice) : '—'}
+                              {displayPrice !== null && activeVariant && isSoldByWeight(activeVariant) ? '/kg' : ''}
                             </p>
                           </div>
                         </div>
                         <div className="text-xs text-muted-foreground pt-2 border-t border-border/50 dark:border-[#080808]/50">
                           <span className="inline-block">Last Updated:</span>{' '}
                           <span className="font-medium">
-                            {lastUpdatedValue ? formatVariantTimestamp(lastUpdatedValue) : '—'}
+                            {lastUpdatedValue ? formatTimestamp(lastUpdatedValue) : '—'}
                           </span>
                         </div>
                       </div>
@@ -1449,6 +1301,16 @@ export default function AdminDashboard() {
                                       >
                                         Edit Variant
                                       </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        onSelect={() => setStockHistoryTarget({ item, variant })}
+                                      >
+                                        Stock History
+                                      </DropdownMenuItem>
+                                      <DropdownMenuItem
+                                        onSelect={() => setBatchesTarget({ item, variant })}
+                                      >
+                                        Batches
+                                      </DropdownMenuItem>
                                       <DropdownMenuItem
                                         className="text-destructive focus:text-destructive"
                                         onSelect={() => openVariantDeleteDialog(item, variant)}
@@ -1483,15 +1345,39 @@ export default function AdminDashboard() {
         open={formOpen}
         onOpenChange={setFormOpen}
         item={selectedItem}
-        onSuccess={fetchItems}
+      />
+
+      <StoreHoursEditor
+        open={storeHoursOpen}
+        onOpenChange={setStoreHoursOpen}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: STORE_STATUS_QUERY_KEY })}
+      />
+
+      <StoreExceptionsEditor
+        open={storeExceptionsOpen}
+        onOpenChange={setStoreExceptionsOpen}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: STORE_STATUS_QUERY_KEY })}
       />
 
       <CategoryForm
         open={categoryFormOpen}
         onOpenChange={setCategoryFormOpen}
+      />
+
+      <ProductImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+      />
+
+      <BulkActionDialog
+        open={Boolean(bulkAction)}
+        onOpenChange={(open) => {
+          if (!open) setBulkAction(null);
+        }}
+        kind={bulkAction?.kind ?? 'category'}
+        products={bulkAction?.products ?? []}
         onSuccess={() => {
-          void fetchItems();
-          void fetchCategoryCount();
+          if (bulkAction?.kind === 'delete') setSelectedProductIds(new Set());
         }}
       />
 
@@ -1635,7 +1521,6 @@ export default function AdminDashboard() {
         itemId={variantParentItemId}
         itemName={variantParentItemName}
         variant={selectedVariant}
-        onSuccess={fetchItems}
       />
 
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
@@ -1675,59 +1560,34 @@ export default function AdminDashboard() {
         </AlertDialogContent>
       </AlertDialog>
 
-      <Dialog open={quantityDialogOpen} onOpenChange={setQuantityDialogOpen}>
-        <DialogContent className="sm:max-w-[425px]">
-          <DialogHeader>
-            <DialogTitle>Update Quantity</DialogTitle>
-            <DialogDescription>
-              {quantityEditItem?.variant
-                ? `Update the quantity for variant "${quantityEditItem.variant.variant_value}" of "${quantityEditItem.item.name}"`
-                : `Update the quantity for "${quantityEditItem?.item.name}"`
-              }
-            </DialogDescription>
-          </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <div className="grid gap-2">
-              <label htmlFor="quantity" className="text-sm font-medium">
-                New Quantity
-              </label>
-              <Input
-                id="quantity"
-                type="number"
-                min="0"
-                step="1"
-                value={newQuantity}
-                onChange={(e) => setNewQuantity(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') {
-                    e.preventDefault();
-                    handleQuantityUpdate();
-                  }
-                }}
-                placeholder="Enter quantity"
-                disabled={updatingQuantity}
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => setQuantityDialogOpen(false)}
-              disabled={updatingQuantity}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="button"
-              onClick={handleQuantityUpdate}
-              disabled={updatingQuantity}
-            >
-              {updatingQuantity ? 'Updating...' : 'Update Quantity'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <StockHistoryDialog
+        open={Boolean(stockHistoryTarget)}
+        onOpenChange={(open) => {
+          if (!open) setStockHistoryTarget(null);
+        }}
+        productName={stockHistoryTarget?.item.name ?? ''}
+        variant={stockHistoryTarget?.variant ?? null}
+      />
+
+      <BatchesDialog
+        open={Boolean(batchesTarget)}
+        onOpenChange={(open) => {
+          if (!open) setBatchesTarget(null);
+        }}
+        productName={batchesTarget?.item.name ?? ''}
+        variant={batchesTarget?.variant ?? null}
+        onSuccess={invalidateProducts}
+      />
+
+      <StockAdjustmentDialog
+        open={Boolean(stockAdjustTarget)}
+        onOpenChange={(open) => {
+          if (!open) setStockAdjustTarget(null);
+        }}
+        productName={stockAdjustTarget?.item.name ?? ''}
+        variant={stockAdjustTarget?.variant ?? null}
+        onSuccess={invalidateProducts}
+      />
     </div >
   );
 }
\ No newline at end of file
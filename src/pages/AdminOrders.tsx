@@ -0,0 +1,488 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { DateRange } from 'react-day-picker';
+import { supabase, Order, OrderStatus } from '@/lib/supabase';
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_BADGE_VARIANTS,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_TRANSITIONS,
+} from '@/lib/orders';
+import { formatWeight } from '@/lib/pricing';
+import { formatCurrency, formatTimestamp } from '@/lib/catalog';
+import { getStoreDayBounds } from '@/lib/store-hours';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, CalendarIcon, ClipboardList, Search, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+export default function AdminOrders() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | OrderStatus>('all');
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [customerQuery, setCustomerQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  // Orders this tab just changed, so their realtime echo does not raise a toast
+  const localUpdatesRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(customerQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [customerQuery]);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('orders')
+        .select('*, order_items(*)')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      if (dateRange?.from) {
+        // The calendar picks days; orders are filtered by those days in store time
+        const { from, to } = getStoreDayBounds(
+          format(dateRange.from, 'yyyy-MM-dd'),
+          format(dateRange.to ?? dateRange.from, 'yyyy-MM-dd')
+        );
+        query = query.gte('created_at', from).lt('created_at', to);
+      }
+
+      if (debouncedQuery) {
+        // Strip characters that would break the PostgREST or() filter syntax
+        const term = debouncedQuery.replace(/[,()%*]/g, ' ');
+        query = query.or(
+          `customer_name.ilike.%${term}%,customer_phone.ilike.%${term}%,order_number.ilike.%${term}%`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const nextOrders = (data ?? []) as Order[];
+      setOrders(nextOrders);
+      setSelectedOrder((current) =>
+        current ? nextOrders.find((order) => order.id === current.id) ?? current : null
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load orders',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, dateRange, debouncedQuery, toast]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const fetchOrdersRef = useRef(fetchOrders);
+  useEffect(() => {
+    fetchOrdersRef.current = fetchOrders;
+  }, [fetchOrders]);
+
+  useEffect(() => {
+    const ordersChannel = supabase
+      .channel('order_changes_admin')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders' },
+        (payload) => {
+          const next = (payload.new as Partial<Order>) || {};
+
+          if (payload.eventType === 'INSERT' && next.order_number) {
+            toast({
+              title: 'New order',
+              description: `${next.order_number} from ${next.customer_name ?? 'a customer'}`,
+            });
+          } else if (payload.eventType === 'UPDATE' && next.id && next.status) {
+            if (localUpdatesRef.current.has(next.id)) {
+              localUpdatesRef.current.delete(next.id);
+            } else {
+              toast({
+                title: 'Order updated',
+                description: `${next.order_number} is now ${ORDER_STATUS_LABELS[next.status]}.`,
+              });
+            }
+          }
+
+          fetchOrdersRef.current();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      ordersChannel.unsubscribe();
+    };
+  }, [toast]);
+
+  const handleStatusChange = async (order: Order, nextStatus: OrderStatus) => {
+    try {
+      setUpdatingStatus(true);
+      localUpdatesRef.current.add(order.id);
+
+      const { data, error } = await supabase.rpc('update_order_status', {
+        p_order_id: order.id,
+        p_status: nextStatus,
+      });
+
+      if (error) throw error;
+
+      const updated = data as Order;
+      setOrders((prev) =>
+        prev.map((existing) =>
+          existing.id === updated.id ? { ...existing, ...updated } : existing
+        )
+      );
+      setSelectedOrder((current) =>
+        current && current.id === updated.id ? { ...current, ...updated } : current
+      );
+
+      toast({
+        title: 'Order updated',
+        description:
+          nextStatus === 'cancelled'
+            ? `${order.order_number} was cancelled and its stock was restored.`
+            : `${order.order_number} is now ${ORDER_STATUS_LABELS[nextStatus]}.`,
+      });
+    } catch (error: any) {
+      localUpdatesRef.current.delete(order.id);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to update order status',
+      });
+    } finally {
+      setUpdatingStatus(false);
+      setCancelDialogOpen(false);
+    }
+  };
+
+  const hasFilters = statusFilter !== 'all' || Boolean(dateRange?.from) || customerQuery !== '';
+  const dateLabel = dateRange?.from
+    ? dateRange.to && dateRange.to.getTime() !== dateRange.from.getTime()
+      ? `${format(dateRange.from, 'MMM d')} – ${format(dateRange.to, 'MMM d, yyyy')}`
+      : format(dateRange.from, 'MMM d, yyyy')
+    : 'Any date';
+
+  const selectedTransitions = selectedOrder ? ORDER_STATUS_TRANSITIONS[selectedOrder.status] : [];
+  const forwardTransition = selectedTransitions.find((status) => status !== 'cancelled');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Shreeji Foods" subtitle={profile?.email ?? ''} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader className="space-y-4">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Orders</CardTitle>
+                <CardDescription>Track pickup orders from placement to collection</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                className="w-full rounded-[var(--radius)] border-border sm:w-auto"
+                onClick={() => navigate('/admin')}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Inventory
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-col gap-3 md:flex-row">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-muted-foreground pointer-events-none" />
+                <Input
+                  type="text"
+                  placeholder="Search by customer, phone or order number..."
+                  value={customerQuery}
+                  onChange={(e) => setCustomerQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | OrderStatus)}>
+                <SelectTrigger className="md:w-48">
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {ORDER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {ORDER_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="justify-start border-border md:w-64">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dateLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={dateRange}
+                    onSelect={setDateRange}
+                    numberOfMonths={1}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {hasFilters && (
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    setStatusFilter('all');
+                    setDateRange(undefined);
+                    setCustomerQuery('');
+                  }}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Clear
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="text-center py-12 text-muted-foreground">Loading orders...</div>
+        ) : orders.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <ClipboardList className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {hasFilters ? 'No orders match your filters' : 'No orders yet'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-center">Items</TableHead>
+                  <TableHead className="text-center">Total</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                  <TableHead className="text-center">Placed</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => {
+                  const lines = order.order_items ?? [];
+                  const unitCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+                  const nextStatus = ORDER_STATUS_TRANSITIONS[order.status].find(
+                    (status) => status !== 'cancelled'
+                  );
+
+                  return (
+                    <TableRow
+                      key={order.id}
+                      className={order.status === 'cancelled' ? 'bg-muted/40' : undefined}
+                    >
+                      <TableCell>
+                        <code className="text-xs bg-muted px-2 py-1 rounded">{order.order_number}</code>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{order.customer_name}</div>
+                        <div className="text-xs text-muted-foreground">{order.customer_phone}</div>
+                      </TableCell>
+                      <TableCell className="text-center">{unitCount}</TableCell>
+                      <TableCell className="text-center font-medium">{formatCurrency(order.total)}</TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={ORDER_STATUS_BADGE_VARIANTS[order.status]}>
+                          {ORDER_STATUS_LABELS[order.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center text-sm text-muted-foreground">
+                        {formatTimestamp(order.created_at)}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <div className="flex items-center justify-center gap-2">
+                          {nextStatus && (
+                            <Button
+                              size="sm"
+                              onClick={() => handleStatusChange(order, nextStatus)}
+                              disabled={updatingStatus}
+                            >
+                              Mark {ORDER_STATUS_LABELS[nextStatus]}
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="border-border"
+                            onClick={() => setSelectedOrder(order)}
+                          >
+                            View
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={selectedOrder !== null} onOpenChange={(open) => !open && setSelectedOrder(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-3">
+              {selectedOrder?.order_number}
+              {selectedOrder && (
+                <Badge variant={ORDER_STATUS_BADGE_VARIANTS[selectedOrder.status]}>
+                  {ORDER_STATUS_LABELS[selectedOrder.status]}
+                </Badge>
+              )}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedOrder
+                ? `${selectedOrder.customer_name} • ${selectedOrder.customer_phone} • ${formatTimestamp(selectedOrder.created_at)}`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedOrder && (
+            <div className="space-y-4">
+              <ul className="divide-y divide-border rounded-md border border-border">
+                {(selectedOrder.order_items ?? []).map((line) => (
+                  <li key={line.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{line.product_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.weight_grams ? `${formatWeight(line.weight_grams)} loose` : line.variant_value} •{' '}
+                        <span className="font-mono">{line.sku}</span>
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">{formatCurrency(line.line_total)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.quantity} × {formatCurrency(line.unit_price)}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-muted-foreground">Total</span>
+                <span className="text-lg font-bold">{formatCurrency(selectedOrder.total)}</span>
+              </div>
+              {selectedOrder.notes && (
+                <div className="rounded-md bg-muted p-3 text-sm">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Customer notes</p>
+                  {selectedOrder.notes}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Last updated {formatTimestamp(selectedOrder.updated_at)}
+              </p>
+            </div>
+          )}
+          <DialogFooter className="pt-2">
+            {selectedTransitions.includes('cancelled') && (
+              <Button
+                variant="destructive"
+                onClick={() => setCancelDialogOpen(true)}
+                disabled={updatingStatus}
+              >
+                Cancel Order
+              </Button>
+            )}
+            {selectedOrder && forwardTransition && (
+              <Button
+                onClick={() => handleStatusChange(selectedOrder, forwardTransition)}
+                disabled={updatingStatus}
+              >
+                {updatingStatus ? 'Updating...' : `Mark ${ORDER_STATUS_LABELS[forwardTransition]}`}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedOrder?.order_number} will be cancelled and its items will be added back to stock.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedOrder && handleStatusChange(selectedOrder, 'cancelled')}
+            >
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { PriceList } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useProducts } from '@/hooks/use-products';
+import { useDeletePriceList, usePriceLists } from '@/hooks/use-price-lists';
+import {
+  PRICE_LIST_STATUS_BADGE_VARIANTS,
+  PRICE_LIST_STATUS_LABELS,
+  formatPriceListDateTime,
+  getPriceListStatus,
+} from '@/lib/price-lists';
+import Header from '@/components/Header';
+import PriceListForm from '@/components/PriceListForm';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Eye, Pencil, Plus, Tag, Trash2 } from 'lucide-react';
+
+export default function AdminPriceLists() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: priceLists = [], isLoading } = usePriceLists();
+  const { data: products = [] } = useProducts();
+  const deletePriceList = useDeletePriceList();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingList, setEditingList] = useState<PriceList | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<PriceList | null>(null);
+
+  const openForm = (list: PriceList | null) => {
+    setEditingList(list);
+    setFormOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+
+    deletePriceList.mutate(deleteTarget, {
+      onSuccess: () => {
+        toast({
+          title: 'Price list deleted',
+          description: deleteTarget.is_applied
+            ? `${deleteTarget.name} removed and regular prices restored.`
+            : `${deleteTarget.name} removed.`,
+        });
+        setDeleteTarget(null);
+      },
+      onError: (error) => {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to delete price list',
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Shreeji Foods" subtitle={profile?.email ?? ''} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Price Lists</CardTitle>
+                <CardDescription>
+                  Festival prices switch on and off by themselves at the times you set
+                </CardDescription>
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Button
+                  variant="outline"
+                  className="w-full rounded-[var(--radius)] border-border sm:w-auto"
+                  onClick={() => navigate('/admin')}
+                >
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Inventory
+                </Button>
+                <Button className="w-full sm:w-auto" onClick={() => openForm(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Price List
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-12 text-muted-foreground">Loading price lists...</div>
+            ) : priceLists.length === 0 ? (
+              <div className="text-center py-12">
+                <Tag className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No price lists yet</p>
+              </div>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Runs</TableHead>
+                      <TableHead className="text-center">Status</TableHead>
+                      <TableHead className="text-center">Prices</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {priceLists.map((list) => {
+                      const status = getPriceListStatus(list);
+
+                      return (
+                        <TableRow key={list.id}>
+                          <TableCell className="font-medium">{list.name}</TableCell>
+                          <TableCell className="text-sm">
+                            <div>{formatPriceListDateTime(list.starts_at)}</div>
+                            <div className="text-muted-foreground">to {formatPriceListDateTime(list.ends_at)}</div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Badge variant={PRICE_LIST_STATUS_BADGE_VARIANTS[status]}>
+                              {PRICE_LIST_STATUS_LABELS[status]}
+                            </Badge>
+                            {status === 'live' && !list.is_applied && (
+                              <div className="mt-1 text-xs text-muted-foreground">Switching prices...</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center text-sm">
+                            {list.price_list_items?.length ?? 0}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Preview in store"
+                                onClick={() => navigate(`/products?priceList=${list.id}`)}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" title="Edit" onClick={() => openForm(list)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Delete"
+                                onClick={() => setDeleteTarget(list)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PriceListForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        priceList={editingList}
+        products={products}
+      />
+
+      <AlertDialog
+        open={Boolean(deleteTarget)}
+        onOpenChange={(open) => {
+          if (!open) setDeleteTarget(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.is_applied
+                ? 'These prices are live now. Deleting the list puts the regular prices back straight away.'
+                : 'The list and its prices will be removed. This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deletePriceList.isPending}>Keep List</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                handleDelete();
+              }}
+              disabled={deletePriceList.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete List
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
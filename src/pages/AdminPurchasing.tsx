@@ -0,0 +1,542 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { supabase, PurchaseOrder, PurchaseOrderStatus, Supplier } from '@/lib/supabase';
+import type { TablesUpdate } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PURCHASE_ORDER_STATUSES,
+  PURCHASE_ORDER_STATUS_BADGE_VARIANTS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  formatCost,
+} from '@/lib/purchasing';
+import Header from '@/components/Header';
+import SupplierForm from '@/components/SupplierForm';
+import PurchaseOrderForm from '@/components/PurchaseOrderForm';
+import ReceivePurchaseOrderDialog from '@/components/ReceivePurchaseOrderDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, PackageCheck, Pencil, Plus, Printer, Send, Truck, X } from 'lucide-react';
+
+export default function AdminPurchasing() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | PurchaseOrderStatus>('all');
+  const [orderFormOpen, setOrderFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiveTarget, setReceiveTarget] = useState<PurchaseOrder | null>(null);
+  const [cancelTarget, setCancelTarget] = useState<PurchaseOrder | null>(null);
+  const [supplierFormOpen, setSupplierFormOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchPurchaseOrders = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('purchase_orders')
+        .select('*, suppliers(*), purchase_order_lines(*, product_variants(stock_unit))')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setPurchaseOrders((data ?? []) as PurchaseOrder[]);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load purchase orders',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setSuppliers((data ?? []) as Supplier[]);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load suppliers',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPurchaseOrders();
+  }, [fetchPurchaseOrders]);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  const openPrintView = (order: PurchaseOrder) => {
+    navigate(`/admin/purchasing/${order.id}/print`);
+  };
+
+  const handleSend = async (order: PurchaseOrder) => {
+    try {
+      setUpdatingId(order.id);
+
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          updated_by: profile?.id ?? null,
+        } satisfies TablesUpdate<'purchase_orders'>)
+        .eq('id', order.id)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+
+      toast({
+        title: 'Purchase order sent',
+        description: `${order.po_number} is ready to print or save as PDF for ${order.suppliers?.name ?? 'the supplier'}.`,
+      });
+
+      await fetchPurchaseOrders();
+      openPrintView(order);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to send purchase order',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+
+    try {
+      setUpdatingId(cancelTarget.id);
+
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({
+          status: 'cancelled',
+          updated_by: profile?.id ?? null,
+        } satisfies TablesUpdate<'purchase_orders'>)
+        .eq('id', cancelTarget.id)
+        .in('status', ['draft', 'sent']);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Purchase order cancelled',
+        description: `${cancelTarget.po_number} has been cancelled.`,
+      });
+
+      setCancelTarget(null);
+      await fetchPurchaseOrders();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to cancel purchase order',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleSupplierActiveChange = async (supplier: Supplier, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('suppliers')
+        .update({
+          is_active: isActive,
+          updated_by: profile?.id ?? null,
+        } satisfies TablesUpdate<'suppliers'>)
+        .eq('id', supplier.id);
+
+      if (error) throw error;
+
+      setSuppliers((prev) =>
+        prev.map((entry) => (entry.id === supplier.id ? { ...entry, is_active: isActive } : entry))
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to update supplier',
+      });
+    }
+  };
+
+  // Counted in lines, since a PO can mix packs and loose kilograms
+  const describeReceived = (order: PurchaseOrder) => {
+    const lines = order.purchase_order_lines ?? [];
+    const received = lines.filter((line) => line.quantity_received >= line.quantity_ordered).length;
+    return `${received} / ${lines.length} lines`;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Shreeji Foods" subtitle={profile?.email ?? ''} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Purchasing</CardTitle>
+                <CardDescription>Order stock from suppliers and receive deliveries into inventory</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                className="w-full rounded-[var(--radius)] border-border sm:w-auto"
+                onClick={() => navigate('/admin')}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Inventory
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <Tabs defaultValue="orders">
+          <TabsList className="mb-4">
+            <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+            <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                  <Select
+                    value={statusFilter}
+                    onValueChange={(value) => setStatusFilter(value as 'all' | PurchaseOrderStatus)}
+                  >
+                    <SelectTrigger className="md:w-56">
+                      <SelectValue placeholder="All statuses" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      {PURCHASE_ORDER_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {PURCHASE_ORDER_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={() => {
+                      setEditingOrder(null);
+                      setOrderFormOpen(true);
+                    }}
+                    disabled={suppliers.length === 0}
+                    title={suppliers.length === 0 ? 'Add a supplier first' : undefined}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Purchase Order
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center py-12 text-muted-foreground">Loading purchase orders...</div>
+                ) : purchaseOrders.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Truck className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">
+                      {statusFilter !== 'all' ? 'No purchase orders with this status' : 'No purchase orders yet'}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="rounded-md border border-border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>PO</TableHead>
+                          <TableHead>Supplier</TableHead>
+                          <TableHead className="text-center">Status</TableHead>
+                          <TableHead className="text-center">Expected</TableHead>
+                          <TableHead className="text-center">Received</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {purchaseOrders.map((order) => {
+                          const busy = updatingId === order.id;
+
+                          return (
+                            <TableRow key={order.id}>
+                              <TableCell>
+                                <div className="font-medium">{order.po_number}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {format(parseISO(order.created_at), 'd MMM yyyy')}
+                                </div>
+                              </TableCell>
+                              <TableCell>{order.suppliers?.name ?? '—'}</TableCell>
+                              <TableCell className="text-center">
+                                <Badge variant={PURCHASE_ORDER_STATUS_BADGE_VARIANTS[order.status]}>
+                                  {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-center text-sm">
+                                {order.expected_on ? format(parseISO(order.expected_on), 'd MMM') : '—'}
+                              </TableCell>
+                              <TableCell className="text-center text-sm">{describeReceived(order)}</TableCell>
+                              <TableCell className="text-right font-medium">{formatCost(order.total)}</TableCell>
+                              <TableCell>
+                                <div className="flex justify-end gap-1">
+                                  {order.status === 'draft' && (
+                                    <>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Edit"
+                                        onClick={() => {
+                                          setEditingOrder(order);
+                                          setOrderFormOpen(true);
+                                        }}
+                                        disabled={busy}
+                                      >
+                                        <Pencil className="h-4 w-4" />
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Send to supplier"
+                                        onClick={() => handleSend(order)}
+                                        disabled={busy}
+                                      >
+                                        <Send className="h-4 w-4" />
+                                      </Button>
+                                    </>
+                                  )}
+                                  {(order.status === 'sent' || order.status === 'partially_received') && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      title="Receive stock"
+                                      onClick={() => setReceiveTarget(order)}
+                                      disabled={busy}
+                                    >
+                                      <PackageCheck className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Print / save as PDF"
+                                    onClick={() => openPrintView(order)}
+                                  >
+                                    <Printer className="h-4 w-4" />
+                                  </Button>
+                                  {(order.status === 'draft' || order.status === 'sent') && (
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      title="Cancel"
+                                      className="text-destructive hover:text-destructive"
+                                      onClick={() => setCancelTarget(order)}
+                                      disabled={busy}
+                                    >
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="suppliers">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <CardDescription>Inactive suppliers are hidden when drafting new orders</CardDescription>
+                  <Button
+                    onClick={() => {
+                      setEditingSupplier(null);
+                      setSupplierFormOpen(true);
+                    }}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Supplier
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {suppliers.length === 0 ? (
+                  <div className="text-center py-12 text-muted-foreground">No suppliers yet</div>
+                ) : (
+                  <div className="rounded-md border border-border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Supplier</TableHead>
+                          <TableHead>Contact</TableHead>
+                          <TableHead>GSTIN</TableHead>
+                          <TableHead className="text-center">Active</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {suppliers.map((supplier) => (
+                          <TableRow key={supplier.id}>
+                            <TableCell className="font-medium">{supplier.name}</TableCell>
+                            <TableCell>
+                              <div className="text-sm">{supplier.contact_name ?? '—'}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {[supplier.phone, supplier.email].filter(Boolean).join(' • ')}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {supplier.gstin ? (
+                                <code className="text-xs bg-muted px-2 py-1 rounded">{supplier.gstin}</code>
+                              ) : (
+                                '—'
+                              )}
+                            </TableCell>
+                            <TableCell className="text-center">
+                              <Switch
+                                size="sm"
+                                checked={supplier.is_active}
+                                onCheckedChange={(checked) => handleSupplierActiveChange(supplier, checked)}
+                                aria-label={`${supplier.name} active`}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Edit"
+                                onClick={() => {
+                                  setEditingSupplier(supplier);
+                                  setSupplierFormOpen(true);
+                                }}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PurchaseOrderForm
+        open={orderFormOpen}
+        onOpenChange={setOrderFormOpen}
+        purchaseOrder={editingOrder}
+        suppliers={suppliers}
+        onSuccess={fetchPurchaseOrders}
+      />
+
+      <ReceivePurchaseOrderDialog
+        open={Boolean(receiveTarget)}
+        onOpenChange={(open) => {
+          if (!open) setReceiveTarget(null);
+        }}
+        purchaseOrder={receiveTarget}
+        onSuccess={fetchPurchaseOrders}
+      />
+
+      <SupplierForm
+        open={supplierFormOpen}
+        onOpenChange={setSupplierFormOpen}
+        supplier={editingSupplier}
+        onSuccess={fetchSuppliers}
+      />
+
+      <AlertDialog
+        open={Boolean(cancelTarget)}
+        onOpenChange={(open) => {
+          if (!open) setCancelTarget(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel {cancelTarget?.po_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The order stays on record but can no longer be edited or received. Let the supplier know if it has
+              already been sent.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={Boolean(updatingId)}>Keep Order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                handleCancel();
+              }}
+              disabled={Boolean(updatingId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/lib/supabase';
+import type { TablesInsert } from '@/lib/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStoreProfile } from '@/hooks/use-store-profile';
+import Header from '@/components/Header';
+import StoreHoursEditor from '@/components/StoreHoursEditor';
+import StoreExceptionsEditor from '@/components/StoreExceptionsEditor';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarDays, Clock } from 'lucide-react';
+
+const storeProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Store name is required').max(80, 'Store name must be less than 80 characters'),
+  tagline: z.string().trim().max(160, 'Tagline must be less than 160 characters'),
+  address: z.string().trim().max(300, 'Address must be less than 300 characters'),
+  email: z.string().trim().email('Enter a valid email address').or(z.literal('')),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^(\+91[\s-]?)?[0-9][0-9\s-]{5,14}$/, 'Enter a valid phone number')
+    .or(z.literal('')),
+  map_url: z.string().trim().url('Enter a full link, including https://').or(z.literal('')),
+});
+
+type StoreProfileFormData = z.infer<typeof storeProfileSchema>;
+
+export default function AdminSettings() {
+  const { profile: user } = useAuth();
+  const { profile, hoursSummary, loading, refresh } = useStoreProfile();
+  const [saving, setSaving] = useState(false);
+  const [storeHoursOpen, setStoreHoursOpen] = useState(false);
+  const [storeExceptionsOpen, setStoreExceptionsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<StoreProfileFormData>({
+    resolver: zodResolver(storeProfileSchema),
+    defaultValues: {
+      name: '',
+      tagline: '',
+      address: '',
+      email: '',
+      phone: '',
+      map_url: '',
+    },
+  });
+
+  useEffect(() => {
+    if (loading) return;
+
+    form.reset({
+      name: profile.name,
+      tagline: profile.tagline ?? '',
+      address: profile.address ?? '',
+      email: profile.email ?? '',
+      phone: profile.phone ?? '',
+      map_url: profile.map_url ?? '',
+    });
+  }, [loading, profile, form]);
+
+  const onSubmit = async (data: StoreProfileFormData) => {
+    try {
+      setSaving(true);
+
+      const { error } = await supabase.from('store_profile').upsert(
+        {
+          id: true,
+          name: data.name,
+          tagline: data.tagline || null,
+          address: data.address || null,
+          email: data.email || null,
+          phone: data.phone || null,
+          map_url: data.map_url || null,
+          updated_by: user?.id ?? null,
+        } satisfies TablesInsert<'store_profile'>,
+        { onConflict: 'id' }
+      );
+
+      if (error) throw error;
+
+      toast({
+        title: 'Settings saved',
+        description: 'The store details are updated on every page.',
+      });
+
+      await refresh();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to save store settings',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Shreeji Foods" subtitle={user?.email ?? ''} />
+
+      <div className="container mx-auto px-4 py-8 space-y-6 max-w-4xl">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Store Settings</h2>
+          <p className="text-sm text-muted-foreground">
+            Details shown to customers on the home page, About page and footer.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Opening Hours</CardTitle>
+            <CardDescription>
+              The same schedule opens and closes the store automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="text-sm text-muted-foreground">Loading hours...</div>
+            ) : hoursSummary.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No weekly hours set yet</div>
+            ) : (
+              <dl className="grid grid-cols-[8rem_1fr] gap-y-1 text-sm">
+                {hoursSummary.map((entry) => (
+                  <div key={entry.label} className="contents">
+                    <dt className="font-medium">{entry.label}</dt>
+                    <dd className="text-muted-foreground">{entry.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setStoreHoursOpen(true)}>
+                <Clock className="mr-1.5 h-4 w-4" />
+                Edit weekly hours
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setStoreExceptionsOpen(true)}>
+                <CalendarDays className="mr-1.5 h-4 w-4" />
+                Holidays &amp; special hours
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Store Profile</CardTitle>
+            <CardDescription>Contact details and directions</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Store name</FormLabel>
+                      <FormControl>
+                        <Input {...field} disabled={saving || loading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tagline"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tagline</FormLabel>
+                      <FormControl>
+                        <Input {...field} disabled={saving || loading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} disabled={saving || loading} />
+                      </FormControl>
+                      <FormDescription>Each line is shown on its own line on the home page.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" {...field} disabled={saving || loading} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" {...field} disabled={saving || loading} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="map_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Map link</FormLabel>
+                      <FormControl>
+                        <Input type="url" placeholder="https://www.google.com/maps/..." {...field} disabled={saving || loading} />
+                      </FormControl>
+                      <FormDescription>Used by the Get Directions button.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={saving || loading}>
+                    {saving ? 'Saving...' : 'Save Settings'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <StoreHoursEditor open={storeHoursOpen} onOpenChange={setStoreHoursOpen} onSuccess={refresh} />
+      <StoreExceptionsEditor open={storeExceptionsOpen} onOpenChange={setStoreExceptionsOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase, InventoryValuation } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCost } from '@/lib/purchasing';
+import { formatStockQuantity } from '@/lib/stock';
+import { summarizeValuation, summarizeValuationByCategory } from '@/lib/valuation';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Search } from 'lucide-react';
+
+const formatPercent = (value: number | null | undefined) =>
+  value == null ? '—' : `${value.toFixed(1)}%`;
+
+export default function AdminValuation() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<InventoryValuation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [missingCostOnly, setMissingCostOnly] = useState(false);
+
+  const fetchValuation = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('inventory_valuation')
+        .select('*')
+        .order('product_name', { ascending: true })
+        .order('sku', { ascending: true });
+
+      if (error) throw error;
+
+      setRows((data ?? []) as InventoryValuation[]);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load inventory valuation',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchValuation();
+
+    const valuationChannel = supabase
+      .channel('inventory_valuation_admin')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'product_variants' },
+        () => {
+          fetchValuation();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'variant_costs' },
+        () => {
+          fetchValuation();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      valuationChannel.unsubscribe();
+    };
+  }, [fetchValuation]);
+
+  const summary = useMemo(() => summarizeValuation(rows), [rows]);
+  const categories = useMemo(() => summarizeValuationByCategory(rows), [rows]);
+
+  const visibleRows = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return rows.filter((row) => {
+      if (missingCostOnly && row.cost_price != null) return false;
+      if (!query) return true;
+      return (
+        row.product_name.toLowerCase().includes(query) ||
+        row.sku.toLowerCase().includes(query) ||
+        (row.category ?? '').toLowerCase().includes(query)
+      );
+    });
+  }, [rows, searchQuery, missingCostOnly]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Shreeji Foods" subtitle={profile?.email ?? ''} />
+
+      <div className="container mx-auto px-4 py-8">
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <CardTitle>Inventory Valuation</CardTitle>
+                <CardDescription>Stock on hand at cost and at selling price, with margins</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                className="w-full rounded-[var(--radius)] border-border sm:w-auto"
+                onClick={() => navigate('/admin')}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Inventory
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-6">
+          <Card>
+            <CardHeader className="pb-6">
+              <CardDescription>Stock Value at Cost</CardDescription>
+              <CardTitle className="text-3xl">{loading ? '—' : formatCost(summary.costValue)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-6">
+              <CardDescription>Stock Value at Retail</CardDescription>
+              <CardTitle className="text-3xl">{loading ? '—' : formatCost(summary.retailValue)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-6">
+              <CardDescription>Potential Margin</CardDescription>
+              <CardTitle className="text-3xl">{loading ? '—' : formatCost(summary.margin)}</CardTitle>
+              {!loading && (
+                <p className="text-sm text-muted-foreground">{formatPercent(summary.marginPercent)} of retail</p>
+              )}
+            </CardHeader>
+          </Card>
+          <Card
+            role="button"
+            tabIndex={0}
+            onClick={() => setMissingCostOnly((prev) => !prev)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                setMissingCostOnly((prev) => !prev);
+              }
+            }}
+            className={`cursor-pointer transition-colors hover:border-amber-500/60 ${missingCostOnly ? 'border-amber-500' : ''}`}
+            title="Variants without a cost price are left out of the cost value and margin"
+          >
+            <CardHeader className="pb-6">
+              <CardDescription>Missing Cost Price</CardDescription>
+              <CardTitle className={`text-3xl ${!loading && summary.missingCostCount > 0 ? 'text-amber-600' : ''}`}>
+                {loading ? '—' : summary.missingCostCount}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>By Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">Loading valuation...</div>
+            ) : categories.length === 0 ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">No stock to value yet</div>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-center">Variants</TableHead>
+                      <TableHead className="text-right">At cost</TableHead>
+                      <TableHead className="text-right">At retail</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                      <TableHead className="text-right">Margin %</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categories.map((category) => (
+                      <TableRow key={category.category}>
+                        <TableCell className="font-medium">{category.category}</TableCell>
+                        <TableCell className="text-center">
+                          {category.variantCount}
+                          {category.missingCostCount > 0 && (
+                            <span className="text-xs text-amber-600"> ({category.missingCostCount} no cost)</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCost(category.costValue)}</TableCell>
+                        <TableCell className="text-right">{formatCost(category.retailValue)}</TableCell>
+                        <TableCell className="text-right">{formatCost(category.margin)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(category.marginPercent)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell className="font-semibold">Total</TableCell>
+                      <TableCell className="text-center">{summary.variantCount}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCost(summary.costValue)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCost(summary.retailValue)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCost(summary.margin)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatPercent(summary.marginPercent)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <CardTitle>By Variant</CardTitle>
+            <div className="flex flex-col gap-3 md:flex-row md:items-center">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-muted-foreground pointer-events-none" />
+                <Input
+                  type="text"
+                  placeholder="Search by item, SKU or category..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="missing-cost-only"
+                  size="sm"
+                  checked={missingCostOnly}
+                  onCheckedChange={setMissingCostOnly}
+                />
+                <Label htmlFor="missing-cost-only" className="text-sm">
+                  Missing cost only
+                </Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">Loading valuation...</div>
+            ) : visibleRows.length === 0 ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">No variants match your filters</div>
+            ) : (
+              <div className="rounded-md border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-center">In stock</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                      <TableHead className="text-right">At cost</TableHead>
+                      <TableHead className="text-right">At retail</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.variant_id}>
+                        <TableCell>
+                          <div className="font-medium">{row.product_name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {row.variant_value} • {row.sku}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">{formatStockQuantity(row.quantity, row.stock_unit)}</TableCell>
+                        <TableCell className="text-right">
+                          {row.cost_price == null ? (
+                            <Badge variant="outline" className="border-amber-500 text-amber-600">
+                              No cost
+                            </Badge>
+                          ) : (
+                            formatCost(row.cost_price)
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCost(row.price)}</TableCell>
+                        <TableCell
+                          className={`text-right ${row.unit_margin != null && row.unit_margin < 0 ? 'text-destructive' : ''}`}
+                        >
+                          {row.unit_margin == null ? (
+                            '—'
+                          ) : (
+                            <>
+                              {formatCost(row.unit_margin)}
+                              <div className="text-xs text-muted-foreground">{formatPercent(row.margin_percent)}</div>
+                            </>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.stock_value_cost == null ? '—' : formatCost(row.stock_value_cost)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCost(row.stock_value_retail)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase, Order } from '@/lib/supabase';
+import { useCart } from '@/contexts/CartContext';
+import { formatWeight } from '@/lib/pricing';
+import { formatCurrency } from '@/lib/catalog';
+import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle2, Package, ShoppingCart } from 'lucide-react';
+
+const checkoutSchema = z.object({
+  customer_name: z.string().trim().min(1, 'Name is required').max(120, 'Name must be less than 120 characters'),
+  customer_phone: z
+    .string()
+    .trim()
+    .regex(/^(\+91[\s-]?)?[6-9]\d{9}$/, 'Enter a valid 10-digit mobile number'),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional().or(z.literal('')),
+});
+
+type CheckoutFormData = z.infer<typeof checkoutSchema>;
+
+export default function Checkout() {
+  const { items, subtotal, clearCart } = useCart();
+  const [submitting, setSubmitting] = useState(false);
+  const [placedOrder, setPlacedOrder] = useState<Order | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const form = useForm<CheckoutFormData>({
+    resolver: zodResolver(checkoutSchema),
+    defaultValues: {
+      customer_name: '',
+      customer_phone: '',
+      notes: '',
+    },
+  });
+
+  const onSubmit = async (data: CheckoutFormData) => {
+    if (items.length === 0) return;
+
+    try {
+      setSubmitting(true);
+
+      const { data: order, error } = await supabase.rpc('place_order', {
+        p_customer_name: data.customer_name,
+        p_customer_phone: data.customer_phone,
+        p_notes: data.notes ?? '',
+        p_items: items.map((item) => ({
+          variant_id: item.variantId,
+          quantity: item.quantity,
+          weight_grams: item.weightGrams,
+        })),
+      });
+
+      if (error) throw error;
+
+      setPlacedOrder(order as Order);
+      clearCart();
+      form.reset();
+    } catch (error: any) {
+      const message: string = error.message || 'Failed to place order';
+      toast({
+        variant: 'destructive',
+        title: message.includes('Insufficient stock') || message.includes('no longer available')
+          ? 'Some items are unavailable'
+          : 'Error',
+        description: message,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header subtitle="Checkout" />
+
+      <div className="container mx-auto px-4 py-8">
+        {placedOrder ? (
+          <Card className="mx-auto max-w-lg border-emerald-400/60 text-center shadow-lg">
+            <CardHeader className="space-y-3">
+              <CheckCircle2 className="mx-auto h-12 w-12 text-emerald-500" />
+              <CardTitle className="text-2xl">Order placed!</CardTitle>
+              <CardDescription className="text-base">
+                Your order <span className="font-mono font-semibold text-foreground">{placedOrder.order_number}</span>{' '}
+                for {formatCurrency(placedOrder.total)} has been received. We will keep it ready for pickup at the store.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={() => navigate('/products')}>Continue Shopping</Button>
+            </CardContent>
+          </Card>
+        ) : items.length === 0 ? (
+          <Card className="mx-auto max-w-lg border-2 border-dashed text-center">
+            <CardContent className="py-16">
+              <ShoppingCart className="mx-auto mb-4 h-12 w-12 text-primary/60" />
+              <h3 className="mb-2 text-xl font-bold">Your cart is empty</h3>
+              <p className="mb-6 text-muted-foreground">Add a few products before checking out.</p>
+              <Button onClick={() => navigate('/products')}>Browse Products</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[1fr_380px]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pickup Details</CardTitle>
+                <CardDescription>We will call you on this number if anything changes.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="customer_name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Your name" autoComplete="name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="customer_phone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Mobile Number</FormLabel>
+                          <FormControl>
+                            <Input type="tel" placeholder="98XXXXXXXX" autoComplete="tel" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="notes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Notes</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder="Optional: pickup time or special instructions"
+                              className="resize-none"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>Payment is collected at the counter on pickup.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="flex justify-end gap-3 pt-4">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => navigate('/products')}
+                        disabled={submitting}
+                      >
+                        Back to Products
+                      </Button>
+                      <Button type="submit" disabled={submitting}>
+                        {submitting ? 'Placing order...' : `Place Order • ${formatCurrency(subtotal)}`}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle>Order Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="space-y-3">
+                  {items.map((item) => (
+                    <li key={item.lineId} className="flex items-center gap-3">
+                      <div className="h-12 w-12 shrink-0 overflow-hidden rounded-md bg-muted flex items-center justify-center">
+                        {item.imageUrl ? (
+                          <img src={item.imageUrl} alt={item.productName} className="h-full w-full object-cover" />
+                        ) : (
+                          <Package className="h-5 w-5 text-muted-foreground" />
+                        )}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{item.productName}</p>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Badge variant="outline" className="text-xs">
+                            {item.weightGrams ? formatWeight(item.weightGrams) : item.variantValue}
+                          </Badge>
+                          <span>× {item.quantity}</span>
+                        </div>
+                      </div>
+                      <span className="text-sm font-semibold">{formatCurrency(item.unitPrice * item.quantity)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-center justify-between border-t border-border pt-4">
+                  <span className="font-medium text-muted-foreground">Total</span>
+                  <span className="text-xl font-bold">{formatCurrency(subtotal)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Prices and stock are confirmed by the store when the order is placed.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
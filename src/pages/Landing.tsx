@@ -9,12 +9,16 @@ import {
   ShoppingBag, 
   Star, 
   Sparkles,
-  ArrowRight
+  ArrowRight,
+  Phone
 } from 'lucide-react';
 import FadeContent from '@/components/FadeContent';
 import Header from '@/components/Header';
+import { useStoreProfile } from '@/hooks/use-store-profile';
 
 export default function Landing() {
+  const { profile, hoursSummary, addressLines } = useStoreProfile();
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -369,9 +373,14 @@ export default function Landing() {
                     <div>
                       <h3 className="font-semibold text-foreground mb-1">Location</h3>
                       <p className="text-sm text-muted-foreground">
-                        Shop No. 11, Mahavir Nagar<br />
-                        Panchsheel Garden, Siddhivinayak Nagar<br />
-                        Kandivali West, Mumbai 400067
+                        {addressLines.length > 0
+                          ? addressLines.map((line, index) => (
+                            <span key={index}>
+                              {index > 0 && <br />}
+                              {line}
+                            </span>
+                          ))
+                          : '—'}
                       </p>
                     </div>
                   </div>
@@ -383,37 +392,64 @@ export default function Landing() {
                     <div>
                       <h3 className="font-semibold text-foreground mb-1">Opening Hours</h3>
                       <p className="text-sm text-muted-foreground">
-                        Open Daily<br />
-                        8:30 AM - 9:30 PM
+                        {hoursSummary.length > 0
+                          ? hoursSummary.map((entry, index) => (
+                            <span key={entry.label}>
+                              {index > 0 && <br />}
+                              {entry.label}: {entry.value}
+                            </span>
+                          ))
+                          : '—'}
                       </p>
                     </div>
                   </div>
 
-                  <div className="flex items-start gap-4">
-                    <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
-                      <Mail className="w-5 h-5 text-primary" />
+                  {profile.phone && (
+                    <div className="flex items-start gap-4">
+                      <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
+                        <Phone className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-foreground mb-1">Phone</h3>
+                        <a 
+                          href={`tel:${profile.phone.replace(/\s+/g, '')}`}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          {profile.phone}
+                        </a>
+                      </div>
                     </div>
-                    <div>
-                      <h3 className="font-semibold text-foreground mb-1">Email</h3>
-                      <a 
-                        href="mailto:shreejifoods1999@gmail.com"
-                        className="text-sm text-primary hover:underline"
-                      >
-                        shreejifoods1999@gmail.com
-                      </a>
+                  )}
+
+                  {profile.email && (
+                    <div className="flex items-start gap-4">
+                      <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
+                        <Mail className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-foreground mb-1">Email</h3>
+                        <a 
+                          href={`mailto:${profile.email}`}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          {profile.email}
+                        </a>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
-                  <Button asChild className="w-full mt-6">
-                    <a
-                      href="https://www.google.com/maps/search/?api=1&query=Shreeji+Foods%2C+Shop+No.+11%2C+Mahavir+Nagar%2C+Panchsheel+Garden%2C+Siddhivinayak+Nagar%2C+Kandivali+West%2C+Mumbai%2C+Maharashtra+400067"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                    >
-                      <MapPin className="w-4 h-4 mr-2" />
-                      Get Directions
-                    </a>
-                  </Button>
+                  {profile.map_url && (
+                    <Button asChild className="w-full mt-6">
+                      <a
+                        href={profile.map_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <MapPin className="w-4 h-4 mr-2" />
+                        Get Directions
+                      </a>
+                    </Button>
+                  )}
                 </div>
 
                 <div className="bg-gradient-to-br from-amber-100 to-orange-100 dark:from-background dark:to-background p-8 flex items-center justify-center relative overflow-hidden border-l dark:border-l-primary/20">
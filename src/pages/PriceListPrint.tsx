@@ -0,0 +1,104 @@
+import { useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Product } from '@/lib/supabase';
+import { useProducts } from '@/hooks/use-products';
+import { useStoreProfile } from '@/hooks/use-store-profile';
+import { isSoldByWeight } from '@/lib/pricing';
+import { formatCurrency, sortVariants, toTitleCase } from '@/lib/catalog';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Printer } from 'lucide-react';
+
+const UNCATEGORIZED = 'Other';
+
+// Customer-facing price list of the visible catalog, one section per category
+export default function PriceListPrint() {
+  const navigate = useNavigate();
+  const { profile: store, addressLines } = useStoreProfile();
+  const { data: products, isLoading } = useProducts({ visibleOnly: true });
+
+  useEffect(() => {
+    document.title = `Price List - ${store.name}`;
+  }, [store.name]);
+
+  const sections = useMemo(() => {
+    const byCategory = new Map<string, Product[]>();
+
+    (products ?? [])
+      .filter((product) => product.variants.length > 0)
+      .forEach((product) => {
+        const category = product.category ? toTitleCase(product.category) : UNCATEGORIZED;
+        byCategory.set(category, [...(byCategory.get(category) ?? []), product]);
+      });
+
+    // Uncategorised items go last
+    return Array.from(byCategory.entries()).sort(([a], [b]) =>
+      a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b)
+    );
+  }, [products]);
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading price list...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8 print:bg-white print:py-0">
+      <div className="mx-auto mb-4 flex max-w-3xl justify-between px-4 print:hidden">
+        <Button variant="outline" onClick={() => navigate('/admin')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <article className="mx-auto max-w-3xl bg-white p-10 text-sm text-neutral-900 shadow-sm print:max-w-none print:p-0 print:shadow-none">
+        <header className="flex items-start justify-between border-b border-neutral-300 pb-6">
+          <div>
+            <h1 className="text-2xl font-bold">{store.name}</h1>
+            {addressLines.map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+            {store.phone && <p>Phone: {store.phone}</p>}
+          </div>
+          <div className="text-right">
+            <h2 className="text-xl font-semibold uppercase tracking-wide">Price List</h2>
+            <p className="mt-1">{format(new Date(), 'd MMM yyyy')}</p>
+          </div>
+        </header>
+
+        {sections.length === 0 ? (
+          <p className="py-12 text-center text-neutral-500">No products are listed yet</p>
+        ) : (
+          sections.map(([category, items]) => (
+            <section key={category} className="mt-6 break-inside-avoid-page">
+              <h3 className="border-b border-neutral-400 pb-1 text-base font-semibold">{category}</h3>
+              <table className="w-full border-collapse">
+                <tbody>
+                  {items.map((item) =>
+                    sortVariants(item.variants).map((variant, index) => (
+                      <tr key={variant.id} className="border-b border-neutral-200 break-inside-avoid">
+                        <td className="py-1.5 pr-2">{index === 0 ? item.name : ''}</td>
+                        <td className="py-1.5 pr-2 text-neutral-600">{variant.variant_value}</td>
+                        <td className="py-1.5 text-right tabular-nums">
+                          {formatCurrency(variant.price)}
+                          {isSoldByWeight(variant) && <span className="text-neutral-600"> / kg</span>}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </section>
+          ))
+        )}
+
+        <footer className="mt-10 text-xs text-neutral-500">
+          Prices in INR, subject to change.
+        </footer>
+      </article>
+    </div>
+  );
+}
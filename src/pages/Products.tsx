@@ -1,6 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useSearchParams } from 'react-router-dom';
-import { supabase, Product, ProductVariant } from '@/lib/supabase';
+import { supabase, Product } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
 import Header from '@/components/Header';
 import ProductDetailDialog from '@/components/ProductDetailDialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,236 +16,83 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useToast } from '@/hooks/use-toast';
-import { Package, Search, SlidersHorizontal, X } from 'lucide-react';
-import { format } from 'date-fns';
-
-const parseNumericValue = (value: string): number | null => {
-  const match = value.match(/[\d\.]+/);
-  if (!match) {
-    return null;
-  }
-
-  const numeric = Number.parseFloat(match[0]);
-  return Number.isNaN(numeric) ? null : numeric;
-};
-
-// Convert weight to grams for proper sorting
-const parseWeightInGrams = (value: string): number | null => {
-  const lowerValue = value.toLowerCase();
-  const numMatch = lowerValue.match(/(\d+(?:\.\d+)?)/);
-
-  if (!numMatch) {
-    return null;
-  }
-
-  const num = Number.parseFloat(numMatch[1]);
-  if (Number.isNaN(num)) {
-    return null;
-  }
-
-  // Convert to grams based on unit
-  if (lowerValue.includes('kg')) {
-    return num * 1000; // kg to grams
-  } else if (lowerValue.includes('g') && !lowerValue.includes('kg')) {
-    return num; // already in grams
-  } else if (lowerValue.includes('mg')) {
-    return num / 1000; // mg to grams
-  } else if (lowerValue.includes('lb') || lowerValue.includes('pound')) {
-    return num * 453.592; // pounds to grams
-  } else if (lowerValue.includes('oz') || lowerValue.includes('ounce')) {
-    return num * 28.3495; // ounces to grams
-  }
-
-  // If no unit found, treat as the raw number
-  return num;
-};
-
-const sortVariants = (variants: ProductVariant[]) => {
-  return [...variants].sort((a, b) => {
-    // Check if this is a weight-based variant
-    const isWeightVariant = a.variant_type === 'weight' || b.variant_type === 'weight';
-
-    let aValue: number | null;
-    let bValue: number | null;
-
-    if (isWeightVariant) {
-      // Use weight-aware parsing for weight variants
-      aValue = parseWeightInGrams(a.variant_value);
-      bValue = parseWeightInGrams(b.variant_value);
-    } else {
-      // Use simple numeric parsing for other variants
-      aValue = parseNumericValue(a.variant_value);
-      bValue = parseNumericValue(b.variant_value);
-    }
-
-    if (aValue !== null && bValue !== null && aValue !== bValue) {
-      return aValue - bValue;
-    }
-
-    if (aValue !== null && bValue === null) {
-      return -1;
-    }
-
-    if (aValue === null && bValue !== null) {
-      return 1;
-    }
-
-    if (aValue === null && bValue === null && a.price !== b.price) {
-      return a.price - b.price;
-    }
-
-    return a.variant_value.localeCompare(b.variant_value, undefined, { sensitivity: 'base' });
-  });
-};
-
-const VARIANT_TYPE_LABELS: Record<ProductVariant['variant_type'], string> = {
-  weight: 'Weight',
-  pcs: 'Pieces',
-  price: 'Price',
-  flavor: 'Flavor',
-  size: 'Size',
-};
-
-type RawProduct = Omit<Product, 'product_variants'> & {
-  product_variants: ProductVariant[] | null;
-};
+import { useProducts } from '@/hooks/use-products';
+import { ACTIVE_PRICE_LIST_QUERY_KEY, useActivePriceList, usePriceLists } from '@/hooks/use-price-lists';
+import { useCatalogRealtime } from '@/hooks/use-catalog-realtime';
+import { CATEGORIES_QUERY_KEY, useCategories } from '@/hooks/use-categories';
+import {
+  STORE_STATUS_DETAILS_QUERY_KEY,
+  STORE_STATUS_QUERY_KEY,
+  StoreStatusRow,
+  useStoreStatus,
+  useStoreStatusDetails,
+} from '@/hooks/use-store-status';
+import { Eye, Package, Search, SlidersHorizontal, Sparkles, X } from 'lucide-react';
+import { formatNextOpening, formatStoreTime } from '@/lib/store-hours';
+import { formatStockQuantity } from '@/lib/stock';
+import { isSoldByWeight } from '@/lib/pricing';
+import { applyPriceListPrices, formatPriceListDateTime } from '@/lib/price-lists';
+import { VARIANT_TYPE_LABELS, formatCurrency, formatTimestamp, sortVariants } from '@/lib/catalog';
+import { primaryProductImage, productImageSrc, productImageSrcSet } from '@/lib/product-images';
+
+const STORE_STATUS_REFRESH_MS = 600000;
 
 export default function UserDashboard() {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [items, setItems] = useState<Product[]>([]);
-  const [filteredItems, setFilteredItems] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>(searchParams.get('category') || 'all');
   const [sortBy, setSortBy] = useState<string>('name-asc');
-  const [categories, setCategories] = useState<string[]>([]);
   const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
-  const [storeStatus, setStoreStatus] = useState<boolean | null>(null);
-  const [storeStatusLoading, setStoreStatusLoading] = useState(true);
-  const [categoryCount, setCategoryCount] = useState(0);
-  const [categoryCountLoading, setCategoryCountLoading] = useState(true);
   const [selectedItem, setSelectedItem] = useState<Product | null>(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
-  const { toast } = useToast();
-
-  const fetchStoreStatus = async () => {
-    setStoreStatusLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('store_status')
-        .select('is_open')
-        .order('updated_at', { ascending: false })
-        .limit(1);
-
-      if (error) throw error;
-
-      if (data && data.length > 0) {
-        setStoreStatus(data[0].is_open);
-      } else {
-        setStoreStatus(true);
-      }
-    } catch (error: any) {
-      console.error(error);
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to load store status',
-      });
-      setStoreStatus(true);
-    } finally {
-      setStoreStatusLoading(false);
-    }
-  };
-
-  const fetchCategoryCount = async (withLoading = false) => {
-    if (withLoading) {
-      setCategoryCountLoading(true);
-    }
-
-    try {
-      const { count, error } = await supabase
-        .from('category')
-        .select('id', { count: 'exact', head: true });
-
-      if (error) throw error;
-
-      setCategoryCount(count ?? 0);
-    } catch (error: any) {
-      console.error(error);
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to load category count',
-      });
-    } finally {
-      if (withLoading) {
-        setCategoryCountLoading(false);
-      }
-    }
-  };
-
-  const fetchCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('product')
-        .select('category')
-        .not('category', 'is', null);
-
-      if (error) throw error;
-
-      const uniqueCategories = Array.from(
-        new Set(data?.map((item) => item.category).filter(Boolean) as string[])
-      ).sort();
-
-      setCategories(uniqueCategories);
-    } catch (error: any) {
-      console.error(error);
-    }
-  };
-
-  // Refresh store status periodically to reflect automated changes
-  useEffect(() => {
-    // Refresh status every 10 minutes to catch automated updates
-    const interval = setInterval(() => {
-      fetchStoreStatus();
-    }, 600000);
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+  const productsQuery = useProducts({ visibleOnly: true });
+  const categoriesQuery = useCategories();
+  // Refresh status every 10 minutes to catch automated updates
+  const storeStatusQuery = useStoreStatus({ refetchInterval: STORE_STATUS_REFRESH_MS });
+  const { data: storeDetails } = useStoreStatusDetails({ refetchInterval: STORE_STATUS_REFRESH_MS });
+  const { data: activePriceList } = useActivePriceList({ refetchInterval: STORE_STATUS_REFRESH_MS });
+
+  // Admins preview a price list's prices with ?priceList=<id>; nothing is saved or charged
+  const previewId = profile?.isAdmin ? searchParams.get('priceList') : null;
+  const previewParams: Record<string, string> = previewId ? { priceList: previewId } : {};
+  const priceListsQuery = usePriceLists({ enabled: Boolean(previewId) });
+  const previewList = previewId ? priceListsQuery.data?.find((list) => list.id === previewId) ?? null : null;
+
+  const items = useMemo(
+    () =>
+      previewList
+        ? applyPriceListPrices(productsQuery.data ?? [], previewList.price_list_items ?? [])
+        : productsQuery.data ?? [],
+    [productsQuery.data, previewList]
+  );
+  const loading = productsQuery.isLoading;
+  const categoryCount = categoriesQuery.data?.length ?? 0;
+  const categoryCountLoading = categoriesQuery.isLoading;
+  // The store counts as open until an admin first sets a status
+  const storeStatus = storeStatusQuery.data?.is_open ?? true;
+  const storeStatusLoading = storeStatusQuery.isLoading;
+
+  // Only categories that have a visible product are offered in the filter
+  const categories = useMemo(
+    () =>
+      Array.from(
+        new Set(items.map((item) => item.category).filter(Boolean) as string[])
+      ).sort(),
+    [items]
+  );
 
-    return () => clearInterval(interval);
-  }, []);
+  useCatalogRealtime('inventory_changes_public');
 
   useEffect(() => {
-    fetchItems();
-    fetchStoreStatus();
-    fetchCategoryCount(true);
-    fetchCategories();
-
-    const inventoryChannel = supabase
-      .channel('inventory_changes_public')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'product' },
-        () => {
-          fetchItems();
-          fetchCategories();
-        }
-      )
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'product_variants' },
-        () => {
-          fetchItems();
-        }
-      )
-      .subscribe();
-
     const categoryChannel = supabase
       .channel('category_changes_public')
       .on(
         'postgres_changes',
         { event: '*', schema: 'public', table: 'category' },
         () => {
-          fetchCategoryCount();
+          queryClient.invalidateQueries({ queryKey: CATEGORIES_QUERY_KEY });
         }
       )
       .subscribe();
@@ -254,22 +103,37 @@ export default function UserDashboard() {
         'postgres_changes',
         { event: '*', schema: 'public', table: 'store_status' },
         (payload) => {
-          const next = (payload.new as { is_open?: boolean }) || {};
-          if (typeof next.is_open === 'boolean') {
-            setStoreStatus(next.is_open);
+          const next = (payload.new as Partial<StoreStatusRow>) || {};
+          if (next.id && typeof next.is_open === 'boolean') {
+            queryClient.setQueryData<StoreStatusRow | null>(STORE_STATUS_QUERY_KEY, {
+              id: next.id,
+              is_open: next.is_open,
+            });
           }
+          queryClient.invalidateQueries({ queryKey: STORE_STATUS_DETAILS_QUERY_KEY });
+        }
+      )
+      .subscribe();
+
+    const priceListChannel = supabase
+      .channel('price_list_changes_public')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'price_lists' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ACTIVE_PRICE_LIST_QUERY_KEY });
         }
       )
       .subscribe();
 
     return () => {
-      inventoryChannel.unsubscribe();
       categoryChannel.unsubscribe();
       storeChannel.unsubscribe();
+      priceListChannel.unsubscribe();
     };
-  }, []);
+  }, [queryClient]);
 
-  useEffect(() => {
+  const filteredItems = useMemo(() => {
     let result = [...items];
 
     // Apply category filter
@@ -352,7 +216,7 @@ export default function UserDashboard() {
       }
     });
 
-    setFilteredItems(result);
+    return result;
   }, [searchQuery, items, selectedCategory, sortBy]);
 
   useEffect(() => {
@@ -392,37 +256,6 @@ export default function UserDashboard() {
     });
   }, [items]);
 
-  const fetchItems = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('product')
-        .select(
-          'id, name, description, category, is_visible, image_url, last_updated, updated_by, product_variants(*)'
-        )
-        .order('name', { ascending: true })
-        .order('variant_value', { referencedTable: 'product_variants', ascending: true });
-
-      if (error) throw error;
-
-      const normalizedItems = ((data || []) as RawProduct[]).map((item) => ({
-        ...item,
-        variants: Array.isArray(item.product_variants) ? item.product_variants : [],
-      }));
-
-      const visibleItems = normalizedItems.filter((item) => item.is_visible);
-      setItems(visibleItems);
-      setFilteredItems(visibleItems);
-    } catch (error: any) {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: error.message || 'Failed to fetch items',
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleVariantSelect = (itemId: string, variantId: string) => {
     setSelectedVariants((prev) => ({ ...prev, [itemId]: variantId }));
   };
@@ -438,26 +271,6 @@ export default function UserDashboard() {
     return { sortedVariants, selectedVariant };
   };
 
-  const formatCurrency = (value: number | null | undefined) =>
-    new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-    }).format(value ?? 0);
-
-  const formatVariantTimestamp = (timestamp?: string | null) => {
-    if (!timestamp) {
-      return '—';
-    }
-
-    const utcDate = new Date(timestamp);
-    if (Number.isNaN(utcDate.getTime())) {
-      return '—';
-    }
-
-    const istDate = new Date(utcDate.getTime() + 5.5 * 60 * 60 * 1000);
-    return format(istDate, 'MMM d, yyyy • h:mm a');
-  };
-
   return (
     <div className="min-h-screen bg-background relative">
       {/* Background Decoration */}
@@ -469,6 +282,49 @@ export default function UserDashboard() {
       <Header />
 
       <div className="container mx-auto px-4 py-8 relative z-10">
+        {previewId ? (
+          <div className="mb-6 flex flex-col gap-3 rounded-[var(--radius)] border border-primary/40 bg-primary/10 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center gap-3 text-sm">
+              <Eye className="h-4 w-4 shrink-0 text-primary" />
+              <span>
+                {previewList ? (
+                  <>
+                    Previewing <span className="font-semibold">{previewList.name}</span> prices (
+                    {formatPriceListDateTime(previewList.starts_at)} to {formatPriceListDateTime(previewList.ends_at)}).
+                    Orders are still charged current prices.
+                  </>
+                ) : priceListsQuery.isLoading ? (
+                  'Loading price list...'
+                ) : (
+                  'This price list no longer exists. Showing current prices.'
+                )}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const next = new URLSearchParams(searchParams);
+                next.delete('priceList');
+                setSearchParams(next);
+              }}
+            >
+              <X className="w-4 h-4 mr-1" />
+              Exit Preview
+            </Button>
+          </div>
+        ) : (
+          activePriceList && (
+            <div className="mb-6 flex items-center gap-3 rounded-[var(--radius)] border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm">
+              <Sparkles className="h-4 w-4 shrink-0 text-amber-600" />
+              <span>
+                <span className="font-semibold">{activePriceList.name}</span> prices until{' '}
+                {formatPriceListDateTime(activePriceList.ends_at)}
+              </span>
+            </div>
+          )
+        )}
+
         {/* Stats Cards with Enhanced Design */}
         <div className="grid gap-6 md:grid-cols-3 mb-8">
           {/* Store Status Card */}
@@ -506,6 +362,22 @@ export default function UserDashboard() {
                       : 'Closed'}
                 </CardTitle>
               </div>
+              {!storeStatusLoading && storeStatus !== null && storeDetails && (
+                <div className="space-y-0.5 text-xs sm:text-sm text-muted-foreground">
+                  {storeDetails.note && (
+                    <p className="font-medium text-foreground/80">{storeDetails.note}</p>
+                  )}
+                  {storeStatus ? (
+                    !storeDetails.today_is_closed && storeDetails.today_close_time && (
+                      <p>Open until {formatStoreTime(storeDetails.today_close_time)}</p>
+                    )
+                  ) : (
+                    formatNextOpening(storeDetails.next_open_at) && (
+                      <p>Opens {formatNextOpening(storeDetails.next_open_at)}</p>
+                    )
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -561,7 +433,7 @@ export default function UserDashboard() {
                   onClick={() => {
                     setSelectedCategory('all');
                     setSearchQuery('');
-                    setSearchParams({});
+                    setSearchParams(previewParams);
                   }}
                   className="text-muted-foreground hover:text-foreground w-full sm:w-auto"
                 >
@@ -597,9 +469,9 @@ export default function UserDashboard() {
                 <Select value={selectedCategory} onValueChange={(value) => {
                   setSelectedCategory(value);
                   if (value === 'all') {
-                    setSearchParams({});
+                    setSearchParams(previewParams);
                   } else {
-                    setSearchParams({ category: value });
+                    setSearchParams({ ...previewParams, category: value });
                   }
                 }}>
                   <SelectTrigger className="h-10 sm:h-11 border-2 hover:border-primary/30 transition-colors text-sm">
@@ -678,6 +550,8 @@ export default function UserDashboard() {
               const priceToDisplay = selectedVariant?.price ?? null;
               const quantityToDisplay = selectedVariant?.quantity ?? null;
               const lastUpdatedDisplay = selectedVariant?.last_updated ?? null;
+              const primaryImage = primaryProductImage(item);
+              const imageSrc = productImageSrc(item, 'medium');
 
               return (
                 <Card
@@ -692,11 +566,14 @@ export default function UserDashboard() {
                   <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
 
                   {/* Image Section */}
-                  {item.image_url && (
+                  {imageSrc && (
                     <div className="relative h-48 overflow-hidden bg-gradient-to-br from-muted/30 to-muted/10">
                       <img
-                        src={item.image_url}
+                        src={imageSrc}
+                        srcSet={primaryImage ? productImageSrcSet(primaryImage) : undefined}
+                        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                         alt={item.name}
+                        loading="lazy"
                         className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700"
                       />
                       <div className="absolute inset-0 bg-gradient-to-t from-background/80 to-transparent" />
@@ -713,7 +590,7 @@ export default function UserDashboard() {
                       <CardTitle className="text-xl font-bold bg-gradient-to-r from-foreground to-foreground/80 bg-clip-text group-hover:from-primary group-hover:to-primary/80 transition-all duration-300">
                         {item.name}
                       </CardTitle>
-                      {item.category && !item.image_url && (
+                      {item.category && !imageSrc && (
                         <Badge variant="secondary" className="ml-auto backdrop-blur-sm">
                           {item.category}
                         </Badge>
@@ -769,13 +646,16 @@ export default function UserDashboard() {
                             }
                             className="px-4 py-1.5 text-sm font-bold shadow-md"
                           >
-                            {quantityToDisplay ?? '—'}
+                            {quantityToDisplay !== null ? formatStockQuantity(quantityToDisplay, selectedVariant?.stock_unit) : '—'}
                           </Badge>
                         </div>
                         <div className="flex flex-col items-end">
                           <p className="text-xs font-medium text-muted-foreground mb-2">Price</p>
                           <p className="text-xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent">
                             {priceToDisplay !== null ? formatCurrency(priceToDisplay) : '—'}
+                            {priceToDisplay !== null && selectedVariant && isSoldByWeight(selectedVariant) && (
+                              <span className="text-sm font-medium text-muted-foreground">/kg</span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -787,7 +667,7 @@ export default function UserDashboard() {
                         </svg>
                         <span className="font-medium">
                           {lastUpdatedDisplay
-                            ? formatVariantTimestamp(lastUpdatedDisplay)
+                            ? formatTimestamp(lastUpdatedDisplay)
                             : 'Never updated'}
                         </span>
                       </div>
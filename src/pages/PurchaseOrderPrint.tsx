@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { supabase, PurchaseOrder } from '@/lib/supabase';
+import { useStoreProfile } from '@/hooks/use-store-profile';
+import { useToast } from '@/hooks/use-toast';
+import { PURCHASE_ORDER_STATUS_LABELS, formatCost } from '@/lib/purchasing';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Printer } from 'lucide-react';
+
+// Plain document layout so the browser's "Save as PDF" gives a clean copy for the supplier
+export default function PurchaseOrderPrint() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile: store, addressLines } = useStoreProfile();
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchPurchaseOrder = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('purchase_orders')
+          .select('*, suppliers(*), purchase_order_lines(*)')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        setPurchaseOrder(data as PurchaseOrder | null);
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: error.message || 'Failed to load purchase order',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPurchaseOrder();
+  }, [id, toast]);
+
+  useEffect(() => {
+    if (purchaseOrder) {
+      document.title = `${purchaseOrder.po_number} - ${store.name}`;
+    }
+  }, [purchaseOrder, store.name]);
+
+  if (loading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading purchase order...</div>;
+  }
+
+  if (!purchaseOrder) {
+    return <div className="text-center py-12 text-muted-foreground">Purchase order not found</div>;
+  }
+
+  const supplier = purchaseOrder.suppliers;
+  const lines = [...(purchaseOrder.purchase_order_lines ?? [])].sort((a, b) =>
+    a.product_name.localeCompare(b.product_name)
+  );
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-8 print:bg-white print:py-0">
+      <div className="mx-auto mb-4 flex max-w-3xl justify-between px-4 print:hidden">
+        <Button variant="outline" onClick={() => navigate('/admin/purchasing')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Purchasing
+        </Button>
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <article className="mx-auto max-w-3xl bg-white p-10 text-sm text-neutral-900 shadow-sm print:max-w-none print:p-0 print:shadow-none">
+        <header className="flex items-start justify-between border-b border-neutral-300 pb-6">
+          <div>
+            <h1 className="text-2xl font-bold">{store.name}</h1>
+            {addressLines.map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+            {store.phone && <p>Phone: {store.phone}</p>}
+            {store.email && <p>Email: {store.email}</p>}
+          </div>
+          <div className="text-right">
+            <h2 className="text-xl font-semibold uppercase tracking-wide">Purchase Order</h2>
+            <p className="mt-1 font-mono">{purchaseOrder.po_number}</p>
+            <p>Date: {format(parseISO(purchaseOrder.sent_at ?? purchaseOrder.created_at), 'd MMM yyyy')}</p>
+            {purchaseOrder.expected_on && (
+              <p>Deliver by: {format(parseISO(purchaseOrder.expected_on), 'd MMM yyyy')}</p>
+            )}
+            {purchaseOrder.status !== 'sent' && (
+              <p className="mt-1 text-xs uppercase text-neutral-500">
+                {PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status]}
+              </p>
+            )}
+          </div>
+        </header>
+
+        {supplier && (
+          <section className="border-b border-neutral-300 py-6">
+            <h3 className="mb-1 text-xs font-semibold uppercase text-neutral-500">Supplier</h3>
+            <p className="font-semibold">{supplier.name}</p>
+            {supplier.contact_name && <p>Attn: {supplier.contact_name}</p>}
+            {supplier.address?.split('\n').map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+            {supplier.phone && <p>Phone: {supplier.phone}</p>}
+            {supplier.email && <p>Email: {supplier.email}</p>}
+            {supplier.gstin && <p>GSTIN: {supplier.gstin}</p>}
+          </section>
+        )}
+
+        <table className="mt-6 w-full border-collapse">
+          <thead>
+            <tr className="border-b border-neutral-400 text-left">
+              <th className="py-2 pr-2 font-semibold">#</th>
+              <th className="py-2 pr-2 font-semibold">Item</th>
+              <th className="py-2 pr-2 font-semibold">SKU</th>
+              <th className="py-2 pr-2 text-right font-semibold">Qty</th>
+              <th className="py-2 pr-2 text-right font-semibold">Unit cost</th>
+              <th className="py-2 text-right font-semibold">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={line.id} className="border-b border-neutral-200">
+                <td className="py-2 pr-2">{index + 1}</td>
+                <td className="py-2 pr-2">
+                  {line.product_name} ({line.variant_value})
+                </td>
+                <td className="py-2 pr-2 font-mono text-xs">{line.sku}</td>
+                <td className="py-2 pr-2 text-right">{line.quantity_ordered}</td>
+                <td className="py-2 pr-2 text-right">{formatCost(line.unit_cost)}</td>
+                <td className="py-2 text-right">{formatCost(line.quantity_ordered * line.unit_cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={5} className="pt-4 pr-2 text-right font-semibold">
+                Total
+              </td>
+              <td className="pt-4 text-right font-semibold">{formatCost(purchaseOrder.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {purchaseOrder.notes && (
+          <section className="mt-8">
+            <h3 className="mb-1 text-xs font-semibold uppercase text-neutral-500">Notes</h3>
+            <p className="whitespace-pre-line">{purchaseOrder.notes}</p>
+          </section>
+        )}
+
+        <footer className="mt-16 flex justify-end">
+          <div className="w-48 border-t border-neutral-400 pt-2 text-center text-xs text-neutral-500">
+            Authorised signatory
+          </div>
+        </footer>
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+-- ORDER NUMBER SEQUENCE
+create sequence if not exists public.order_number_sequence
+start 1
+increment 1
+no minvalue
+no maxvalue
+cache 1;
+
+-- ORDERS TABLE (one row per customer checkout)
+create table public.orders (
+  id uuid primary key default gen_random_uuid(),
+  order_number text not null unique,
+  user_id uuid references auth.users(id) on delete set null,
+  customer_name text not null,
+  customer_phone text not null,
+  notes text,
+  status text not null default 'placed'
+    check (status in ('placed', 'completed', 'cancelled')),
+  total int not null default 0,          -- sum of order_items.line_total
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+-- ORDER ITEMS TABLE (snapshot of the variant at the time of sale)
+create table public.order_items (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  variant_id uuid references public.product_variants(id) on delete set null,
+  product_name text not null,
+  variant_value text not null,
+  sku text not null,
+  unit_price int not null,               -- price validated server-side
+  quantity int not null check (quantity > 0),
+  line_total int not null
+);
+
+create index idx_orders_created_at on public.orders(created_at desc);
+create index idx_orders_user_id on public.orders(user_id);
+create index idx_order_items_order_id on public.order_items(order_id);
+
+create or replace function public.update_order_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_order_updated_at
+before update on public.orders
+for each row
+execute function public.update_order_updated_at();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.orders enable row level security;
+alter table public.order_items enable row level security;
+
+-- POLICIES
+
+-- ORDERS
+create policy "Admins can manage orders"
+on public.orders
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Users can view own orders"
+on public.orders
+for select
+using (user_id is not null and user_id = auth.uid());
+
+-- ORDER ITEMS
+create policy "Admins can manage order items"
+on public.order_items
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Users can view own order items"
+on public.order_items
+for select
+using (
+  exists (
+    select 1
+    from public.orders
+    where orders.id = order_items.order_id
+      and orders.user_id is not null
+      and orders.user_id = auth.uid()
+  )
+);
+
+-- FUNCTION: Place an order
+-- p_items is a json array of { "variant_id": uuid, "quantity": int }.
+-- Prices are read from product_variants, never from the client, and every
+-- variant row is locked so concurrent checkouts cannot oversell stock.
+create or replace function public.place_order(
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text,
+  p_items jsonb
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_line record;
+  v_variant record;
+  v_total int := 0;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if coalesce(trim(p_customer_phone), '') = '' then
+    raise exception 'Customer phone is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  insert into public.orders (order_number, user_id, customer_name, customer_phone, notes)
+  values (
+    'ORD-' || lpad(nextval('public.order_number_sequence')::text, 5, '0'),
+    auth.uid(),
+    trim(p_customer_name),
+    trim(p_customer_phone),
+    nullif(trim(coalesce(p_notes, '')), '')
+  )
+  returning * into v_order;
+
+  -- Merge duplicate lines and lock variants in a stable order to avoid deadlocks
+  for v_line in
+    select (item->>'variant_id')::uuid as variant_id,
+           sum((item->>'quantity')::int) as quantity
+    from jsonb_array_elements(p_items) as item
+    group by 1
+    order by 1
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for variant %', v_line.variant_id;
+    end if;
+
+    select pv.id, pv.sku, pv.variant_value, pv.price, pv.quantity, p.name, p.is_visible
+    into v_variant
+    from public.product_variants pv
+    join public.product p on p.id = pv.product_id
+    where pv.id = v_line.variant_id
+    for update of pv;
+
+    if not found or not v_variant.is_visible then
+      raise exception 'Product is no longer available (variant %)', v_line.variant_id;
+    end if;
+
+    if v_variant.quantity < v_line.quantity then
+      raise exception 'Insufficient stock for % (%): % available', v_variant.name, v_variant.variant_value, v_variant.quantity;
+    end if;
+
+    update public.product_variants
+    set quantity = quantity - v_line.quantity
+    where id = v_variant.id;
+
+    insert into public.order_items (
+      order_id,
+      variant_id,
+      product_name,
+      variant_value,
+      sku,
+      unit_price,
+      quantity,
+      line_total
+    )
+    values (
+      v_order.id,
+      v_variant.id,
+      v_variant.name,
+      v_variant.variant_value,
+      v_variant.sku,
+      v_variant.price,
+      v_line.quantity,
+      v_variant.price * v_line.quantity
+    );
+
+    v_total := v_total + v_variant.price * v_line.quantity;
+  end loop;
+
+  update public.orders
+  set total = v_total
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.place_order(text, text, text, jsonb) to anon, authenticated;
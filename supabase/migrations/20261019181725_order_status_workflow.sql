@@ -0,0 +1,80 @@
+-- ORDER STATUS WORKFLOW
+-- placed -> confirmed -> packed -> ready_for_pickup -> completed
+-- Any open order can be cancelled, which puts its stock back.
+alter table public.orders
+drop constraint if exists orders_status_check;
+
+alter table public.orders
+add constraint orders_status_check
+check (status in ('placed', 'confirmed', 'packed', 'ready_for_pickup', 'completed', 'cancelled'));
+
+create index if not exists idx_orders_status on public.orders(status);
+
+-- FUNCTION: Move an order to its next status
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_allowed text[];
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update orders';
+  end if;
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  v_allowed := case v_order.status
+    when 'placed' then array['confirmed', 'cancelled']
+    when 'confirmed' then array['packed', 'cancelled']
+    when 'packed' then array['ready_for_pickup', 'cancelled']
+    when 'ready_for_pickup' then array['completed', 'cancelled']
+    else array[]::text[]
+  end;
+
+  if not (p_status = any(v_allowed)) then
+    raise exception 'Cannot move order % from % to %', v_order.order_number, v_order.status, p_status;
+  end if;
+
+  -- Put cancelled stock back on the shelf (skipping variants deleted since)
+  if p_status = 'cancelled' then
+    update public.product_variants pv
+    set quantity = pv.quantity + oi.quantity,
+        updated_by = auth.uid()
+    from (
+      select variant_id, sum(quantity) as quantity
+      from public.order_items
+      where order_id = v_order.id
+        and variant_id is not null
+      group by variant_id
+    ) oi
+    where pv.id = oi.variant_id;
+  end if;
+
+  update public.orders
+  set status = p_status,
+      updated_by = auth.uid()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.update_order_status(uuid, text) to authenticated;
+
+-- Broadcast order changes to open admin tabs
+alter publication supabase_realtime add table public.orders;
@@ -0,0 +1,128 @@
+-- STORE HOURS TABLE (weekly schedule, times are Asia/Kolkata wall-clock)
+create table if not exists public.store_hours (
+  weekday smallint primary key check (weekday between 0 and 6),   -- 0 = Sunday, same as extract(dow)
+  is_closed boolean not null default false,
+  open_time time not null default '08:30',
+  close_time time not null default '21:30',
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  constraint store_hours_valid_range check (is_closed or close_time > open_time)
+);
+
+insert into public.store_hours (weekday)
+select generate_series(0, 6)
+on conflict (weekday) do nothing;
+
+create or replace function public.update_store_hours_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_store_hours_updated_at
+before update on public.store_hours
+for each row
+execute function public.update_store_hours_updated_at();
+
+-- Last open/closed state applied by the scheduler. A manual toggle only
+-- changes is_open, so it holds until the next scheduled open or close.
+alter table public.store_status
+add column if not exists scheduled_state boolean;
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.store_hours enable row level security;
+
+-- POLICIES
+
+create policy "Users can view store hours"
+on public.store_hours
+for select
+using (true);
+
+create policy "Admins can manage store hours"
+on public.store_hours
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+-- FUNCTION: Should the store be open at a given instant?
+create or replace function public.store_should_be_open(p_at timestamp with time zone default now())
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select not h.is_closed
+        and (p_at at time zone 'Asia/Kolkata')::time >= h.open_time
+        and (p_at at time zone 'Asia/Kolkata')::time < h.close_time
+      from public.store_hours h
+      where h.weekday = extract(dow from (p_at at time zone 'Asia/Kolkata'))::smallint
+    ),
+    false
+  );
+$$;
+
+-- FUNCTION: Flip store_status when the schedule crosses an open/close time
+create or replace function public.apply_store_schedule()
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expected boolean := public.store_should_be_open(now());
+  v_status public.store_status;
+begin
+  -- pg_cron runs without a user; signed-in callers must be admins
+  if auth.uid() is not null and not public.is_admin() then
+    raise exception 'Only admins can apply the store schedule';
+  end if;
+
+  select * into v_status
+  from public.store_status
+  order by updated_at desc nulls last
+  limit 1
+  for update;
+
+  if not found then
+    insert into public.store_status (is_open, scheduled_state)
+    values (v_expected, v_expected)
+    returning * into v_status;
+
+    return v_status.is_open;
+  end if;
+
+  if v_status.scheduled_state is distinct from v_expected then
+    update public.store_status
+    set is_open = v_expected,
+        scheduled_state = v_expected,
+        updated_at = now(),
+        updated_by = null
+    where id = v_status.id
+    returning * into v_status;
+  end if;
+
+  return v_status.is_open;
+end;
+$$;
+
+revoke execute on function public.apply_store_schedule() from public, anon;
+grant execute on function public.apply_store_schedule() to authenticated, service_role;
+
+-- SCHEDULE: run every minute with pg_cron where the extension is available.
+-- Without pg_cron, any external scheduler can run
+--   select public.apply_store_schedule();
+-- or POST /rest/v1/rpc/apply_store_schedule with the service role key.
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule('apply-store-schedule', '* * * * *', 'select public.apply_store_schedule()');
+  end if;
+end;
+$$;
@@ -0,0 +1,140 @@
+-- STORE HOURS EXCEPTIONS (holidays, festival hours) keyed by Asia/Kolkata date
+create table if not exists public.store_hours_exceptions (
+  exception_date date primary key,
+  is_closed boolean not null default true,
+  open_time time,
+  close_time time,
+  note text,                              -- shown to customers, e.g. 'Closed for Diwali Padwa'
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  constraint store_hours_exceptions_valid_range check (
+    is_closed or (open_time is not null and close_time is not null and close_time > open_time)
+  )
+);
+
+create or replace function public.update_store_hours_exceptions_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_store_hours_exceptions_updated_at
+before update on public.store_hours_exceptions
+for each row
+execute function public.update_store_hours_exceptions_updated_at();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.store_hours_exceptions enable row level security;
+
+-- POLICIES
+
+create policy "Users can view store hours exceptions"
+on public.store_hours_exceptions
+for select
+using (true);
+
+create policy "Admins can manage store hours exceptions"
+on public.store_hours_exceptions
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+-- FUNCTION: Effective hours for a date (an exception wins over the weekly row)
+create or replace function public.get_store_hours_for_date(p_date date)
+returns table (is_closed boolean, open_time time, close_time time, note text)
+language sql
+stable
+set search_path = public
+as $$
+  select e.is_closed, e.open_time, e.close_time, e.note
+  from public.store_hours_exceptions e
+  where e.exception_date = p_date
+  union all
+  select h.is_closed, h.open_time, h.close_time, null::text
+  from public.store_hours h
+  where h.weekday = extract(dow from p_date)::smallint
+    and not exists (
+      select 1 from public.store_hours_exceptions e where e.exception_date = p_date
+    )
+  limit 1;
+$$;
+
+-- Replaces the weekly-only version so the scheduler honours exceptions
+create or replace function public.store_should_be_open(p_at timestamp with time zone default now())
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select not h.is_closed
+        and (p_at at time zone 'Asia/Kolkata')::time >= h.open_time
+        and (p_at at time zone 'Asia/Kolkata')::time < h.close_time
+      from public.get_store_hours_for_date((p_at at time zone 'Asia/Kolkata')::date) h
+    ),
+    false
+  );
+$$;
+
+-- FUNCTION: Next time the store opens after p_from (looks ahead 60 days)
+create or replace function public.next_store_opening(p_from timestamp with time zone default now())
+returns timestamp with time zone
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_date date := (p_from at time zone 'Asia/Kolkata')::date;
+  v_hours record;
+  v_open_at timestamp with time zone;
+begin
+  for i in 0..60 loop
+    select * into v_hours from public.get_store_hours_for_date(v_date + i);
+
+    if found and not v_hours.is_closed then
+      v_open_at := ((v_date + i) + v_hours.open_time) at time zone 'Asia/Kolkata';
+      if v_open_at > p_from then
+        return v_open_at;
+      end if;
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+-- FUNCTION: What customers see next to the Open/Closed badge
+create or replace function public.get_store_status_details()
+returns jsonb
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone 'Asia/Kolkata')::date;
+  v_hours record;
+  v_is_open boolean;
+begin
+  select is_open into v_is_open
+  from public.store_status
+  order by updated_at desc nulls last
+  limit 1;
+
+  select * into v_hours from public.get_store_hours_for_date(v_today);
+
+  return jsonb_build_object(
+    'is_open', coalesce(v_is_open, public.store_should_be_open(now())),
+    'note', v_hours.note,
+    'today_is_closed', coalesce(v_hours.is_closed, true),
+    'today_open_time', v_hours.open_time,
+    'today_close_time', v_hours.close_time,
+    'next_open_at', public.next_store_opening(now())
+  );
+end;
+$$;
+
+grant execute on function public.get_store_status_details() to anon, authenticated;
@@ -0,0 +1,54 @@
+-- STORE PROFILE (single row; opening hours live in store_hours / store_hours_exceptions)
+create table if not exists public.store_profile (
+  id boolean primary key default true check (id),   -- only one row can exist
+  name text not null default 'Shreeji Foods',
+  tagline text,
+  address text,                                      -- one line per row of the printed address
+  email text,
+  phone text,
+  map_url text,
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+insert into public.store_profile (id, name, tagline, address, email, phone, map_url)
+values (
+  true,
+  'Shreeji Foods',
+  'Premium dry fruits, authentic sweets and delicious namkeen in Kandivali West, Mumbai',
+  e'Shop No. 11, Mahavir Nagar\nPanchsheel Garden, Siddhivinayak Nagar\nKandivali West, Mumbai, Maharashtra 400067',
+  'shreejifoods1999@gmail.com',
+  null,
+  'https://www.google.com/maps/search/?api=1&query=Shreeji+Foods%2C+Shop+No.+11%2C+Mahavir+Nagar%2C+Panchsheel+Garden%2C+Siddhivinayak+Nagar%2C+Kandivali+West%2C+Mumbai%2C+Maharashtra+400067'
+)
+on conflict (id) do nothing;
+
+create or replace function public.update_store_profile_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_store_profile_updated_at
+before update on public.store_profile
+for each row
+execute function public.update_store_profile_updated_at();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.store_profile enable row level security;
+
+-- POLICIES
+
+create policy "Users can view store profile"
+on public.store_profile
+for select
+using (true);
+
+create policy "Admins can manage store profile"
+on public.store_profile
+for all
+using (public.is_admin())
+with check (public.is_admin());
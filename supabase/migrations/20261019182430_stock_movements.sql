@@ -0,0 +1,316 @@
+-- STOCK MOVEMENTS LEDGER
+-- Every change to product_variants.quantity is written here by a trigger, so
+-- the stock on hand can always be explained by summing its movements.
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  variant_id uuid references public.product_variants(id) on delete set null,
+  sku text,                                   -- kept for reconciliation after a variant is deleted
+  delta int not null,
+  quantity_after int not null,
+  reason text not null check (reason in ('purchase', 'sale', 'wastage', 'correction', 'return')),
+  note text,
+  order_id uuid references public.orders(id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  created_by uuid references auth.users(id) on delete set null
+);
+
+create index if not exists idx_stock_movements_variant_id on public.stock_movements(variant_id, created_at desc);
+create index if not exists idx_stock_movements_created_at on public.stock_movements(created_at desc);
+
+-- FUNCTION: Tag the movements written by the rest of the current transaction
+create or replace function public.set_stock_context(
+  p_reason text,
+  p_note text default null,
+  p_order_id uuid default null
+)
+returns void
+language sql
+as $$
+  select set_config('app.stock_reason', coalesce(p_reason, ''), true),
+         set_config('app.stock_note', coalesce(p_note, ''), true),
+         set_config('app.stock_order_id', coalesce(p_order_id::text, ''), true);
+$$;
+
+-- TRIGGER: Log quantity changes (direct table updates are logged as corrections)
+create or replace function public.log_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta int;
+  v_reason text := nullif(current_setting('app.stock_reason', true), '');
+begin
+  if tg_op = 'INSERT' then
+    v_delta := coalesce(new.quantity, 0);
+  else
+    v_delta := coalesce(new.quantity, 0) - coalesce(old.quantity, 0);
+  end if;
+
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  insert into public.stock_movements (variant_id, sku, delta, quantity_after, reason, note, order_id, created_by)
+  values (
+    new.id,
+    new.sku,
+    v_delta,
+    coalesce(new.quantity, 0),
+    coalesce(v_reason, case when tg_op = 'INSERT' then 'purchase' else 'correction' end),
+    coalesce(
+      nullif(current_setting('app.stock_note', true), ''),
+      case when tg_op = 'INSERT' then 'Opening stock' end
+    ),
+    nullif(current_setting('app.stock_order_id', true), '')::uuid,
+    coalesce(auth.uid(), new.updated_by)
+  );
+
+  return new;
+end;
+$$;
+
+create trigger trg_log_stock_movement_insert
+after insert on public.product_variants
+for each row
+execute function public.log_stock_movement();
+
+create trigger trg_log_stock_movement_update
+after update of quantity on public.product_variants
+for each row
+when (old.quantity is distinct from new.quantity)
+execute function public.log_stock_movement();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.stock_movements enable row level security;
+
+-- POLICIES (rows are only written by the trigger)
+
+create policy "Admins can view stock movements"
+on public.stock_movements
+for select
+using (public.is_admin());
+
+-- Opening balance for stock that existed before the ledger
+insert into public.stock_movements (variant_id, sku, delta, quantity_after, reason, note)
+select id, sku, quantity, quantity, 'correction', 'Opening balance'
+from public.product_variants
+where coalesce(quantity, 0) <> 0;
+
+-- FUNCTION: Set a variant's stock with a reason (used by the admin dashboard)
+create or replace function public.set_variant_quantity(
+  p_variant_id uuid,
+  p_quantity int,
+  p_reason text,
+  p_note text default null
+)
+returns public.product_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant public.product_variants;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update stock';
+  end if;
+
+  if p_quantity is null or p_quantity < 0 then
+    raise exception 'Quantity must be 0 or greater';
+  end if;
+
+  if p_reason not in ('purchase', 'sale', 'wastage', 'correction', 'return') then
+    raise exception 'Invalid stock movement reason: %', p_reason;
+  end if;
+
+  perform public.set_stock_context(p_reason, nullif(trim(coalesce(p_note, '')), ''));
+
+  update public.product_variants
+  set quantity = p_quantity,
+      updated_by = auth.uid()
+  where id = p_variant_id
+  returning * into v_variant;
+
+  if not found then
+    raise exception 'Variant not found';
+  end if;
+
+  return v_variant;
+end;
+$$;
+
+grant execute on function public.set_variant_quantity(uuid, int, text, text) to authenticated;
+
+-- Record sales against the order
+create or replace function public.place_order(
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text,
+  p_items jsonb
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_line record;
+  v_variant record;
+  v_total int := 0;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if coalesce(trim(p_customer_phone), '') = '' then
+    raise exception 'Customer phone is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  insert into public.orders (order_number, user_id, customer_name, customer_phone, notes)
+  values (
+    'ORD-' || lpad(nextval('public.order_number_sequence')::text, 5, '0'),
+    auth.uid(),
+    trim(p_customer_name),
+    trim(p_customer_phone),
+    nullif(trim(coalesce(p_notes, '')), '')
+  )
+  returning * into v_order;
+
+  perform public.set_stock_context('sale', null, v_order.id);
+
+  -- Merge duplicate lines and lock variants in a stable order to avoid deadlocks
+  for v_line in
+    select (item->>'variant_id')::uuid as variant_id,
+           sum((item->>'quantity')::int) as quantity
+    from jsonb_array_elements(p_items) as item
+    group by 1
+    order by 1
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for variant %', v_line.variant_id;
+    end if;
+
+    select pv.id, pv.sku, pv.variant_value, pv.price, pv.quantity, p.name, p.is_visible
+    into v_variant
+    from public.product_variants pv
+    join public.product p on p.id = pv.product_id
+    where pv.id = v_line.variant_id
+    for update of pv;
+
+    if not found or not v_variant.is_visible then
+      raise exception 'Product is no longer available (variant %)', v_line.variant_id;
+    end if;
+
+    if v_variant.quantity < v_line.quantity then
+      raise exception 'Insufficient stock for % (%): % available', v_variant.name, v_variant.variant_value, v_variant.quantity;
+    end if;
+
+    update public.product_variants
+    set quantity = quantity - v_line.quantity
+    where id = v_variant.id;
+
+    insert into public.order_items (
+      order_id,
+      variant_id,
+      product_name,
+      variant_value,
+      sku,
+      unit_price,
+      quantity,
+      line_total
+    )
+    values (
+      v_order.id,
+      v_variant.id,
+      v_variant.name,
+      v_variant.variant_value,
+      v_variant.sku,
+      v_variant.price,
+      v_line.quantity,
+      v_variant.price * v_line.quantity
+    );
+
+    v_total := v_total + v_variant.price * v_line.quantity;
+  end loop;
+
+  update public.orders
+  set total = v_total
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- Record restocks from cancelled orders as returns
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_allowed text[];
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update orders';
+  end if;
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  v_allowed := case v_order.status
+    when 'placed' then array['confirmed', 'cancelled']
+    when 'confirmed' then array['packed', 'cancelled']
+    when 'packed' then array['ready_for_pickup', 'cancelled']
+    when 'ready_for_pickup' then array['completed', 'cancelled']
+    else array[]::text[]
+  end;
+
+  if not (p_status = any(v_allowed)) then
+    raise exception 'Cannot move order % from % to %', v_order.order_number, v_order.status, p_status;
+  end if;
+
+  -- Put cancelled stock back on the shelf (skipping variants deleted since)
+  if p_status = 'cancelled' then
+    perform public.set_stock_context('return', 'Order ' || v_order.order_number || ' cancelled', v_order.id);
+
+    update public.product_variants pv
+    set quantity = pv.quantity + oi.quantity,
+        updated_by = auth.uid()
+    from (
+      select variant_id, sum(quantity) as quantity
+      from public.order_items
+      where order_id = v_order.id
+        and variant_id is not null
+      group by variant_id
+    ) oi
+    where pv.id = oi.variant_id;
+  end if;
+
+  update public.orders
+  set status = p_status,
+      updated_by = auth.uid()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
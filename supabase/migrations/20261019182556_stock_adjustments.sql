@@ -0,0 +1,75 @@
+-- FUNCTION: Adjust a variant's stock atomically
+-- p_mode 'add' / 'remove' apply a delta to the locked row, 'set' records a stock
+-- count. Two admins adjusting the same variant queue on the row lock instead of
+-- overwriting each other.
+create or replace function public.adjust_variant_stock(
+  p_variant_id uuid,
+  p_mode text,
+  p_quantity int,
+  p_reason text,
+  p_note text default null
+)
+returns public.product_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant public.product_variants;
+  v_next int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update stock';
+  end if;
+
+  if p_mode not in ('add', 'remove', 'set') then
+    raise exception 'Invalid adjustment mode: %', p_mode;
+  end if;
+
+  if p_quantity is null or p_quantity < 0 or (p_mode <> 'set' and p_quantity = 0) then
+    raise exception 'Enter a quantity greater than 0';
+  end if;
+
+  if p_reason is null or p_reason not in ('purchase', 'sale', 'wastage', 'correction', 'return') then
+    raise exception 'A reason is required for every stock adjustment';
+  end if;
+
+  select * into v_variant
+  from public.product_variants
+  where id = p_variant_id
+  for update;
+
+  if not found then
+    raise exception 'Variant not found';
+  end if;
+
+  v_next := case p_mode
+    when 'add' then v_variant.quantity + p_quantity
+    when 'remove' then v_variant.quantity - p_quantity
+    else p_quantity
+  end;
+
+  if v_next < 0 then
+    raise exception 'Cannot remove %: only % in stock', p_quantity, v_variant.quantity;
+  end if;
+
+  if v_next = v_variant.quantity then
+    return v_variant;
+  end if;
+
+  perform public.set_stock_context(p_reason, nullif(trim(coalesce(p_note, '')), ''));
+
+  update public.product_variants
+  set quantity = v_next,
+      updated_by = auth.uid()
+  where id = v_variant.id
+  returning * into v_variant;
+
+  return v_variant;
+end;
+$$;
+
+grant execute on function public.adjust_variant_stock(uuid, text, int, text, text) to authenticated;
+
+-- Superseded by adjust_variant_stock
+drop function if exists public.set_variant_quantity(uuid, int, text, text);
@@ -0,0 +1,10 @@
+-- LOW STOCK THRESHOLDS
+-- A variant is low on stock once quantity falls to reorder_level (0 = only
+-- when sold out). reorder_quantity is the usual amount to order back in.
+alter table public.product_variants
+add column if not exists reorder_level integer not null default 0 check (reorder_level >= 0),
+add column if not exists reorder_quantity integer check (reorder_quantity is null or reorder_quantity > 0);
+
+create index if not exists idx_product_variants_low_stock
+on public.product_variants(product_id)
+where quantity <= reorder_level;
@@ -0,0 +1,244 @@
+-- PRODUCT BATCHES (perishable stock by production run)
+-- product_variants.quantity stays the total on hand. Batches track how much of
+-- it came from each run; stock added without a batch (older stock, returns)
+-- is simply unbatched.
+create table if not exists public.product_batches (
+  id uuid primary key default gen_random_uuid(),
+  variant_id uuid not null references public.product_variants(id) on delete cascade,
+  batch_code text not null,
+  manufactured_on date not null default current_date,
+  best_before date,
+  received_quantity integer not null check (received_quantity > 0),
+  quantity integer not null check (quantity >= 0),   -- remaining in this batch
+  created_at timestamp with time zone not null default now(),
+  created_by uuid references auth.users(id) on delete set null,
+  constraint unique_batch_per_variant unique (variant_id, batch_code),
+  constraint product_batches_valid_dates check (best_before is null or best_before >= manufactured_on)
+);
+
+create index if not exists idx_product_batches_variant_id on public.product_batches(variant_id);
+create index if not exists idx_product_batches_best_before on public.product_batches(best_before) where quantity > 0;
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.product_batches enable row level security;
+
+-- POLICIES
+
+create policy "Admins can manage product batches"
+on public.product_batches
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+-- TRIGGER: When stock goes down (sale, wastage, count), take it from the batch
+-- that expires first (FEFO). Whatever the batches cannot cover is unbatched stock.
+create or replace function public.consume_product_batches()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_remaining int := old.quantity - new.quantity;
+  v_batch record;
+  v_take int;
+begin
+  if v_remaining <= 0 or current_setting('app.skip_batch_consumption', true) = 'on' then
+    return new;
+  end if;
+
+  for v_batch in
+    select id, quantity
+    from public.product_batches
+    where variant_id = new.id
+      and quantity > 0
+    order by best_before nulls last, manufactured_on, created_at
+    for update
+  loop
+    exit when v_remaining <= 0;
+
+    v_take := least(v_batch.quantity, v_remaining);
+
+    update public.product_batches
+    set quantity = quantity - v_take
+    where id = v_batch.id;
+
+    v_remaining := v_remaining - v_take;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger trg_consume_product_batches
+after update of quantity on public.product_variants
+for each row
+when (new.quantity < old.quantity)
+execute function public.consume_product_batches();
+
+-- FUNCTION: Receive a new batch and add it to the variant's stock
+create or replace function public.add_product_batch(
+  p_variant_id uuid,
+  p_batch_code text,
+  p_manufactured_on date,
+  p_best_before date,
+  p_quantity int,
+  p_note text default null
+)
+returns public.product_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.product_batches;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can add batches';
+  end if;
+
+  if coalesce(trim(p_batch_code), '') = '' then
+    raise exception 'Batch code is required';
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Enter a quantity greater than 0';
+  end if;
+
+  perform 1 from public.product_variants where id = p_variant_id for update;
+  if not found then
+    raise exception 'Variant not found';
+  end if;
+
+  insert into public.product_batches (
+    variant_id,
+    batch_code,
+    manufactured_on,
+    best_before,
+    received_quantity,
+    quantity,
+    created_by
+  )
+  values (
+    p_variant_id,
+    trim(p_batch_code),
+    coalesce(p_manufactured_on, current_date),
+    p_best_before,
+    p_quantity,
+    p_quantity,
+    auth.uid()
+  )
+  returning * into v_batch;
+
+  perform public.set_stock_context(
+    'purchase',
+    coalesce(nullif(trim(coalesce(p_note, '')), ''), 'Batch ' || v_batch.batch_code)
+  );
+
+  update public.product_variants
+  set quantity = quantity + p_quantity,
+      updated_by = auth.uid()
+  where id = p_variant_id;
+
+  return v_batch;
+end;
+$$;
+
+grant execute on function public.add_product_batch(uuid, text, date, date, int, text) to authenticated;
+
+-- FUNCTION: Write off what is left of a batch (expired or damaged) as wastage
+create or replace function public.write_off_batch(p_batch_id uuid)
+returns public.product_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.product_batches;
+  v_on_hand int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can write off batches';
+  end if;
+
+  select * into v_batch
+  from public.product_batches
+  where id = p_batch_id
+  for update;
+
+  if not found then
+    raise exception 'Batch not found';
+  end if;
+
+  if v_batch.quantity = 0 then
+    return v_batch;
+  end if;
+
+  select quantity into v_on_hand
+  from public.product_variants
+  where id = v_batch.variant_id
+  for update;
+
+  -- This batch is written off explicitly, so skip FEFO for the variant update
+  perform set_config('app.skip_batch_consumption', 'on', true);
+  perform public.set_stock_context('wastage', 'Batch ' || v_batch.batch_code || ' written off');
+
+  update public.product_variants
+  set quantity = greatest(v_on_hand - v_batch.quantity, 0),
+      updated_by = auth.uid()
+  where id = v_batch.variant_id;
+
+  perform set_config('app.skip_batch_consumption', '', true);
+
+  update public.product_batches
+  set quantity = 0
+  where id = v_batch.id
+  returning * into v_batch;
+
+  return v_batch;
+end;
+$$;
+
+grant execute on function public.write_off_batch(uuid) to authenticated;
+
+-- VIEW: Batches still on the shelf, soonest best-before first
+create or replace view public.expiring_batches
+with (security_invoker = true)
+as
+select
+  b.id,
+  b.variant_id,
+  b.batch_code,
+  b.manufactured_on,
+  b.best_before,
+  b.quantity,
+  pv.sku,
+  pv.variant_value,
+  p.id as product_id,
+  p.name as product_name,
+  (b.best_before - (now() at time zone 'Asia/Kolkata')::date) as days_left
+from public.product_batches b
+join public.product_variants pv on pv.id = b.variant_id
+join public.product p on p.id = pv.product_id
+where b.quantity > 0
+  and b.best_before is not null;
+
+-- FUNCTION: "Made on" date customers see, i.e. the batch that sells next (FEFO)
+create or replace function public.get_variant_made_on(p_variant_ids uuid[])
+returns table (variant_id uuid, manufactured_on date)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct on (b.variant_id) b.variant_id, b.manufactured_on
+  from public.product_batches b
+  join public.product_variants pv on pv.id = b.variant_id
+  join public.product p on p.id = pv.product_id
+  where b.variant_id = any(p_variant_ids)
+    and b.quantity > 0
+    and p.is_visible
+  order by b.variant_id, b.best_before nulls last, b.manufactured_on, b.created_at;
+$$;
+
+grant execute on function public.get_variant_made_on(uuid[]) to anon, authenticated;
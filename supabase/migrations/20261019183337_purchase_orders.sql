@@ -0,0 +1,401 @@
+-- SUPPLIERS
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  contact_name text,
+  phone text,
+  email text,
+  address text,
+  gstin text,
+  notes text,
+  is_active boolean not null default true,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+-- Last cost paid per unit, updated on every receipt
+alter table public.product_variants
+add column if not exists cost_price numeric(10, 2) check (cost_price is null or cost_price >= 0);
+
+-- PURCHASE ORDERS
+-- draft -> sent -> partially_received -> received; draft or sent can be cancelled
+create sequence if not exists public.purchase_order_number_sequence start 1;
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null unique,
+  supplier_id uuid not null references public.suppliers(id) on delete restrict,
+  status text not null default 'draft'
+    check (status in ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_on date,
+  notes text,
+  total numeric(12, 2) not null default 0,
+  sent_at timestamp with time zone,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  created_by uuid references auth.users(id) on delete set null,
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+-- Product details are copied onto the line so a printed PO never changes
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  variant_id uuid references public.product_variants(id) on delete set null,
+  product_name text not null,
+  variant_value text not null,
+  sku text not null,
+  quantity_ordered integer not null check (quantity_ordered > 0),
+  quantity_received integer not null default 0 check (quantity_received >= 0),
+  unit_cost numeric(10, 2) not null default 0 check (unit_cost >= 0),
+  constraint purchase_order_lines_not_over_received check (quantity_received <= quantity_ordered)
+);
+
+-- One row per delivery; the lines keep the cost actually paid
+create table if not exists public.purchase_receipts (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  note text,
+  received_at timestamp with time zone not null default now(),
+  received_by uuid references auth.users(id) on delete set null
+);
+
+create table if not exists public.purchase_receipt_lines (
+  id uuid primary key default gen_random_uuid(),
+  receipt_id uuid not null references public.purchase_receipts(id) on delete cascade,
+  purchase_order_line_id uuid not null references public.purchase_order_lines(id) on delete cascade,
+  variant_id uuid references public.product_variants(id) on delete set null,
+  quantity integer not null check (quantity > 0),
+  unit_cost numeric(10, 2) not null check (unit_cost >= 0),
+  batch_id uuid references public.product_batches(id) on delete set null
+);
+
+create index if not exists idx_purchase_orders_supplier_id on public.purchase_orders(supplier_id);
+create index if not exists idx_purchase_orders_status on public.purchase_orders(status);
+create index if not exists idx_purchase_order_lines_order_id on public.purchase_order_lines(purchase_order_id);
+create index if not exists idx_purchase_receipts_order_id on public.purchase_receipts(purchase_order_id);
+create index if not exists idx_purchase_receipt_lines_receipt_id on public.purchase_receipt_lines(receipt_id);
+
+create or replace function public.update_suppliers_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_suppliers_updated_at
+before update on public.suppliers
+for each row
+execute function public.update_suppliers_updated_at();
+
+create or replace function public.update_purchase_orders_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_purchase_orders_updated_at
+before update on public.purchase_orders
+for each row
+execute function public.update_purchase_orders_updated_at();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.suppliers enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_lines enable row level security;
+alter table public.purchase_receipts enable row level security;
+alter table public.purchase_receipt_lines enable row level security;
+
+-- POLICIES (purchasing is admin only)
+
+create policy "Admins can manage suppliers"
+on public.suppliers
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Admins can manage purchase orders"
+on public.purchase_orders
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Admins can manage purchase order lines"
+on public.purchase_order_lines
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Admins can view purchase receipts"
+on public.purchase_receipts
+for select
+using (public.is_admin());
+
+create policy "Admins can view purchase receipt lines"
+on public.purchase_receipt_lines
+for select
+using (public.is_admin());
+
+-- FUNCTION: Create or replace a draft PO (header and lines in one transaction)
+-- p_lines: [{ "variant_id": uuid, "quantity": int, "unit_cost": number }]
+create or replace function public.save_purchase_order(
+  p_purchase_order_id uuid,
+  p_supplier_id uuid,
+  p_expected_on date,
+  p_notes text,
+  p_lines jsonb
+)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line_count int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can manage purchase orders';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A purchase order must contain at least one line';
+  end if;
+
+  if p_purchase_order_id is null then
+    insert into public.purchase_orders (po_number, supplier_id, expected_on, notes, created_by, updated_by)
+    values (
+      'PO-' || lpad(nextval('public.purchase_order_number_sequence')::text, 5, '0'),
+      p_supplier_id,
+      p_expected_on,
+      nullif(trim(coalesce(p_notes, '')), ''),
+      auth.uid(),
+      auth.uid()
+    )
+    returning * into v_order;
+  else
+    select * into v_order
+    from public.purchase_orders
+    where id = p_purchase_order_id
+    for update;
+
+    if not found then
+      raise exception 'Purchase order not found';
+    end if;
+
+    if v_order.status <> 'draft' then
+      raise exception 'Only draft purchase orders can be edited (% is %)', v_order.po_number, v_order.status;
+    end if;
+
+    update public.purchase_orders
+    set supplier_id = p_supplier_id,
+        expected_on = p_expected_on,
+        notes = nullif(trim(coalesce(p_notes, '')), ''),
+        updated_by = auth.uid()
+    where id = v_order.id;
+
+    delete from public.purchase_order_lines where purchase_order_id = v_order.id;
+  end if;
+
+  insert into public.purchase_order_lines (
+    purchase_order_id,
+    variant_id,
+    product_name,
+    variant_value,
+    sku,
+    quantity_ordered,
+    unit_cost
+  )
+  select
+    v_order.id,
+    pv.id,
+    p.name,
+    pv.variant_value,
+    pv.sku,
+    line.quantity,
+    line.unit_cost
+  from (
+    select (item->>'variant_id')::uuid as variant_id,
+           sum((item->>'quantity')::int) as quantity,
+           max(coalesce((item->>'unit_cost')::numeric, 0)) as unit_cost
+    from jsonb_array_elements(p_lines) as item
+    group by 1
+  ) line
+  join public.product_variants pv on pv.id = line.variant_id
+  join public.product p on p.id = pv.product_id;
+
+  -- Lines are merged by variant, and the joins drop variants that no longer exist
+  get diagnostics v_line_count = row_count;
+  if v_line_count <> (
+    select count(*) from (select distinct item->>'variant_id' from jsonb_array_elements(p_lines) as item) lines
+  ) then
+    raise exception 'Some products on this order no longer exist; reload and try again';
+  end if;
+
+  if exists (
+    select 1 from public.purchase_order_lines
+    where purchase_order_id = v_order.id and quantity_ordered <= 0
+  ) then
+    raise exception 'Every line needs a quantity greater than 0';
+  end if;
+
+  update public.purchase_orders
+  set total = coalesce((
+    select sum(quantity_ordered * unit_cost)
+    from public.purchase_order_lines
+    where purchase_order_id = v_order.id
+  ), 0)
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.save_purchase_order(uuid, uuid, date, text, jsonb) to authenticated;
+
+-- FUNCTION: Receive some or all of a PO into stock
+-- p_lines: [{ "line_id": uuid, "quantity": int, "unit_cost": number,
+--             "batch_code": text, "manufactured_on": date, "best_before": date }]
+-- Batch fields are optional; when batch_code is given the delivery is also
+-- recorded as a product batch.
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_lines jsonb,
+  p_note text default null
+)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_receipt_id uuid;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_quantity int;
+  v_unit_cost numeric(10, 2);
+  v_batch_id uuid;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can receive purchase orders';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Nothing to receive';
+  end if;
+
+  select * into v_order
+  from public.purchase_orders
+  where id = p_purchase_order_id
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order % cannot be received while %', v_order.po_number, v_order.status;
+  end if;
+
+  insert into public.purchase_receipts (purchase_order_id, note, received_by)
+  values (v_order.id, nullif(trim(coalesce(p_note, '')), ''), auth.uid())
+  returning id into v_receipt_id;
+
+  perform public.set_stock_context('purchase', v_order.po_number);
+
+  for v_item in
+    select value from jsonb_array_elements(p_lines)
+    order by value->>'line_id'
+  loop
+    v_quantity := coalesce((v_item->>'quantity')::int, 0);
+    continue when v_quantity = 0;
+
+    select * into v_line
+    from public.purchase_order_lines
+    where id = (v_item->>'line_id')::uuid
+      and purchase_order_id = v_order.id
+    for update;
+
+    if not found then
+      raise exception 'Line % is not part of %', v_item->>'line_id', v_order.po_number;
+    end if;
+
+    if v_quantity < 0 or v_line.quantity_received + v_quantity > v_line.quantity_ordered then
+      raise exception 'Cannot receive % of % (%): % of % outstanding',
+        v_quantity, v_line.product_name, v_line.variant_value,
+        v_line.quantity_ordered - v_line.quantity_received, v_line.quantity_ordered;
+    end if;
+
+    if v_line.variant_id is null then
+      raise exception '% (%) no longer exists in the catalogue', v_line.product_name, v_line.variant_value;
+    end if;
+
+    v_unit_cost := coalesce((v_item->>'unit_cost')::numeric, v_line.unit_cost);
+    v_batch_id := null;
+
+    if coalesce(trim(v_item->>'batch_code'), '') <> '' then
+      insert into public.product_batches (
+        variant_id,
+        batch_code,
+        manufactured_on,
+        best_before,
+        received_quantity,
+        quantity,
+        created_by
+      )
+      values (
+        v_line.variant_id,
+        trim(v_item->>'batch_code'),
+        coalesce((v_item->>'manufactured_on')::date, current_date),
+        (v_item->>'best_before')::date,
+        v_quantity,
+        v_quantity,
+        auth.uid()
+      )
+      returning id into v_batch_id;
+    end if;
+
+    update public.product_variants
+    set quantity = quantity + v_quantity,
+        cost_price = v_unit_cost,
+        updated_by = auth.uid()
+    where id = v_line.variant_id;
+
+    update public.purchase_order_lines
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+
+    insert into public.purchase_receipt_lines (receipt_id, purchase_order_line_id, variant_id, quantity, unit_cost, batch_id)
+    values (v_receipt_id, v_line.id, v_line.variant_id, v_quantity, v_unit_cost, v_batch_id);
+  end loop;
+
+  if not exists (select 1 from public.purchase_receipt_lines where receipt_id = v_receipt_id) then
+    raise exception 'Enter a quantity for at least one line';
+  end if;
+
+  update public.purchase_orders
+  set status = case
+        when exists (
+          select 1 from public.purchase_order_lines
+          where purchase_order_id = v_order.id
+            and quantity_received < quantity_ordered
+        ) then 'partially_received'
+        else 'received'
+      end,
+      updated_by = auth.uid()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, jsonb, text) to authenticated;
@@ -0,0 +1,237 @@
+-- VARIANT COSTS
+-- Kept out of product_variants, which customers can read
+create table if not exists public.variant_costs (
+  variant_id uuid primary key references public.product_variants(id) on delete cascade,
+  cost_price numeric(10, 2) not null check (cost_price >= 0),
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+insert into public.variant_costs (variant_id, cost_price)
+select id, cost_price
+from public.product_variants
+where cost_price is not null
+on conflict (variant_id) do nothing;
+
+alter table public.product_variants
+drop column if exists cost_price;
+
+create or replace function public.update_variant_costs_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_variant_costs_updated_at
+before update on public.variant_costs
+for each row
+execute function public.update_variant_costs_updated_at();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.variant_costs enable row level security;
+
+-- POLICIES
+create policy "Admins can manage variant costs"
+on public.variant_costs
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+-- Broadcast cost changes to the dashboard and valuation report (RLS keeps them admin-only)
+alter publication supabase_realtime add table public.variant_costs;
+
+-- FUNCTION: Receive some or all of a PO into stock, averaging the cost price
+-- p_lines: [{ "line_id": uuid, "quantity": int, "unit_cost": number,
+--             "batch_code": text, "manufactured_on": date, "best_before": date }]
+-- Batch fields are optional; when batch_code is given the delivery is also
+-- recorded as a product batch.
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_lines jsonb,
+  p_note text default null
+)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_receipt_id uuid;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_quantity int;
+  v_unit_cost numeric(10, 2);
+  v_batch_id uuid;
+  v_on_hand int;
+  v_current_cost numeric(10, 2);
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can receive purchase orders';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Nothing to receive';
+  end if;
+
+  select * into v_order
+  from public.purchase_orders
+  where id = p_purchase_order_id
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order % cannot be received while %', v_order.po_number, v_order.status;
+  end if;
+
+  insert into public.purchase_receipts (purchase_order_id, note, received_by)
+  values (v_order.id, nullif(trim(coalesce(p_note, '')), ''), auth.uid())
+  returning id into v_receipt_id;
+
+  perform public.set_stock_context('purchase', v_order.po_number);
+
+  for v_item in
+    select value from jsonb_array_elements(p_lines)
+    order by value->>'line_id'
+  loop
+    v_quantity := coalesce((v_item->>'quantity')::int, 0);
+    continue when v_quantity = 0;
+
+    select * into v_line
+    from public.purchase_order_lines
+    where id = (v_item->>'line_id')::uuid
+      and purchase_order_id = v_order.id
+    for update;
+
+    if not found then
+      raise exception 'Line % is not part of %', v_item->>'line_id', v_order.po_number;
+    end if;
+
+    if v_quantity < 0 or v_line.quantity_received + v_quantity > v_line.quantity_ordered then
+      raise exception 'Cannot receive % of % (%): % of % outstanding',
+        v_quantity, v_line.product_name, v_line.variant_value,
+        v_line.quantity_ordered - v_line.quantity_received, v_line.quantity_ordered;
+    end if;
+
+    if v_line.variant_id is null then
+      raise exception '% (%) no longer exists in the catalogue', v_line.product_name, v_line.variant_value;
+    end if;
+
+    v_unit_cost := coalesce((v_item->>'unit_cost')::numeric, v_line.unit_cost);
+    v_batch_id := null;
+
+    if coalesce(trim(v_item->>'batch_code'), '') <> '' then
+      insert into public.product_batches (
+        variant_id,
+        batch_code,
+        manufactured_on,
+        best_before,
+        received_quantity,
+        quantity,
+        created_by
+      )
+      values (
+        v_line.variant_id,
+        trim(v_item->>'batch_code'),
+        coalesce((v_item->>'manufactured_on')::date, current_date),
+        (v_item->>'best_before')::date,
+        v_quantity,
+        v_quantity,
+        auth.uid()
+      )
+      returning id into v_batch_id;
+    end if;
+
+    select pv.quantity, vc.cost_price into v_on_hand, v_current_cost
+    from public.product_variants pv
+    left join public.variant_costs vc on vc.variant_id = pv.id
+    where pv.id = v_line.variant_id
+    for update of pv;
+
+    -- Weighted average of the stock on hand and this delivery
+    insert into public.variant_costs (variant_id, cost_price, updated_by)
+    values (
+      v_line.variant_id,
+      case
+        when v_current_cost is null or greatest(v_on_hand, 0) = 0 then v_unit_cost
+        else round(
+          (greatest(v_on_hand, 0) * v_current_cost + v_quantity * v_unit_cost)
+            / (greatest(v_on_hand, 0) + v_quantity),
+          2
+        )
+      end,
+      auth.uid()
+    )
+    on conflict (variant_id) do update
+    set cost_price = excluded.cost_price,
+        updated_by = excluded.updated_by;
+
+    update public.product_variants
+    set quantity = quantity + v_quantity,
+        updated_by = auth.uid()
+    where id = v_line.variant_id;
+
+    update public.purchase_order_lines
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+
+    insert into public.purchase_receipt_lines (receipt_id, purchase_order_line_id, variant_id, quantity, unit_cost, batch_id)
+    values (v_receipt_id, v_line.id, v_line.variant_id, v_quantity, v_unit_cost, v_batch_id);
+  end loop;
+
+  if not exists (select 1 from public.purchase_receipt_lines where receipt_id = v_receipt_id) then
+    raise exception 'Enter a quantity for at least one line';
+  end if;
+
+  update public.purchase_orders
+  set status = case
+        when exists (
+          select 1 from public.purchase_order_lines
+          where purchase_order_id = v_order.id
+            and quantity_received < quantity_ordered
+        ) then 'partially_received'
+        else 'received'
+      end,
+      updated_by = auth.uid()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, jsonb, text) to authenticated;
+
+-- VIEW: Stock value at cost and at selling price, one row per variant
+-- Cost columns are null for variants without a cost (or for non-admins)
+create or replace view public.inventory_valuation
+with (security_invoker = true)
+as
+select
+  pv.id as variant_id,
+  p.id as product_id,
+  p.name as product_name,
+  p.category,
+  pv.variant_value,
+  pv.sku,
+  pv.quantity,
+  pv.price,
+  vc.cost_price,
+  greatest(pv.quantity, 0) * vc.cost_price as stock_value_cost,
+  greatest(pv.quantity, 0) * pv.price as stock_value_retail,
+  pv.price - vc.cost_price as unit_margin,
+  case
+    when pv.price > 0 and vc.cost_price is not null
+      then round((pv.price - vc.cost_price) / pv.price * 100, 1)
+  end as margin_percent
+from public.product_variants pv
+join public.product p on p.id = pv.product_id
+left join public.variant_costs vc on vc.variant_id = pv.id;
+
+revoke all on public.inventory_valuation from anon;
@@ -0,0 +1,648 @@
+-- STOCK UNITS
+-- Each variant says what its quantity counts: sealed packs, loose pieces, or
+-- kilograms of loose stock sold by weight. Only 'kg' stock can be fractional.
+
+-- Views and triggers that read quantity block the type change below
+drop view if exists public.expiring_batches;
+drop view if exists public.inventory_valuation;
+drop trigger if exists trg_log_stock_movement_update on public.product_variants;
+drop trigger if exists trg_consume_product_batches on public.product_variants;
+
+alter table public.product_variants
+add column if not exists stock_unit text not null default 'pack'
+  check (stock_unit in ('pack', 'piece', 'kg'));
+
+alter table public.product_variants
+alter column quantity type numeric(12, 3),
+alter column reorder_level type numeric(12, 3),
+alter column reorder_quantity type numeric(12, 3);
+
+alter table public.product_variants
+add constraint product_variants_whole_units
+check (stock_unit = 'kg' or (quantity = trunc(quantity) and reorder_level = trunc(reorder_level)));
+
+alter table public.stock_movements
+alter column delta type numeric(12, 3),
+alter column quantity_after type numeric(12, 3);
+
+alter table public.product_batches
+alter column received_quantity type numeric(12, 3),
+alter column quantity type numeric(12, 3);
+
+alter table public.purchase_order_lines
+alter column quantity_ordered type numeric(12, 3),
+alter column quantity_received type numeric(12, 3);
+
+alter table public.purchase_receipt_lines
+alter column quantity type numeric(12, 3);
+
+-- TRIGGERS (recreated with numeric working variables)
+create or replace function public.log_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delta numeric(12, 3);
+  v_reason text := nullif(current_setting('app.stock_reason', true), '');
+begin
+  if tg_op = 'INSERT' then
+    v_delta := coalesce(new.quantity, 0);
+  else
+    v_delta := coalesce(new.quantity, 0) - coalesce(old.quantity, 0);
+  end if;
+
+  if v_delta = 0 then
+    return new;
+  end if;
+
+  insert into public.stock_movements (variant_id, sku, delta, quantity_after, reason, note, order_id, created_by)
+  values (
+    new.id,
+    new.sku,
+    v_delta,
+    coalesce(new.quantity, 0),
+    coalesce(v_reason, case when tg_op = 'INSERT' then 'purchase' else 'correction' end),
+    coalesce(
+      nullif(current_setting('app.stock_note', true), ''),
+      case when tg_op = 'INSERT' then 'Opening stock' end
+    ),
+    nullif(current_setting('app.stock_order_id', true), '')::uuid,
+    coalesce(auth.uid(), new.updated_by)
+  );
+
+  return new;
+end;
+$$;
+
+create trigger trg_log_stock_movement_update
+after update of quantity on public.product_variants
+for each row
+when (old.quantity is distinct from new.quantity)
+execute function public.log_stock_movement();
+
+create or replace function public.consume_product_batches()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_remaining numeric(12, 3) := old.quantity - new.quantity;
+  v_batch record;
+  v_take numeric(12, 3);
+begin
+  if v_remaining <= 0 or current_setting('app.skip_batch_consumption', true) = 'on' then
+    return new;
+  end if;
+
+  for v_batch in
+    select id, quantity
+    from public.product_batches
+    where variant_id = new.id
+      and quantity > 0
+    order by best_before nulls last, manufactured_on, created_at
+    for update
+  loop
+    exit when v_remaining <= 0;
+
+    v_take := least(v_batch.quantity, v_remaining);
+
+    update public.product_batches
+    set quantity = quantity - v_take
+    where id = v_batch.id;
+
+    v_remaining := v_remaining - v_take;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger trg_consume_product_batches
+after update of quantity on public.product_variants
+for each row
+when (new.quantity < old.quantity)
+execute function public.consume_product_batches();
+
+-- FUNCTIONS (quantities are numeric so loose stock can be weighed)
+drop function if exists public.adjust_variant_stock(uuid, text, int, text, text);
+
+create or replace function public.adjust_variant_stock(
+  p_variant_id uuid,
+  p_mode text,
+  p_quantity numeric,
+  p_reason text,
+  p_note text default null
+)
+returns public.product_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant public.product_variants;
+  v_next numeric(12, 3);
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update stock';
+  end if;
+
+  if p_mode not in ('add', 'remove', 'set') then
+    raise exception 'Invalid adjustment mode: %', p_mode;
+  end if;
+
+  if p_quantity is null or p_quantity < 0 or (p_mode <> 'set' and p_quantity = 0) then
+    raise exception 'Enter a quantity greater than 0';
+  end if;
+
+  if p_reason is null or p_reason not in ('purchase', 'sale', 'wastage', 'correction', 'return') then
+    raise exception 'A reason is required for every stock adjustment';
+  end if;
+
+  select * into v_variant
+  from public.product_variants
+  where id = p_variant_id
+  for update;
+
+  if not found then
+    raise exception 'Variant not found';
+  end if;
+
+  v_next := case p_mode
+    when 'add' then v_variant.quantity + p_quantity
+    when 'remove' then v_variant.quantity - p_quantity
+    else p_quantity
+  end;
+
+  if v_variant.stock_unit <> 'kg' and p_quantity <> trunc(p_quantity) then
+    raise exception 'Stock of % is counted in whole %s', v_variant.sku, v_variant.stock_unit;
+  end if;
+
+  if v_next < 0 then
+    raise exception 'Cannot remove %: only % in stock', p_quantity, v_variant.quantity;
+  end if;
+
+  if v_next = v_variant.quantity then
+    return v_variant;
+  end if;
+
+  perform public.set_stock_context(p_reason, nullif(trim(coalesce(p_note, '')), ''));
+
+  update public.product_variants
+  set quantity = v_next,
+      updated_by = auth.uid()
+  where id = v_variant.id
+  returning * into v_variant;
+
+  return v_variant;
+end;
+$$;
+
+grant execute on function public.adjust_variant_stock(uuid, text, numeric, text, text) to authenticated;
+
+drop function if exists public.add_product_batch(uuid, text, date, date, int, text);
+
+create or replace function public.add_product_batch(
+  p_variant_id uuid,
+  p_batch_code text,
+  p_manufactured_on date,
+  p_best_before date,
+  p_quantity numeric,
+  p_note text default null
+)
+returns public.product_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.product_batches;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can add batches';
+  end if;
+
+  if coalesce(trim(p_batch_code), '') = '' then
+    raise exception 'Batch code is required';
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Enter a quantity greater than 0';
+  end if;
+
+  perform 1 from public.product_variants where id = p_variant_id for update;
+  if not found then
+    raise exception 'Variant not found';
+  end if;
+
+  insert into public.product_batches (
+    variant_id,
+    batch_code,
+    manufactured_on,
+    best_before,
+    received_quantity,
+    quantity,
+    created_by
+  )
+  values (
+    p_variant_id,
+    trim(p_batch_code),
+    coalesce(p_manufactured_on, current_date),
+    p_best_before,
+    p_quantity,
+    p_quantity,
+    auth.uid()
+  )
+  returning * into v_batch;
+
+  perform public.set_stock_context(
+    'purchase',
+    coalesce(nullif(trim(coalesce(p_note, '')), ''), 'Batch ' || v_batch.batch_code)
+  );
+
+  update public.product_variants
+  set quantity = quantity + p_quantity,
+      updated_by = auth.uid()
+  where id = p_variant_id;
+
+  return v_batch;
+end;
+$$;
+
+grant execute on function public.add_product_batch(uuid, text, date, date, numeric, text) to authenticated;
+
+create or replace function public.write_off_batch(p_batch_id uuid)
+returns public.product_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.product_batches;
+  v_on_hand numeric(12, 3);
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can write off batches';
+  end if;
+
+  select * into v_batch
+  from public.product_batches
+  where id = p_batch_id
+  for update;
+
+  if not found then
+    raise exception 'Batch not found';
+  end if;
+
+  if v_batch.quantity = 0 then
+    return v_batch;
+  end if;
+
+  select quantity into v_on_hand
+  from public.product_variants
+  where id = v_batch.variant_id
+  for update;
+
+  -- This batch is written off explicitly, so skip FEFO for the variant update
+  perform set_config('app.skip_batch_consumption', 'on', true);
+  perform public.set_stock_context('wastage', 'Batch ' || v_batch.batch_code || ' written off');
+
+  update public.product_variants
+  set quantity = greatest(v_on_hand - v_batch.quantity, 0),
+      updated_by = auth.uid()
+  where id = v_batch.variant_id;
+
+  perform set_config('app.skip_batch_consumption', '', true);
+
+  update public.product_batches
+  set quantity = 0
+  where id = v_batch.id
+  returning * into v_batch;
+
+  return v_batch;
+end;
+$$;
+
+create or replace function public.save_purchase_order(
+  p_purchase_order_id uuid,
+  p_supplier_id uuid,
+  p_expected_on date,
+  p_notes text,
+  p_lines jsonb
+)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line_count int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can manage purchase orders';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A purchase order must contain at least one line';
+  end if;
+
+  if p_purchase_order_id is null then
+    insert into public.purchase_orders (po_number, supplier_id, expected_on, notes, created_by, updated_by)
+    values (
+      'PO-' || lpad(nextval('public.purchase_order_number_sequence')::text, 5, '0'),
+      p_supplier_id,
+      p_expected_on,
+      nullif(trim(coalesce(p_notes, '')), ''),
+      auth.uid(),
+      auth.uid()
+    )
+    returning * into v_order;
+  else
+    select * into v_order
+    from public.purchase_orders
+    where id = p_purchase_order_id
+    for update;
+
+    if not found then
+      raise exception 'Purchase order not found';
+    end if;
+
+    if v_order.status <> 'draft' then
+      raise exception 'Only draft purchase orders can be edited (% is %)', v_order.po_number, v_order.status;
+    end if;
+
+    update public.purchase_orders
+    set supplier_id = p_supplier_id,
+        expected_on = p_expected_on,
+        notes = nullif(trim(coalesce(p_notes, '')), ''),
+        updated_by = auth.uid()
+    where id = v_order.id;
+
+    delete from public.purchase_order_lines where purchase_order_id = v_order.id;
+  end if;
+
+  insert into public.purchase_order_lines (
+    purchase_order_id,
+    variant_id,
+    product_name,
+    variant_value,
+    sku,
+    quantity_ordered,
+    unit_cost
+  )
+  select
+    v_order.id,
+    pv.id,
+    p.name,
+    pv.variant_value,
+    pv.sku,
+    line.quantity,
+    line.unit_cost
+  from (
+    select (item->>'variant_id')::uuid as variant_id,
+           sum((item->>'quantity')::numeric) as quantity,
+           max(coalesce((item->>'unit_cost')::numeric, 0)) as unit_cost
+    from jsonb_array_elements(p_lines) as item
+    group by 1
+  ) line
+  join public.product_variants pv on pv.id = line.variant_id
+  join public.product p on p.id = pv.product_id;
+
+  -- Lines are merged by variant, and the joins drop variants that no longer exist
+  get diagnostics v_line_count = row_count;
+  if v_line_count <> (
+    select count(*) from (select distinct item->>'variant_id' from jsonb_array_elements(p_lines) as item) lines
+  ) then
+    raise exception 'Some products on this order no longer exist; reload and try again';
+  end if;
+
+  if exists (
+    select 1 from public.purchase_order_lines
+    where purchase_order_id = v_order.id and quantity_ordered <= 0
+  ) then
+    raise exception 'Every line needs a quantity greater than 0';
+  end if;
+
+  update public.purchase_orders
+  set total = coalesce((
+    select sum(quantity_ordered * unit_cost)
+    from public.purchase_order_lines
+    where purchase_order_id = v_order.id
+  ), 0)
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_lines jsonb,
+  p_note text default null
+)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_receipt_id uuid;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_quantity numeric(12, 3);
+  v_unit_cost numeric(10, 2);
+  v_batch_id uuid;
+  v_on_hand numeric(12, 3);
+  v_current_cost numeric(10, 2);
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can receive purchase orders';
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Nothing to receive';
+  end if;
+
+  select * into v_order
+  from public.purchase_orders
+  where id = p_purchase_order_id
+  for update;
+
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order % cannot be received while %', v_order.po_number, v_order.status;
+  end if;
+
+  insert into public.purchase_receipts (purchase_order_id, note, received_by)
+  values (v_order.id, nullif(trim(coalesce(p_note, '')), ''), auth.uid())
+  returning id into v_receipt_id;
+
+  perform public.set_stock_context('purchase', v_order.po_number);
+
+  for v_item in
+    select value from jsonb_array_elements(p_lines)
+    order by value->>'line_id'
+  loop
+    v_quantity := coalesce((v_item->>'quantity')::numeric, 0);
+    continue when v_quantity = 0;
+
+    select * into v_line
+    from public.purchase_order_lines
+    where id = (v_item->>'line_id')::uuid
+      and purchase_order_id = v_order.id
+    for update;
+
+    if not found then
+      raise exception 'Line % is not part of %', v_item->>'line_id', v_order.po_number;
+    end if;
+
+    if v_quantity < 0 or v_line.quantity_received + v_quantity > v_line.quantity_ordered then
+      raise exception 'Cannot receive % of % (%): % of % outstanding',
+        v_quantity, v_line.product_name, v_line.variant_value,
+        v_line.quantity_ordered - v_line.quantity_received, v_line.quantity_ordered;
+    end if;
+
+    if v_line.variant_id is null then
+      raise exception '% (%) no longer exists in the catalogue', v_line.product_name, v_line.variant_value;
+    end if;
+
+    v_unit_cost := coalesce((v_item->>'unit_cost')::numeric, v_line.unit_cost);
+    v_batch_id := null;
+
+    if coalesce(trim(v_item->>'batch_code'), '') <> '' then
+      insert into public.product_batches (
+        variant_id,
+        batch_code,
+        manufactured_on,
+        best_before,
+        received_quantity,
+        quantity,
+        created_by
+      )
+      values (
+        v_line.variant_id,
+        trim(v_item->>'batch_code'),
+        coalesce((v_item->>'manufactured_on')::date, current_date),
+        (v_item->>'best_before')::date,
+        v_quantity,
+        v_quantity,
+        auth.uid()
+      )
+      returning id into v_batch_id;
+    end if;
+
+    select pv.quantity, vc.cost_price into v_on_hand, v_current_cost
+    from public.product_variants pv
+    left join public.variant_costs vc on vc.variant_id = pv.id
+    where pv.id = v_line.variant_id
+    for update of pv;
+
+    -- Weighted average of the stock on hand and this delivery
+    insert into public.variant_costs (variant_id, cost_price, updated_by)
+    values (
+      v_line.variant_id,
+      case
+        when v_current_cost is null or greatest(v_on_hand, 0) = 0 then v_unit_cost
+        else round(
+          (greatest(v_on_hand, 0) * v_current_cost + v_quantity * v_unit_cost)
+            / (greatest(v_on_hand, 0) + v_quantity),
+          2
+        )
+      end,
+      auth.uid()
+    )
+    on conflict (variant_id) do update
+    set cost_price = excluded.cost_price,
+        updated_by = excluded.updated_by;
+
+    update public.product_variants
+    set quantity = quantity + v_quantity,
+        updated_by = auth.uid()
+    where id = v_line.variant_id;
+
+    update public.purchase_order_lines
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+
+    insert into public.purchase_receipt_lines (receipt_id, purchase_order_line_id, variant_id, quantity, unit_cost, batch_id)
+    values (v_receipt_id, v_line.id, v_line.variant_id, v_quantity, v_unit_cost, v_batch_id);
+  end loop;
+
+  if not exists (select 1 from public.purchase_receipt_lines where receipt_id = v_receipt_id) then
+    raise exception 'Enter a quantity for at least one line';
+  end if;
+
+  update public.purchase_orders
+  set status = case
+        when exists (
+          select 1 from public.purchase_order_lines
+          where purchase_order_id = v_order.id
+            and quantity_received < quantity_ordered
+        ) then 'partially_received'
+        else 'received'
+      end,
+      updated_by = auth.uid()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- VIEWS (recreated with the stock unit)
+create or replace view public.expiring_batches
+with (security_invoker = true)
+as
+select
+  b.id,
+  b.variant_id,
+  b.batch_code,
+  b.manufactured_on,
+  b.best_before,
+  b.quantity,
+  pv.sku,
+  pv.variant_value,
+  pv.stock_unit,
+  p.id as product_id,
+  p.name as product_name,
+  (b.best_before - (now() at time zone 'Asia/Kolkata')::date) as days_left
+from public.product_batches b
+join public.product_variants pv on pv.id = b.variant_id
+join public.product p on p.id = pv.product_id
+where b.quantity > 0
+  and b.best_before is not null;
+
+create or replace view public.inventory_valuation
+with (security_invoker = true)
+as
+select
+  pv.id as variant_id,
+  p.id as product_id,
+  p.name as product_name,
+  p.category,
+  pv.variant_value,
+  pv.sku,
+  pv.quantity,
+  pv.stock_unit,
+  pv.price,
+  vc.cost_price,
+  greatest(pv.quantity, 0) * vc.cost_price as stock_value_cost,
+  greatest(pv.quantity, 0) * pv.price as stock_value_retail,
+  pv.price - vc.cost_price as unit_margin,
+  case
+    when pv.price > 0 and vc.cost_price is not null
+      then round((pv.price - vc.cost_price) / pv.price * 100, 1)
+  end as margin_percent
+from public.product_variants pv
+join public.product p on p.id = pv.product_id
+left join public.variant_costs vc on vc.variant_id = pv.id;
+
+revoke all on public.inventory_valuation from anon;
@@ -0,0 +1,219 @@
+-- LOOSE WEIGHT PRICING
+-- A 'per_kg' variant is priced per kilogram and sold in whatever weight the
+-- customer asks for. Its price column holds the rate per kg and its stock is
+-- the bulk quantity on hand in kg, so only kg stock can be sold this way.
+
+alter table public.product_variants
+add column if not exists pricing_mode text not null default 'fixed'
+  check (pricing_mode in ('fixed', 'per_kg'));
+
+alter table public.product_variants
+add constraint product_variants_per_kg_stock
+check (pricing_mode = 'fixed' or stock_unit = 'kg');
+
+-- Weight of each unit sold from a per_kg variant; null for fixed price lines.
+-- Each unit is priced to the rupee, so very small weights would round to nothing.
+alter table public.order_items
+add column if not exists weight_grams int check (weight_grams >= 50);
+
+-- ORDERS
+-- Loose lines are merged by variant and weight, priced at the rate for that
+-- weight (rounded to the rupee) and take quantity * weight out of bulk stock.
+create or replace function public.place_order(
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text,
+  p_items jsonb
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_line record;
+  v_variant record;
+  v_weight int;
+  v_unit_price int;
+  v_stock_needed numeric(12, 3);
+  v_total int := 0;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if coalesce(trim(p_customer_phone), '') = '' then
+    raise exception 'Customer phone is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'An order must contain at least one item';
+  end if;
+
+  insert into public.orders (order_number, user_id, customer_name, customer_phone, notes)
+  values (
+    'ORD-' || lpad(nextval('public.order_number_sequence')::text, 5, '0'),
+    auth.uid(),
+    trim(p_customer_name),
+    trim(p_customer_phone),
+    nullif(trim(coalesce(p_notes, '')), '')
+  )
+  returning * into v_order;
+
+  perform public.set_stock_context('sale', null, v_order.id);
+
+  -- Merge duplicate lines and lock variants in a stable order to avoid deadlocks
+  for v_line in
+    select (item->>'variant_id')::uuid as variant_id,
+           (item->>'weight_grams')::int as weight_grams,
+           sum((item->>'quantity')::int) as quantity
+    from jsonb_array_elements(p_items) as item
+    group by 1, 2
+    order by 1, 2
+  loop
+    if v_line.quantity is null or v_line.quantity <= 0 then
+      raise exception 'Invalid quantity for variant %', v_line.variant_id;
+    end if;
+
+    select pv.id, pv.sku, pv.variant_value, pv.price, pv.quantity, pv.pricing_mode, p.name, p.is_visible
+    into v_variant
+    from public.product_variants pv
+    join public.product p on p.id = pv.product_id
+    where pv.id = v_line.variant_id
+    for update of pv;
+
+    if not found or not v_variant.is_visible then
+      raise exception 'Product is no longer available (variant %)', v_line.variant_id;
+    end if;
+
+    if v_variant.pricing_mode = 'per_kg' then
+      v_weight := v_line.weight_grams;
+      if v_weight is null or v_weight <= 0 then
+        raise exception 'Choose a weight for % (%)', v_variant.name, v_variant.variant_value;
+      end if;
+
+      if v_weight < 50 then
+        raise exception 'Choose at least 50 g of % (%)', v_variant.name, v_variant.variant_value;
+      end if;
+
+      v_unit_price := round(v_variant.price * v_weight / 1000.0);
+      if v_unit_price <= 0 then
+        raise exception '% g of % (%) is too little to price', v_weight, v_variant.name, v_variant.variant_value;
+      end if;
+      v_stock_needed := v_line.quantity * v_weight / 1000.0;
+    else
+      v_weight := null;
+      v_unit_price := v_variant.price;
+      v_stock_needed := v_line.quantity;
+    end if;
+
+    if v_variant.quantity < v_stock_needed then
+      raise exception 'Insufficient stock for % (%): % available', v_variant.name, v_variant.variant_value, v_variant.quantity;
+    end if;
+
+    update public.product_variants
+    set quantity = quantity - v_stock_needed
+    where id = v_variant.id;
+
+    insert into public.order_items (
+      order_id,
+      variant_id,
+      product_name,
+      variant_value,
+      sku,
+      unit_price,
+      quantity,
+      weight_grams,
+      line_total
+    )
+    values (
+      v_order.id,
+      v_variant.id,
+      v_variant.name,
+      v_variant.variant_value,
+      v_variant.sku,
+      v_unit_price,
+      v_line.quantity,
+      v_weight,
+      v_unit_price * v_line.quantity
+    );
+
+    v_total := v_total + v_unit_price * v_line.quantity;
+  end loop;
+
+  update public.orders
+  set total = v_total
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- Cancelling a loose line returns its weight to bulk stock
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_allowed text[];
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update orders';
+  end if;
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  v_allowed := case v_order.status
+    when 'placed' then array['confirmed', 'cancelled']
+    when 'confirmed' then array['packed', 'cancelled']
+    when 'packed' then array['ready_for_pickup', 'cancelled']
+    when 'ready_for_pickup' then array['completed', 'cancelled']
+    else array[]::text[]
+  end;
+
+  if not (p_status = any(v_allowed)) then
+    raise exception 'Cannot move order % from % to %', v_order.order_number, v_order.status, p_status;
+  end if;
+
+  -- Put cancelled stock back on the shelf (skipping variants deleted since)
+  if p_status = 'cancelled' then
+    perform public.set_stock_context('return', 'Order ' || v_order.order_number || ' cancelled', v_order.id);
+
+    update public.product_variants pv
+    set quantity = pv.quantity + oi.quantity,
+        updated_by = auth.uid()
+    from (
+      select variant_id,
+             sum(case when weight_grams is null then quantity else quantity * weight_grams / 1000.0 end) as quantity
+      from public.order_items
+      where order_id = v_order.id
+        and variant_id is not null
+      group by variant_id
+    ) oi
+    where pv.id = oi.variant_id;
+  end if;
+
+  update public.orders
+  set status = p_status,
+      updated_by = auth.uid()
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,84 @@
+-- LEGACY PRODUCT COLUMNS
+-- Databases set up before product variants may still carry price, quantity,
+-- sku and has_variants on product. Items without variants kept their price,
+-- stock and SKU there; move them onto the product's default variant and drop
+-- the old columns. Safe to run on databases that never had them.
+do $$
+declare
+  v_product record;
+  v_variant_id uuid;
+  v_sku text;
+begin
+  if not exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'product'
+      and column_name = 'has_variants'
+  ) then
+    return;
+  end if;
+
+  perform public.set_stock_context('correction', 'Moved from legacy product columns');
+
+  for v_product in execute
+    'select id, price, quantity, nullif(trim(sku), '''') as sku, updated_by
+     from public.product
+     where not coalesce(has_variants, false)'
+  loop
+    -- The variant created by trg_create_default_variant, if it was never edited
+    select pv.id into v_variant_id
+    from public.product_variants pv
+    where pv.product_id = v_product.id
+      and pv.variant_value = 'default'
+      and pv.price = 0
+      and pv.quantity = 0
+      and (select count(*) from public.product_variants other where other.product_id = v_product.id) = 1;
+
+    -- Keep the old SKU unless another variant already uses it
+    v_sku := case
+      when v_product.sku is not null
+        and not exists (
+          select 1
+          from public.product_variants pv
+          where pv.sku = v_product.sku
+            and pv.id is distinct from v_variant_id
+        )
+        then v_product.sku
+    end;
+
+    if v_variant_id is not null then
+      update public.product_variants
+      set price = round(coalesce(v_product.price, 0)),
+          quantity = greatest(coalesce(v_product.quantity, 0), 0),
+          sku = coalesce(v_sku, sku)
+      where id = v_variant_id;
+    elsif not exists (select 1 from public.product_variants where product_id = v_product.id) then
+      insert into public.product_variants (
+        product_id,
+        sku,
+        variant_type,
+        variant_value,
+        price,
+        quantity,
+        updated_by
+      )
+      values (
+        v_product.id,
+        coalesce(v_sku, public.generate_sku()),
+        'pcs',
+        'default',
+        round(coalesce(v_product.price, 0)),
+        greatest(coalesce(v_product.quantity, 0), 0),
+        v_product.updated_by
+      );
+    end if;
+  end loop;
+
+  alter table public.product
+  drop column if exists has_variants,
+  drop column if exists price,
+  drop column if exists quantity,
+  drop column if exists sku;
+end;
+$$;
@@ -0,0 +1,63 @@
+-- PRODUCT IMAGES
+-- Uploaded photos live in the product-images bucket. Each image is stored as
+-- WebP renditions under '<product_id>/<image_id>/<size>.webp', resized in the
+-- browser before upload. product.image_url stays as the fallback for products
+-- that only have an external link.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('product-images', 'product-images', true, 5242880, array['image/webp'])
+on conflict (id) do nothing;
+
+-- STORAGE POLICIES (anyone can read the public bucket; only admins write)
+create policy "Admins can upload product images"
+on storage.objects
+for insert
+with check (bucket_id = 'product-images' and public.is_admin());
+
+create policy "Admins can update product images"
+on storage.objects
+for update
+using (bucket_id = 'product-images' and public.is_admin())
+with check (bucket_id = 'product-images' and public.is_admin());
+
+create policy "Admins can delete product images"
+on storage.objects
+for delete
+using (bucket_id = 'product-images' and public.is_admin());
+
+-- PRODUCT IMAGES TABLE (ordering and the primary image shown on cards)
+create table if not exists public.product_images (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.product(id) on delete cascade,
+  storage_path text not null unique,        -- folder holding the renditions
+  position integer not null default 0,
+  is_primary boolean not null default false,
+  width integer check (width > 0),          -- of the largest rendition
+  height integer check (height > 0),
+  created_at timestamp with time zone not null default now(),
+  created_by uuid references auth.users(id) on delete set null
+);
+
+create index if not exists idx_product_images_product_id on public.product_images(product_id, position);
+
+-- At most one primary image per product
+create unique index if not exists idx_product_images_one_primary
+on public.product_images(product_id)
+where is_primary;
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.product_images enable row level security;
+
+-- POLICIES
+
+create policy "Admins can manage product images"
+on public.product_images
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Users can view product images"
+on public.product_images
+for select
+using (true);
+
+alter publication supabase_realtime add table public.product_images;
@@ -0,0 +1,165 @@
+-- BULK PRODUCT ACTIONS
+-- The dashboard's bulk edits each run as one statement, so a selection changes
+-- together or not at all. Every function returns the number of rows changed.
+
+-- FUNCTION: Move products to a category (null or '' leaves them uncategorised)
+create or replace function public.bulk_set_product_category(
+  p_product_ids uuid[],
+  p_category text
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category text := nullif(lower(trim(coalesce(p_category, ''))), '');
+  v_count int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can edit products';
+  end if;
+
+  if v_category is not null and not exists (select 1 from public.category where name = v_category) then
+    raise exception 'Category % does not exist', v_category;
+  end if;
+
+  update public.product
+  set category = v_category,
+      updated_by = auth.uid()
+  where id = any(p_product_ids)
+    and category is distinct from v_category;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.bulk_set_product_category(uuid[], text) to authenticated;
+
+-- FUNCTION: Show or hide products in the storefront
+create or replace function public.bulk_set_product_visibility(
+  p_product_ids uuid[],
+  p_is_visible boolean
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can edit products';
+  end if;
+
+  if p_is_visible is null then
+    raise exception 'Choose whether the products are shown or hidden';
+  end if;
+
+  update public.product
+  set is_visible = p_is_visible,
+      updated_by = auth.uid()
+  where id = any(p_product_ids)
+    and is_visible <> p_is_visible;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.bulk_set_product_visibility(uuid[], boolean) to authenticated;
+
+-- FUNCTION: Reprice variants by a percentage or a flat amount
+-- p_mode 'percent' changes prices by p_amount % (-10 is a 10% cut), 'flat' adds
+-- p_amount rupees. Prices stay whole rupees; per_kg rates change the same way.
+create or replace function public.bulk_adjust_variant_prices(
+  p_variant_ids uuid[],
+  p_mode text,
+  p_amount numeric
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant record;
+  v_count int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can edit prices';
+  end if;
+
+  if p_mode not in ('percent', 'flat') then
+    raise exception 'Invalid price change mode: %', p_mode;
+  end if;
+
+  if p_amount is null or p_amount = 0 then
+    raise exception 'Enter a price change other than 0';
+  end if;
+
+  -- Lock the rows first so the check below holds for the update
+  perform 1
+  from public.product_variants
+  where id = any(p_variant_ids)
+  for update;
+
+  select p.name, pv.variant_value into v_variant
+  from public.product_variants pv
+  join public.product p on p.id = pv.product_id
+  where pv.id = any(p_variant_ids)
+    and case p_mode
+      when 'percent' then pv.price * (1 + p_amount / 100)
+      else pv.price + p_amount
+    end < 0
+  limit 1;
+
+  if found then
+    raise exception 'The change would take % (%) below 0', v_variant.name, v_variant.variant_value;
+  end if;
+
+  update public.product_variants
+  set price = round(case p_mode
+        when 'percent' then price * (1 + p_amount / 100)
+        else price + p_amount
+      end),
+      updated_by = auth.uid()
+  where id = any(p_variant_ids)
+    and price <> round(case p_mode
+      when 'percent' then price * (1 + p_amount / 100)
+      else price + p_amount
+    end);
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.bulk_adjust_variant_prices(uuid[], text, numeric) to authenticated;
+
+-- FUNCTION: Delete products with their variants and image rows
+-- Image files in storage are removed by the caller afterwards.
+create or replace function public.bulk_delete_products(p_product_ids uuid[])
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count int;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can delete products';
+  end if;
+
+  delete from public.product
+  where id = any(p_product_ids);
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.bulk_delete_products(uuid[]) to authenticated;
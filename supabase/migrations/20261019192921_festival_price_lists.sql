@@ -0,0 +1,297 @@
+-- PRICE LISTS (festival prices that replace regular prices between two instants)
+-- While a list is live its prices are written into product_variants.price, so the
+-- storefront, cart and place_order need no changes; the regular prices are kept
+-- on the list's items and put back when it ends.
+create table if not exists public.price_lists (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,              -- e.g. 'Diwali 2026'
+  starts_at timestamp with time zone not null,
+  ends_at timestamp with time zone not null,
+  is_applied boolean not null default false,  -- set by apply_price_lists while its prices are live
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  constraint price_lists_valid_range check (ends_at > starts_at),
+  -- Only one list can be live at a time
+  constraint price_lists_no_overlap exclude using gist (tstzrange(starts_at, ends_at) with &&)
+);
+
+create table if not exists public.price_list_items (
+  price_list_id uuid not null references public.price_lists(id) on delete cascade,
+  variant_id uuid not null references public.product_variants(id) on delete cascade,
+  price int not null check (price >= 0),
+  regular_price int,                      -- the variant's price when the list last went live
+  primary key (price_list_id, variant_id)
+);
+
+create index if not exists idx_price_list_items_variant_id on public.price_list_items(variant_id);
+
+create or replace function public.update_price_lists_updated_at()
+returns trigger
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trg_update_price_lists_updated_at
+before update on public.price_lists
+for each row
+execute function public.update_price_lists_updated_at();
+
+-- ENABLE RLS (Row-Level Security)
+alter table public.price_lists enable row level security;
+alter table public.price_list_items enable row level security;
+
+-- POLICIES
+
+-- Customers only see the live list (for the storefront banner), never upcoming prices
+create policy "Users can view the live price list"
+on public.price_lists
+for select
+using (is_applied or public.is_admin());
+
+create policy "Admins can manage price lists"
+on public.price_lists
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+create policy "Admins can manage price list items"
+on public.price_list_items
+for all
+using (public.is_admin())
+with check (public.is_admin());
+
+alter publication supabase_realtime add table public.price_lists;
+
+-- FUNCTION: Put a live list's regular prices back (callers clear is_applied)
+-- Variants repriced by hand while the list was live keep their new price.
+create or replace function public.revert_price_list(p_price_list_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.product_variants pv
+  set price = pli.regular_price,
+      updated_by = auth.uid()
+  from public.price_list_items pli
+  where pli.price_list_id = p_price_list_id
+    and pli.variant_id = pv.id
+    and pli.regular_price is not null
+    and pv.price = pli.price
+    and pv.price <> pli.regular_price;
+end;
+$$;
+
+revoke execute on function public.revert_price_list(uuid) from public, anon, authenticated;
+
+-- FUNCTION: Switch prices when a list starts or ends; returns the live list, if any
+create or replace function public.apply_price_lists()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_list public.price_lists;
+begin
+  -- pg_cron runs without a user; signed-in callers must be admins
+  if auth.uid() is not null and not public.is_admin() then
+    raise exception 'Only admins can apply price lists';
+  end if;
+
+  -- One run at a time, so a list is never applied twice
+  perform pg_advisory_xact_lock(hashtext('apply_price_lists'));
+
+  -- End lists first, so a list starting the moment another ends reads regular prices
+  for v_list in
+    select *
+    from public.price_lists
+    where is_applied
+      and not (starts_at <= now() and ends_at > now())
+    for update
+  loop
+    perform public.revert_price_list(v_list.id);
+
+    update public.price_lists
+    set is_applied = false
+    where id = v_list.id;
+  end loop;
+
+  select * into v_list
+  from public.price_lists
+  where starts_at <= now()
+    and ends_at > now()
+  for update;
+
+  if not found then
+    return null;
+  end if;
+
+  if not v_list.is_applied then
+    update public.price_list_items pli
+    set regular_price = pv.price
+    from public.product_variants pv
+    where pli.price_list_id = v_list.id
+      and pv.id = pli.variant_id;
+
+    update public.product_variants pv
+    set price = pli.price,
+        updated_by = auth.uid()
+    from public.price_list_items pli
+    where pli.price_list_id = v_list.id
+      and pli.variant_id = pv.id
+      and pv.price <> pli.price;
+
+    update public.price_lists
+    set is_applied = true
+    where id = v_list.id;
+  end if;
+
+  return v_list.id;
+end;
+$$;
+
+revoke execute on function public.apply_price_lists() from public, anon;
+grant execute on function public.apply_price_lists() to authenticated, service_role;
+
+-- FUNCTION: Create or replace a price list with its items
+-- p_items is [{ variant_id, price }]. A live list is reverted before it changes and
+-- applied again straight away if it is still within its dates.
+create or replace function public.save_price_list(
+  p_price_list_id uuid,
+  p_name text,
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_items jsonb
+)
+returns public.price_lists
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_list public.price_lists;
+  v_overlap text;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can manage price lists';
+  end if;
+
+  if nullif(trim(coalesce(p_name, '')), '') is null then
+    raise exception 'A price list needs a name';
+  end if;
+
+  if p_starts_at is null or p_ends_at is null or p_ends_at <= p_starts_at then
+    raise exception 'A price list must end after it starts';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A price list must contain at least one price';
+  end if;
+
+  if exists (
+    select 1 from public.price_lists
+    where id is distinct from p_price_list_id
+      and name = trim(p_name)
+  ) then
+    raise exception 'A price list named % already exists', trim(p_name);
+  end if;
+
+  select name into v_overlap
+  from public.price_lists
+  where id is distinct from p_price_list_id
+    and tstzrange(starts_at, ends_at) && tstzrange(p_starts_at, p_ends_at)
+  limit 1;
+
+  if found then
+    raise exception 'The dates overlap with %', v_overlap;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('apply_price_lists'));
+
+  if p_price_list_id is null then
+    insert into public.price_lists (name, starts_at, ends_at, updated_by)
+    values (trim(p_name), p_starts_at, p_ends_at, auth.uid())
+    returning * into v_list;
+  else
+    select * into v_list
+    from public.price_lists
+    where id = p_price_list_id
+    for update;
+
+    if not found then
+      raise exception 'Price list not found';
+    end if;
+
+    if v_list.is_applied then
+      perform public.revert_price_list(v_list.id);
+    end if;
+
+    update public.price_lists
+    set name = trim(p_name),
+        starts_at = p_starts_at,
+        ends_at = p_ends_at,
+        is_applied = false,
+        updated_by = auth.uid()
+    where id = v_list.id;
+
+    delete from public.price_list_items where price_list_id = v_list.id;
+  end if;
+
+  insert into public.price_list_items (price_list_id, variant_id, price)
+  select v_list.id,
+         (item->>'variant_id')::uuid,
+         max((item->>'price')::int)
+  from jsonb_array_elements(p_items) as item
+  group by 2;
+
+  perform public.apply_price_lists();
+
+  select * into v_list
+  from public.price_lists
+  where id = v_list.id;
+
+  return v_list;
+end;
+$$;
+
+grant execute on function public.save_price_list(uuid, text, timestamp with time zone, timestamp with time zone, jsonb) to authenticated;
+
+-- TRIGGER: Deleting a live list puts the regular prices back first
+create or replace function public.revert_deleted_price_list()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.is_applied then
+    perform public.revert_price_list(old.id);
+  end if;
+
+  return old;
+end;
+$$;
+
+create trigger trg_revert_deleted_price_list
+before delete on public.price_lists
+for each row
+execute function public.revert_deleted_price_list();
+
+-- SCHEDULE: run every minute with pg_cron where the extension is available.
+-- Without pg_cron, any external scheduler can run
+--   select public.apply_price_lists();
+-- or POST /rest/v1/rpc/apply_price_lists with the service role key.
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule('apply-price-lists', '* * * * *', 'select public.apply_price_lists()');
+  end if;
+end;
+$$;
@@ -0,0 +1,86 @@
+-- GUARDED STOCK EDITS
+-- Screens that show a quantity and let the admin type a new one (the inventory
+-- grid) pass the quantity they showed as p_expected_quantity. If a sale or another
+-- adjustment moved the stock since, the edit is refused instead of written over it.
+
+-- FUNCTION: adjust_variant_stock with an optional expected quantity
+drop function if exists public.adjust_variant_stock(uuid, text, numeric, text, text);
+
+create or replace function public.adjust_variant_stock(
+  p_variant_id uuid,
+  p_mode text,
+  p_quantity numeric,
+  p_reason text,
+  p_note text default null,
+  p_expected_quantity numeric default null
+)
+returns public.product_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant public.product_variants;
+  v_next numeric(12, 3);
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can update stock';
+  end if;
+
+  if p_mode not in ('add', 'remove', 'set') then
+    raise exception 'Invalid adjustment mode: %', p_mode;
+  end if;
+
+  if p_quantity is null or p_quantity < 0 or (p_mode <> 'set' and p_quantity = 0) then
+    raise exception 'Enter a quantity greater than 0';
+  end if;
+
+  if p_reason is null or p_reason not in ('purchase', 'sale', 'wastage', 'correction', 'return') then
+    raise exception 'A reason is required for every stock adjustment';
+  end if;
+
+  select * into v_variant
+  from public.product_variants
+  where id = p_variant_id
+  for update;
+
+  if not found then
+    raise exception 'Variant not found';
+  end if;
+
+  if p_expected_quantity is not null and v_variant.quantity <> p_expected_quantity then
+    raise exception 'Stock changed to % while you were editing', trim_scale(v_variant.quantity)
+      using errcode = '40001';
+  end if;
+
+  v_next := case p_mode
+    when 'add' then v_variant.quantity + p_quantity
+    when 'remove' then v_variant.quantity - p_quantity
+    else p_quantity
+  end;
+
+  if v_variant.stock_unit <> 'kg' and p_quantity <> trunc(p_quantity) then
+    raise exception 'Stock of % is counted in whole %s', v_variant.sku, v_variant.stock_unit;
+  end if;
+
+  if v_next < 0 then
+    raise exception 'Cannot remove %: only % in stock', p_quantity, v_variant.quantity;
+  end if;
+
+  if v_next = v_variant.quantity then
+    return v_variant;
+  end if;
+
+  perform public.set_stock_context(p_reason, nullif(trim(coalesce(p_note, '')), ''));
+
+  update public.product_variants
+  set quantity = v_next,
+      updated_by = auth.uid()
+  where id = v_variant.id
+  returning * into v_variant;
+
+  return v_variant;
+end;
+$$;
+
+grant execute on function public.adjust_variant_stock(uuid, text, numeric, text, text, numeric) to authenticated;
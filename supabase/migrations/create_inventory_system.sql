@@ -1,3 +1,8 @@
+-- BASELINE SCHEMA
+-- Already applied on the live database. It has no timestamp on purpose, so
+-- `supabase db push` skips it; on a new database run it by hand before the
+-- timestamped migrations.
+
 -- CATEGORY TABLE
 create table if not exists public.category (
   id uuid primary key default gen_random_uuid(),
@@ -0,0 +1,4 @@
+-- DEV ONLY: wipes every variant (and, through CASCADE, orders, batches and the
+-- stock ledger) and restarts SKU numbering. Never run against production.
+TRUNCATE TABLE public.product_variants RESTART IDENTITY CASCADE;
+ALTER SEQUENCE public.sku_sequence RESTART WITH 1;